@@ -0,0 +1,81 @@
+// scripts/check-askura.mjs
+// Runs the /api/askura handler offline with the mock provider (ASKURA_PROVIDER=mock), as JSON
+// and as server-sent events, and checks the answer quotes the figure the tools compute. Also
+// runs a model that never stops calling tools to the round limit, on the mock and on the
+// Anthropic adapter against a stubbed API.
+// Vite loads the TypeScript sources. Usage: npm run check:askura
+import assert from 'node:assert/strict';
+import { createServer } from 'vite';
+
+const vite = await createServer({
+  appType: 'custom', logLevel: 'error', server: { middlewareMode: true, hmr: false }, optimizeDeps: { noDiscovery: true, entries: [] },
+});
+try {
+  const { handleAskura } = await vite.ssrLoadModule('/src/lib/askuraHandler.ts');
+  const { runTool } = await vite.ssrLoadModule('/src/lib/askuraTools.ts');
+  const { numericColumns, sampleDataset } = await vite.ssrLoadModule('/src/lib/dataset.ts');
+
+  const ds = sampleDataset();
+  const metric = numericColumns(ds)[0];
+  const expected = runTool(ds, 'aggregate', { column: metric.key });
+  const env = { ASKURA_PROVIDER: 'mock' };
+  const body = {
+    question: `What is the total ${metric.label}?`, rows: ds.rows, columns: ds.columns, context: { mode: 'line' },
+    history: [{ role: 'user', text: 'Hi' }, { role: 'ai', text: 'Hello' }],
+  };
+  const call = async (accept, callEnv = env) => {
+    const out = { code: 0, json: undefined, stream: '' };
+    await handleAskura({ method: 'POST', body, headers: { accept } }, {
+      status: code => { out.code = code; return { json: b => { out.json = b; } }; },
+      setHeader: () => {}, write: chunk => { out.stream += chunk; }, end: () => { out.code ||= 200; }, on: () => {},
+    }, callEnv);
+    return out;
+  };
+
+  // The mock finds the first numeric column in the dataset description and totals it with a tool
+  const json = await call('application/json');
+  assert.equal(json.code, 200, JSON.stringify(json.json));
+  assert.deepEqual(json.json.calls.map(c => c.name), ['aggregate']);
+  assert.deepEqual(json.json.calls[0].result, expected);
+  assert.equal(json.json.answer, `${metric.label}: ${expected.formatted}.`);
+
+  const sse = await call('text/event-stream');
+  assert.equal(sse.code, 200);
+  assert.match(sse.stream, /^event: token\n/);
+  const done = /event: done\ndata: (.*)\n/.exec(sse.stream);
+  assert.ok(done, sse.stream);
+  assert.equal(JSON.parse(done[1]).answer, json.json.answer);
+
+  // At the round limit the tools stay defined but may not be called, so the model answers
+  const looped = await call('application/json', { ...env, ASKURA_MOCK_ROUNDS: '99' });
+  assert.equal(looped.code, 200, JSON.stringify(looped.json));
+  assert.ok(looped.json.calls.length > 1);
+  assert.equal(looped.json.answer, json.json.answer);
+
+  // Anthropic rejects tool_use/tool_result blocks unless the request defines the tools
+  const realFetch = globalThis.fetch;
+  const requests = [];
+  globalThis.fetch = async (_url, init) => {
+    const req = JSON.parse(init.body);
+    requests.push(req);
+    const sent = req.messages.flatMap(m => m.content.map(b => b.type));
+    if (sent.includes('tool_result') && !req.tools) return new Response('tool_result without tools', { status: 400 });
+    const content = req.tool_choice?.type === 'none'
+      ? [{ type: 'text', text: 'Done.' }]
+      : [{ type: 'tool_use', id: `t${requests.length}`, name: 'aggregate', input: { column: metric.key } }];
+    return new Response(JSON.stringify({ content }), { status: 200 });
+  };
+  try {
+    const anthropic = await call('application/json', { ASKURA_PROVIDER: 'anthropic', ANTHROPIC_API_KEY: 'offline' });
+    assert.equal(anthropic.code, 200, JSON.stringify(anthropic.json));
+    assert.equal(anthropic.json.answer, 'Done.');
+    assert.deepEqual(requests.at(-1).tool_choice, { type: 'none' });
+    assert.equal(requests.at(-1).tools.length, requests[0].tools.length);
+  } finally {
+    globalThis.fetch = realFetch;
+  }
+
+  console.log(`askura mock: ok (${json.json.answer}; ${looped.json.calls.length} tool rounds at the limit)`);
+} finally {
+  await vite.close();
+}
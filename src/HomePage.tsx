@@ -1,4 +1,37 @@
-import React, { useEffect, useMemo, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  type Aggregation, type Column, type ColumnType, type Dataset, type Row,
+  AGGREGATIONS, NUMERIC_TYPES, categoryColumns, cellText, columnByKey, columnLabel, comparePeriods,
+  defaultAggregation, distinctValues, groupRows, isNumeric, nextRow, numericColumns, periodColumn, sampleDataset, toKey, uniqueKey,
+} from './lib/dataset';
+import { decodeText, delimiterName, parseDelimited, toDelimited } from './lib/csv';
+import { type CellPos, type GridSort, cellInput, clearBlock, fillDown, gridView, inRange, nextSort, rangeOf, readBlock, rowWindow, writeBlock } from './lib/grid';
+import { type History, createHistory, record, redo, undo } from './lib/history';
+import { type ColumnMapping, type ImportIssue, type RawTable, applyMapping, suggestMapping, tableFromParsed } from './lib/importer';
+import { type XlsxSheet, readXlsx, tableFromSheet } from './lib/xlsx';
+import { type Coercion, rebaseCoercions } from './lib/normalize';
+import { FORMAT_PRESETS, columnFormat, columnFormatter, formatNumber, presetOf } from './lib/format';
+import { type Pivot, columnMeasure, pivot, summarize } from './lib/pivot';
+import { FORMULA_HELP, additiveTerms, applyFormulas, describeFormula, evaluateFormula, columnRefs, formulaError, parseFormula } from './lib/formula';
+import { kpiCards } from './lib/kpi';
+import { type DeckChart, type DeckSlide, buildPptx } from './lib/pptx';
+import { type Orientation, PAGE_SIZES, type PageSize } from './lib/pdf';
+import { type TranscriptEntry, buildReport } from './lib/report';
+import { hasRasterMarks, exportName, svgToJpeg } from './lib/svgExport';
+import { PROJECT_EXTENSION, type PinnedChart, type Project, type ProjectChart, parseProject, serializeProject } from './lib/project';
+import { type ChartSpec, describeFilters, filterDataset, readChartSpec } from './lib/chartSpec';
+import { type Conversation, type Referents, MAX_TURNS, type Turn } from './lib/askuraConversation';
+import { decodeShare, encodeShare } from './lib/share';
+import { readEvents } from './lib/sse';
+import { type WorkspaceInfo, deleteWorkspace, lastWorkspace, listWorkspaces, loadWorkspace, newWorkspaceId, saveWorkspace } from './lib/workspaces';
+import { type CellIssue, type ColumnRules, ISSUE_KINDS, ISSUE_LABELS, ISSUE_SEVERITY, applyFixes, cleanRules, issuesByCell, qualitySummary, suggestRules, validateDataset } from './lib/validate';
+import { waterfall } from './lib/stack';
+import { GRANULARITIES, type Granularity, addPeriods, displayPeriod, grainLabel, grainRank, parseTimeline, rollup } from './lib/time';
+import ColumnMapper from './components/import/ColumnMapper';
+import ChartExport from './components/premium/ChartExport';
+import MiniChart from './components/premium/MiniChart';
+import WorkspaceBar from './components/workspace/WorkspaceBar';
+import PremiumChart, { type ChartMode, type ChartPoint, type ChartSeries, type SeriesAxis, type SeriesRender } from './components/premium/PremiumChart';
 
 /**
  * Chartura Homepage — Rev 19
@@ -11,73 +44,85 @@ import React, { useEffect, useMemo, useRef, useState } from 'react';
 /* =========================
    Types & Constants
    ========================= */
-type Mode = 'line' | 'area' | 'bar' | 'scatter' | 'dual' | 'pie';
-
-interface Row {
-  period: string;      // e.g., "2024"
-  revenue: number;     // Sales revenue total
-  units: number;       // Sales units
-  supplier: string;    // Supplier name
-  costPrice: number;   // Cost per unit
-  staffExp: number;    // Staff expenses (absolute)
-}
-
-type MetricKey = 'revenue' | 'units' | 'costPrice' | 'staffExp';
-const METRIC_LABEL: Record<MetricKey, string> = {
-  revenue: 'Sales (Revenue)',
-  units: 'Sales Units',
-  costPrice: 'Cost Price',
-  staffExp: 'Staff Expenses',
-};
+type Mode = ChartMode;
 
-function defaultRows(): Row[] {
-  return [
-    { period:'2020', revenue: 300, units: 240, supplier:'Northstar', costPrice: 0.88, staffExp: 40 },
-    { period:'2021', revenue: 350, units: 260, supplier:'Northstar', costPrice: 0.90, staffExp: 44 },
-    { period:'2022', revenue: 400, units: 290, supplier:'BluePeak',  costPrice: 0.91, staffExp: 48 },
-    { period:'2023', revenue: 460, units: 310, supplier:'BluePeak',  costPrice: 0.93, staffExp: 50 },
-    { period:'2024', revenue: 520, units: 350, supplier:'Skyline',   costPrice: 0.94, staffExp: 54 },
-    { period:'2025', revenue: 590, units: 380, supplier:'Skyline',   costPrice: 0.96, staffExp: 58 },
-  ];
-}
+type MetricKey = string; // key of a numeric column in the current dataset
+
+/** One series picked in the chart controls. */
+interface SeriesSetting { metric: MetricKey; color: string; axis: SeriesAxis; render: SeriesRender }
+
+interface ChartContext { mode:Mode; yA:MetricKey; yB?:MetricKey; secondaryOn:boolean; series: SeriesSetting[]; split?: string }
+
+const SERIES_COLORS = ['#6B7280','#1ABC9C','#6366F1','#ef4444','#f59e0b','#0ea5e9','#334155'];
+const SERIES_RENDERS: SeriesRender[] = ['line','area','bar','scatter'];
+const DEFAULT_SERIES: SeriesSetting[] = [{ metric:'units', color:'#6B7280', axis:'left', render:'line' }];
+const MAX_SERIES = 6;
+const AUTOSAVE_MS = 800;
+const MODE_BUTTONS: { mode: Mode; label: string }[] = [
+  { mode:'line', label:'line' }, { mode:'area', label:'area' }, { mode:'bar', label:'bar' }, { mode:'stacked', label:'stacked' },
+  { mode:'stacked100', label:'100%' }, { mode:'scatter', label:'scatter' }, { mode:'dual', label:'combo' }, { mode:'pie', label:'pie' },
+];
+/** Vertical bar modes and their horizontal twins. */
+const HORIZONTAL: Partial<Record<Mode, Mode>> = { bar:'hbar', stacked:'hstacked', stacked100:'hstacked100' };
+const MODE_NAMES: Partial<Record<Mode, string>> = {
+  dual:'combo', stacked:'stacked bar', stacked100:'100% stacked bar', hbar:'horizontal bar', hstacked:'horizontal stacked bar', hstacked100:'horizontal 100% stacked bar',
+};
+const DUAL_AXIS_MODES: Mode[] = ['line','area','bar','scatter','dual'];
+const ALL_MODES: Mode[] = [...MODE_BUTTONS.map(b=> b.mode), ...Object.values(HORIZONTAL)];
+function verticalMode(m: Mode){ return (Object.keys(HORIZONTAL) as Mode[]).find(v=> HORIZONTAL[v]===m) ?? m; }
+const SPLIT_LIMIT = 8; // members beyond this are folded into "Other"
+const SPLIT_COLORS = ['#6366F1','#1ABC9C','#f59e0b','#ef4444','#0ea5e9','#a855f7','#334155','#9CA3AF'];
 
 /* =========================
    Utils
    ========================= */
-function num(v: string | number) {
-  const n = typeof v==='number'? v : parseFloat(String(v).replace(/[^0-9.\-]/g,''));
-  return isFinite(n) ? n : 0;
-}
 function pct(a:number,b:number){ if(!b) return 0; return (a-b)/b*100; }
 function downloadDataUrl(filename: string, url: string){
   const a=document.createElement('a'); a.href=url; a.download=filename; a.style.display='none';
   document.body.appendChild(a); a.click();
   setTimeout(()=>{ try{ document.body.removeChild(a);}catch{} },0);
 }
-async function svgToPng(svg: SVGSVGElement): Promise<string> {
-  const s=new XMLSerializer().serializeToString(svg);
-  const blob=new Blob([s],{type:'image/svg+xml'});
-  const url=URL.createObjectURL(blob);
-  const img=new Image();
-  return new Promise(res=>{
-    img.onload=()=>{
-      const c=document.createElement('canvas');
-      const vb=svg.viewBox.baseVal;
-      c.width=vb.width; c.height=vb.height;
-      const ctx=c.getContext('2d'); if(ctx) ctx.drawImage(img,0,0);
-      URL.revokeObjectURL(url);
-      res(c.toDataURL('image/png'));
-    };
-    img.src=url;
-  });
+function downloadBytes(filename: string, bytes: Uint8Array, type: string){
+  const url=URL.createObjectURL(new Blob([bytes as BlobPart],{type}));
+  downloadDataUrl(filename, url);
+  setTimeout(()=> URL.revokeObjectURL(url), 1000);
 }
 
 /* =========================
    Data -> Series
    ========================= */
-interface Pt { x:number; label:string; a:number; b?:number }
-function buildSeries(rows: Row[], yA: MetricKey, yB?: MetricKey): Pt[] {
-  return rows.map((r, i)=> ({ x:i, label:r.period, a: r[yA] as number, b: yB!=null ? (r[yB] as number) : undefined }));
+/** Points plus the time granularity they sit on; grain is null when the x-axis is categorical. */
+interface Series { points: ChartPoint[]; grain: Granularity|null; fiscal: boolean }
+type GrainChoice = Granularity | 'auto';
+
+/** Time grain of the period column, or null when it isn't made of periods. */
+function datasetTimeline(ds: Dataset){
+  const pc = periodColumn(ds);
+  return pc ? parseTimeline(ds.rows.map(r=> cellText(r, pc.key))) : null;
+}
+
+/**
+ * One point per period; rows sharing a period are combined with each metric's aggregation.
+ * Period columns become a time axis (x = period start) rolled up to `grain`; gap marks a point
+ * whose predecessor is more than one period away. With a pivot, each point holds one value per member instead.
+ */
+function buildSeries(ds: Dataset, metrics: MetricKey[], grain: GrainChoice='auto', split?: Pivot): Series {
+  const pc = periodColumn(ds);
+  const values = (rs:Row[])=> split ? split.split(rs) : metrics.map(m=> metricValue(ds, rs, m));
+  const timeline = datasetTimeline(ds);
+  if(!pc || !timeline){
+    const groups = pc ? groupRows(ds.rows, pc.key) : new Map(ds.rows.map((r,i)=> [String(i+1), [r]] as [string, Row[]]));
+    return { points: Array.from(groups.entries()).map(([label, rs], i)=> ({ x:i, label, values: values(rs) })), grain: null, fiscal: false };
+  }
+  const g = grain!=='auto' && grainRank(grain) > grainRank(timeline.grain) ? grain : timeline.grain;
+  const periodOf = new Map(ds.rows.map((r,i)=> [r, timeline.periods[i]]));
+  const groups = rollup(ds.rows, r=> periodOf.get(r) ?? null, g);
+  const fiscal = timeline.periods.some(p=> p?.fiscal);
+  const points = groups.map((grp, i)=> ({
+    x: grp.start, label: displayPeriod(grp.start, g, fiscal), values: values(grp.items),
+    gap: i>0 && addPeriods(groups[i-1].start, g, 1) < grp.start,
+  }));
+  return { points, grain: g, fiscal };
 }
 
 /* =========================
@@ -97,219 +142,358 @@ function ThemedButton({ color, children, onClick, className='', textClass='' }:
 }
 
 /* =========================
-   PremiumChart (SVG)
+   Data Grid
    ========================= */
-function PremiumChart({ series, mode, colorA, colorB, xLabel, yLabelLeft, yLabelRight, showGrid=true, pointSize=6, useRightAxis=false, onRef }:{
-  series: Pt[]; mode: Mode; colorA: string; colorB: string; xLabel:string; yLabelLeft:string; yLabelRight?:string; showGrid?:boolean; pointSize?:number; useRightAxis?:boolean; onRef?: (el:SVGSVGElement|null)=>void;
-}){
-  const width=860, height=440, padL=90, padR=90, padT=28, padB=86;
-  const plotW = width - padL - padR, plotH = height - padT - padB;
-  const xs = (i:number)=> padL + (series.length<=1? plotW/2 : (i)*(plotW/(series.length-1)));
-  const xsBar = (i:number)=> padL + (plotW/series.length)*(i+0.5);
-
-  const aMin = Math.min(0, ...series.map(p=>p.a)); const aMax = Math.max(1, ...series.map(p=>p.a));
-  const bVals = series.map(p=> p.b??0); const bMin = Math.min(0, ...bVals); const bMax = Math.max(1, ...bVals);
-  const ysA = (v:number)=> height - padB - ((v-aMin)/((aMax-aMin)||1))*plotH;
-  const ysB = useRightAxis ? (v:number)=> height - padB - ((v-bMin)/((bMax-bMin)||1))*plotH : ysA;
+/** A formula column being added (no key yet) or edited. */
+interface FormulaDraft { key?: string; label: string; source: string; type: ColumnType }
 
-  const svgRef = useRef<SVGSVGElement|null>(null);
-  useEffect(()=>{ onRef && onRef(svgRef.current); },[onRef]);
-
-  function pathFor(vals:number[], y:(v:number)=>number){
-    if(vals.length<2) return '';
-    const pts = vals.map((v,i)=> [xs(i), y(v)] as [number, number]);
-    const d:string[] = [`M ${pts[0][0]} ${pts[0][1]}`];
-    for(let i=0;i<pts.length-1;i++){
-      const p0=pts[Math.max(0,i-1)], p1=pts[i], p2=pts[i+1], p3=pts[Math.min(pts.length-1,i+2)];
-      const t=0.3; const c1x=p1[0]+(p2[0]-p0[0])*t/2, c1y=p1[1]+(p2[1]-p0[1])*t/2; const c2x=p2[0]-(p3[0]-p1[0])*t/2, c2y=p2[1]-(p3[1]-p1[1])*t/2;
-      d.push(`C ${c1x} ${c1y}, ${c2x} ${c2y}, ${p2[0]} ${p2[1]}`);
-    }
-    return d.join(' ');
-  }
+/** Validation rules of one column being edited, as typed. */
+interface RulesDraft { key: string; required: boolean; unique: boolean; min: string; max: string; allowed: string }
 
-  const barBand = series.length? plotW / series.length : 0; const barW = Math.max(16, Math.min(42, barBand*0.6));
+// Only the rows in view are rendered, so every row is one fixed height
+const GRID_ROW_H = 33, GRID_HEIGHT = 480;
 
-  const legendItems = series.map((p,i)=> ({ label: p.label, color: i%2? colorB: colorA }));
+// Filters are owned by the page so share links can carry them
+function DataGrid({ dataset, setDataset, color, filters, setFilters, coercions=[], onResolve, onUndo, onRedo, canUndo=false, canRedo=false }:{
+  dataset: Dataset; setDataset:(d:Dataset)=>void; color:string; filters: Record<string, string>; setFilters:(f:Record<string, string>)=>void;
+  coercions?: Coercion[]; onResolve?:(items:Coercion[], action:'accept'|'revert')=>void;
+  onUndo?: ()=>void; onRedo?: ()=>void; canUndo?: boolean; canRedo?: boolean;
+}){
+  const { columns, rows } = dataset;
+  const [reviewOpen, setReviewOpen] = useState(false);
+  const [sort, setSort] = useState<GridSort|null>(null);
+  const [filtersOpen, setFiltersOpen] = useState(false);
+  const [qualityOpen, setQualityOpen] = useState(false);
+  const [onlyIssues, setOnlyIssues] = useState(false);
+  const issues = useMemo(()=> validateDataset(dataset), [dataset]);
+  const issueAt = useMemo(()=> issuesByCell(issues), [issues]);
+  const quality = qualitySummary(issues, coercions);
+  const view = useMemo(()=>{
+    const v = gridView(dataset, filters, sort);
+    return onlyIssues ? v.filter(i=> issueAt.has(rows[i])) : v;
+  }, [dataset, filters, sort, onlyIssues, issueAt, rows]);
+  const filtered = view.length < rows.length;
 
-  return (
-    <div className="rounded-2xl bg-white p-5 shadow border">
-      <svg ref={svgRef} viewBox={`0 0 ${width} ${height}`} className="w-full h-[440px]">
-        <rect x={0} y={0} width={width} height={height} rx={12} fill="white" />
-        {mode!=='pie' && showGrid && (
-          <g stroke="#E5E7EB" strokeDasharray="4 6">
-            <line x1={padL} y1={height-padB} x2={width-padR} y2={height-padB}/>
-            <line x1={padL} y1={padT} x2={padL} y2={height-padB}/>
-            {[0.25,0.5,0.75].map((p,i)=> (<line key={i} x1={padL} y1={padT+plotH*p} x2={width-padR} y2={padT+plotH*p}/>))}
-          </g>
-        )}
-        {mode!=='pie' && (
-          <g fontSize={14} fill="#6B7280">
-            {series.map((p,i)=>(
-              <g key={i}>
-                <line x1={mode==='bar'? xsBar(i): xs(i)} y1={height-padB} x2={mode==='bar'? xsBar(i): xs(i)} y2={height-padB+6} stroke="#CBD5E1"/>
-                <text x={mode==='bar'? xsBar(i): xs(i)} y={height-padB+24} textAnchor="middle">{p.label}</text>
-              </g>
-            ))}
-          </g>
-        )}
-        {mode!=='pie' && (
-          <g fontSize={14} fill="#6B7280">
-            {[0,0.5,1].map((t,i)=>{ const v=aMin + t*(aMax-aMin); return (
-              <g key={i}>
-                <line x1={padL-6} y1={ysA(v)} x2={padL} y2={ysA(v)} stroke="#CBD5E1"/>
-                <text x={padL-10} y={ysA(v)+5} textAnchor="end">{Math.round(v)}</text>
-              </g>
-            );})}
-          </g>
-        )}
-        {mode!=='pie' && useRightAxis && series.some(p=>p.b!=null) && (
-          <g fontSize={14} fill="#6B7280">
-            {[0,0.5,1].map((t,i)=>{ const v=bMin + t*(bMax-bMin); return (
-              <g key={i}>
-                <line x1={width-padR} y1={ysB(v)} x2={width-padR+6} y2={ysB(v)} stroke="#CBD5E1"/>
-                <text x={width-padR+10} y={ysB(v)+5} textAnchor="start">{Math.round(v)}</text>
-              </g>
-            );})}
-          </g>
-        )}
-        {mode==='area' && (
-          <g>
-            <path d={pathFor(series.map(p=>p.a), ysA)} fill="none" stroke={colorA} strokeWidth={3}/>
-            <path d={`${pathFor(series.map(p=>p.a), ysA)} L ${xs(series.length-1)} ${height-padB} L ${xs(0)} ${height-padB} Z`} fill={colorA} opacity={0.12}/>
-            {series.map((p,i)=>(<circle key={i} cx={xs(i)} cy={ysA(p.a)} r={4} fill={colorA}/>))}
-            {series.some(p=>p.b!=null) && (<>
-              <path d={pathFor(series.map(p=>p.b||0), ysB)} fill="none" stroke={colorB} strokeWidth={3}/>
-              {series.map((p,i)=>(<circle key={`ba${i}`} cx={xs(i)} cy={ysB(p.b||0)} r={4} fill={colorB}/>))}
-            </>)}
-          </g>
-        )}
-        {mode==='line' && (
-          <g>
-            <path d={pathFor(series.map(p=>p.a), ysA)} fill="none" stroke={colorA} strokeWidth={3}/>
-            {series.map((p,i)=>(<circle key={i} cx={xs(i)} cy={ysA(p.a)} r={4} fill={colorA}/>))}
-            {series.some(p=>p.b!=null) && (<>
-              <path d={pathFor(series.map(p=>p.b||0), ysB)} fill="none" stroke={colorB} strokeWidth={3}/>
-              {series.map((p,i)=>(<circle key={`b${i}`} cx={xs(i)} cy={ysB(p.b||0)} r={4} fill={colorB}/>))}
-            </>)}
-          </g>
-        )}
-        {mode==='dual' && (
-          <g>
-            <path d={pathFor(series.map(p=>p.a), ysA)} fill="none" stroke={colorA} strokeWidth={3}/>
-            {series.map((p,i)=>(<circle key={i} cx={xs(i)} cy={ysA(p.a)} r={4} fill={colorA}/>))}
-            {series.some(p=>p.b!=null) && series.map((p,i)=>{ const x = xs(i) - 12; const y = ysB(Math.max(0,p.b||0)); const h=(height-padB)-y; return (
-              <rect key={`bbar${i}`} x={x} y={y} width={24} height={h} rx={6} fill={colorB}/>
-            );})}
-          </g>
-        )}
-        {mode==='bar' && (
-          <g>
-            {series.map((p,i)=>{ const cx = xsBar(i); const x = cx - barW/2; const y = ysA(p.a); const h = (height-padB) - y; return (
-              <g key={i}>
-                <rect x={x} y={y} width={barW} height={h} rx={8} fill={colorA}/>
-                {p.b!=null && (()=>{ const y2 = ysB(p.b||0); const h2 = (height-padB)-y2; return (<rect x={x} y={y2} width={barW} height={h2} rx={8} fill={colorB} opacity={0.55}/>); })()}
-                <text x={cx} y={y-6} textAnchor="middle" fontSize={12} fill="#111827">{Math.round(p.a)}</text>
-              </g>
-            );})}
-          </g>
-        )}
-        {mode==='scatter' && (
-          <g>
-            {series.map((p,i)=>(<circle key={i} cx={xs(i)} cy={ysA(p.a)} r={Math.max(3,Math.min(14,pointSize))} fill={colorA}/>))}
-            {series.some(p=>p.b!=null) && series.map((p,i)=>(<circle key={`sc${i}`} cx={xs(i)} cy={ysB(p.b||0)} r={Math.max(3,Math.min(14,pointSize))} fill={colorB} opacity={0.85}/>))}
-          </g>
-        )}
-        {mode==='pie' && (
-          <g>
-            {(()=>{ const cx = width/2, cy = height/2+10, R = Math.min((width-180), (height-114))/2.0; const totalA = series.reduce((s,p)=>s + (p.a ?? 0), 0);
-let start=-90; return series.map((p,i)=>{
-
-              const ang = (p.a/totalA)*360;
-              const end=start+ang; const large = ang>180?1:0;
-              const x1=cx+R*Math.cos((start*Math.PI)/180), y1=cy+R*Math.sin((start*Math.PI)/180);
-              const x2=cx+R*Math.cos((end*Math.PI)/180),   y2=cy+R*Math.sin((end*Math.PI)/180);
-              const mid=(start+end)/2;
-              const lx=cx+(R*0.62)*Math.cos((mid*Math.PI)/180), ly=cy+(R*0.62)*Math.sin((mid*Math.PI)/180);
-              start=end;
-              const fill = i%2? colorB: colorA;
-              const pctTxt = Math.round((p.a/totalA)*100)+'%';
-              return (
-                <g key={i}>
-                  <path d={`M ${cx} ${cy} L ${x1} ${y1} A ${R} ${R} 0 ${large} 1 ${x2} ${y2} Z`} fill={fill} opacity={0.9}/>
-                  <text x={lx} y={ly} textAnchor="middle" fontSize={13} fill="#111827">{p.label} {pctTxt}</text>
-                </g>
-              );
-            }); })()}
-          </g>
-        )}
-        {mode!=='pie' && (<>
-          <text x={(padL+width-padR)/2} y={height-18} textAnchor="middle" fontSize={15} fill="#374151">{xLabel}</text>
-          <text x={24} y={(padT+height-padB)/2} textAnchor="middle" fontSize={15} fill="#374151" transform={`rotate(-90 24 ${(padT+height-padB)/2})`}>{yLabelLeft}</text>
-          {useRightAxis && series.some(p=>p.b!=null) && yLabelRight && (
-            <text x={width-24} y={(padT+height-padB)/2} textAnchor="middle" fontSize={15} fill="#374151" transform={`rotate(90 ${width-24} ${(padT+height-padB)/2})`}>{yLabelRight}</text>
-          )}
-        </>)}
-      </svg>
-
-      {mode==='pie' && (
-        <div className="flex flex-wrap gap-3 mt-3 text-sm">
-          {legendItems.map((it,i)=> (
-            <div key={i} className="inline-flex items-center gap-2">
-              <span className="w-3 h-3 rounded" style={{background:it.color}}/> {it.label}
-            </div>
-          ))}
-        </div>
-      )}
-    </div>
-  );
-}
+  // Selection runs from the anchor to the focused cell, in view coordinates; the focused cell is the one edited
+  const clamp = (p: CellPos): CellPos => ({ row: Math.max(0, Math.min(p.row, view.length-1)), col: Math.max(0, Math.min(p.col, columns.length-1)) });
+  const [anchorAt, setAnchor] = useState<CellPos>({ row:0, col:0 });
+  const [focusAt, setFocus] = useState<CellPos>({ row:0, col:0 });
+  const anchor = clamp(anchorAt), focus = clamp(focusAt);
+  const selection = rangeOf(anchor, focus);
+  const [editText, setEditText] = useState<string|null>(null);
+  const editRef = useRef<string|null>(null);
+  const dragging = useRef(false);
+  const gridRef = useRef<HTMLDivElement|null>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const { start, end } = rowWindow(scrollTop, GRID_HEIGHT, GRID_ROW_H, view.length);
+  useEffect(()=>{ const stop = ()=>{ dragging.current = false; }; window.addEventListener('mouseup', stop); return ()=> window.removeEventListener('mouseup', stop); }, []);
+  // The focused row may not be rendered yet, so it's scrolled to by position; its column header brings the column into view
+  useEffect(()=>{
+    const grid = gridRef.current;
+    if(!grid) return;
+    const head = grid.querySelector('thead')?.clientHeight ?? 0, top = focus.row*GRID_ROW_H;
+    if(top < grid.scrollTop) grid.scrollTop = top;
+    else if(top + GRID_ROW_H > grid.scrollTop + grid.clientHeight - head) grid.scrollTop = top + GRID_ROW_H - grid.clientHeight + head;
+    grid.querySelector(`[data-col="${focus.col}"]`)?.scrollIntoView({ block:'nearest', inline:'nearest' });
+  }, [focus.row, focus.col]);
 
-/* =========================
-   Data Grid
-   ========================= */
-function DataGrid({ rows, setRows, color }:{ rows: Row[]; setRows:(r:Row[])=>void; color:string }){
-  function update(i:number, key: keyof Row, val:string){
-    const next=rows.slice();
-    if(key==='period'||key==='supplier') (next[i] as any)[key]=val; else (next[i] as any)[key]=num(val);
-    setRows(next);
+  const [draft, setDraft] = useState<FormulaDraft|null>(null);
+  const [rulesDraft, setRulesDraft] = useState<RulesDraft|null>(null);
+  const draftKey = draft ? draft.key ?? uniqueKey(toKey(draft.label || 'formula'), columns.map(c=> c.key)) : '';
+  const draftError = draft ? (draft.label.trim() ? formulaError(columns, draftKey, draft.source) : 'Give the column a name') : undefined;
+  const draftPreview = useMemo(()=>{
+    if(!draft || draftError) return '';
+    const values = evaluateFormula(parseFormula(draft.source, columns), rows.slice(0, 4));
+    const fmt = columnFormatter({ key: draftKey, label: draft.label, type: draft.type });
+    return values.map(v=> v==null ? '—' : fmt(v)).join(', ') + (rows.length>4 ? ', …' : '');
+  }, [draft, draftError, draftKey, columns, rows]);
+  const coerced = useMemo(()=>{
+    const m = new Map<Row, Map<string, Coercion>>();
+    coercions.forEach(c=> { const byCol = m.get(c.row) ?? new Map<string, Coercion>(); byCol.set(c.column, c); m.set(c.row, byCol); });
+    return m;
+  }, [coercions]);
+  function select(p: CellPos, extend=false){
+    const at = clamp(p);
+    setFocus(at);
+    if(!extend) setAnchor(at);
   }
+  function startEdit(text?: string){
+    const col = columns[focus.col], row = rows[view[focus.row]];
+    if(!col || !row || col.formula!=null) return;
+    editRef.current = text ?? cellText(row, col.key);
+    setEditText(editRef.current);
+  }
+  function setEdit(text: string){ editRef.current = text; setEditText(text); }
+  /** Writes the cell being edited (once, even if Enter is followed by blur) and optionally moves on. */
+  function commitEdit(move?: { row: number; col: number }){
+    const text = editRef.current;
+    if(text==null) return;
+    editRef.current = null; setEditText(null);
+    const col = columns[focus.col], i = view[focus.row];
+    if(col && rows[i] && cellInput(col, text)!==rows[i][col.key]) setDataset(writeBlock(dataset, view, rangeOf(focus, focus), [[text]], nextRow));
+    if(move) select({ row: focus.row + move.row, col: focus.col + move.col });
+    gridRef.current?.focus();
+  }
+  function cancelEdit(){ editRef.current = null; setEditText(null); gridRef.current?.focus(); }
   function add(){
-    setRows([...rows, { period:String(2026+rows.length), revenue: 600, units: 360, supplier:'Northstar', costPrice: 0.95, staffExp: 60 }]);
+    setDataset({ columns, rows: [...rows, nextRow(dataset)] });
+  }
+  function removeRows(indices: number[]){
+    const drop = new Set(indices);
+    setDataset({ columns, rows: rows.filter((_,i)=> !drop.has(i)) });
+  }
+  const selectedRows = view.slice(selection.top, selection.bottom+1);
+
+  // Keys and clipboard events only drive the grid while the grid itself (not an input in it) has focus
+  function onKeyDown(e: React.KeyboardEvent){
+    if(editText!=null || e.target!==gridRef.current) return;
+    const mod = e.ctrlKey || e.metaKey, key = e.key.toLowerCase();
+    const moves: Record<string, [number, number]> = { ArrowUp:[-1,0], ArrowDown:[1,0], ArrowLeft:[0,-1], ArrowRight:[0,1] };
+    if(moves[e.key]){
+      const [dr, dc] = moves[e.key];
+      // Ctrl+arrow jumps to the edge, as in spreadsheets
+      select(mod ? { row: dr ? (dr<0 ? 0 : view.length-1) : focus.row, col: dc ? (dc<0 ? 0 : columns.length-1) : focus.col } : { row: focus.row+dr, col: focus.col+dc }, e.shiftKey);
+    }
+    else if(e.key==='Tab') select({ row: focus.row, col: focus.col + (e.shiftKey ? -1 : 1) });
+    else if(e.key==='Home') select({ row: mod ? 0 : focus.row, col: 0 }, e.shiftKey);
+    else if(e.key==='End') select({ row: mod ? view.length-1 : focus.row, col: columns.length-1 }, e.shiftKey);
+    else if(e.key==='Enter' || e.key==='F2') startEdit();
+    else if(e.key==='Delete' || e.key==='Backspace') setDataset(clearBlock(dataset, view, selection));
+    else if(e.key==='Escape') select(focus);
+    else if(mod && key==='a'){ setAnchor({ row:0, col:0 }); setFocus(clamp({ row: view.length-1, col: columns.length-1 })); }
+    else if(mod && key==='d') setDataset(fillDown(dataset, view, selection));
+    else if(mod && (key==='y' || (key==='z' && e.shiftKey))) onRedo?.();
+    else if(mod && key==='z') onUndo?.();
+    else if(e.key.length===1 && !mod && !e.altKey) startEdit(e.key);
+    else return;
+    e.preventDefault();
+  }
+  function onCopy(e: React.ClipboardEvent, cut=false){
+    if(e.target!==gridRef.current || !view.length) return;
+    e.clipboardData.setData('text/plain', toDelimited(readBlock(dataset, view, selection), '\t'));
+    e.preventDefault();
+    if(cut) setDataset(clearBlock(dataset, view, selection));
+  }
+  function onPaste(e: React.ClipboardEvent){
+    if(e.target!==gridRef.current) return;
+    e.preventDefault();
+    const text = e.clipboardData.getData('text/plain').replace(/\r?\n$/, '');
+    const block = text ? parseDelimited(text, '\t').rows : [['']];
+    const at = view.length ? selection : { top:0, left:0, bottom:0, right:0 };
+    setDataset(writeBlock(dataset, view, at, block.length ? block : [['']], nextRow));
+    if(block.length>1 || block[0]?.length>1) { setAnchor({ row: at.top, col: at.left }); setFocus({ row: at.top + block.length-1, col: at.left + block.reduce((w,b)=> Math.max(w, b.length), 0)-1 }); }
   }
-  function remove(i:number){
-    const next=rows.slice(); next.splice(i,1); setRows(next);
+  function saveFormula(){
+    if(!draft || draftError) return;
+    const col: Column = { ...columnByKey(dataset, draft.key), key: draftKey, label: draft.label.trim(), type: draft.type, formula: draft.source.trim() };
+    setDataset({ columns: draft.key ? columns.map(c=> c.key===draft.key ? col : c) : [...columns, col], rows });
+    setDraft(null);
+  }
+  /** Other formula columns that read `key`; a column can't be removed while they do. */
+  function dependents(key: string){
+    return columns.filter(c=> c.key!==key && columnRefs(c, columns).has(key));
+  }
+  function editRules(c: Column){
+    const r = c.rules ?? {};
+    setRulesDraft({ key: c.key, required: !!r.required, unique: !!r.unique, min: r.min!=null ? String(r.min) : '', max: r.max!=null ? String(r.max) : '', allowed: (r.allowed ?? []).join(', ') });
+  }
+  function saveRules(){
+    if(!rulesDraft) return;
+    const num = (t: string)=> t.trim()==='' ? undefined : Number(t);
+    const rules: ColumnRules = { required: rulesDraft.required, unique: rulesDraft.unique, min: num(rulesDraft.min), max: num(rulesDraft.max), allowed: rulesDraft.allowed.split(',') };
+    setDataset({ columns: columns.map(c=> c.key===rulesDraft.key ? { ...c, rules: cleanRules(rules) } : c), rows });
+    setRulesDraft(null);
+  }
+  function fix(items: CellIssue[]){
+    setDataset(applyFixes(dataset, items));
+  }
+  function removeColumn(key: string){
+    setDataset({ columns: columns.filter(c=> c.key!==key), rows: rows.map(r=> { const next = { ...r }; delete next[key]; return next; }) });
+    if(draft?.key===key) setDraft(null);
   }
   return (
-    <div className="overflow-x-auto border rounded-2xl">
-      <table className="min-w-full text-sm text-gray-800">
-        <thead className="bg-gray-50">
-          <tr>
-            <th className="px-3 py-2 text-left font-semibold">Year</th>
-            <th className="px-3 py-2 text-left font-semibold">{METRIC_LABEL.revenue}</th>
-            <th className="px-3 py-2 text-left font-semibold">{METRIC_LABEL.units}</th>
-            <th className="px-3 py-2 text-left font-semibold">Supplier</th>
-            <th className="px-3 py-2 text-left font-semibold">{METRIC_LABEL.costPrice}</th>
-            <th className="px-3 py-2 text-left font-semibold">{METRIC_LABEL.staffExp}</th>
-            <th className="w-10"/>
-          </tr>
-        </thead>
-        <tbody>
-          {rows.map((r,i)=>(
-            <tr key={i} className={i%2? 'bg-gray-50':''}>
-              <td className="px-3 py-2"><input className="w-24 border rounded p-1" value={r.period} onChange={e=>update(i,'period',e.target.value)} /></td>
-              <td className="px-3 py-2"><input className="w-24 border rounded p-1" value={r.revenue} onChange={e=>update(i,'revenue',e.target.value)} /></td>
-              <td className="px-3 py-2"><input className="w-24 border rounded p-1" value={r.units} onChange={e=>update(i,'units',e.target.value)} /></td>
-              <td className="px-3 py-2"><input className="w-28 border rounded p-1" value={r.supplier} onChange={e=>update(i,'supplier',e.target.value)} /></td>
-              <td className="px-3 py-2"><input className="w-24 border rounded p-1" value={r.costPrice} onChange={e=>update(i,'costPrice',e.target.value)} /></td>
-              <td className="px-3 py-2"><input className="w-24 border rounded p-1" value={r.staffExp} onChange={e=>update(i,'staffExp',e.target.value)} /></td>
-              <td className="px-2"><button onClick={()=>remove(i)} className="text-xs text-red-600 hover:text-red-700 transition-colors">Remove</button></td>
+    <div className="border rounded-2xl overflow-hidden">
+      {coercions.length>0 && (
+        <div className="border-b bg-amber-50 px-3 py-2 text-xs text-amber-900">
+          <div className="flex flex-wrap items-center gap-3">
+            <span><b>{coercions.length}</b> value{coercions.length===1?' was':'s were'} normalized on import.</span>
+            <button onClick={()=> setReviewOpen(o=> !o)} className="underline">{reviewOpen? 'Hide changes':'Review changes'}</button>
+            {onResolve && <button onClick={()=> onResolve(coercions, 'accept')} className="underline">Accept all</button>}
+          </div>
+          {reviewOpen && (
+            <ul className="mt-2 max-h-40 overflow-y-auto space-y-1">
+              {coercions.map((c,i)=> (
+                <li key={i} className="flex flex-wrap items-center gap-2">
+                  <span className="text-amber-700">Row {c.rowNumber} • {columnLabel(dataset, c.column)}:</span>
+                  <code className="rounded bg-white px-1 line-through decoration-amber-400">{c.raw || '∅'}</code>→<code className="rounded bg-white px-1">{c.value ?? '∅'}</code>
+                  <span className="text-amber-700">({c.rules.join(', ')})</span>
+                  {onResolve && <>
+                    <button onClick={()=> onResolve([c], 'accept')} className="ml-auto text-emerald-700 hover:underline">Accept</button>
+                    <button onClick={()=> onResolve([c], 'revert')} className="text-red-600 hover:underline">Revert</button>
+                  </>}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+      <div className="flex flex-wrap items-center gap-2 border-b px-3 py-2 text-xs text-gray-600">
+        <button onClick={onUndo} disabled={!canUndo} className="px-2 py-1 rounded border hover:bg-gray-50 disabled:opacity-40" title="Undo (Ctrl+Z)">↶ Undo</button>
+        <button onClick={onRedo} disabled={!canRedo} className="px-2 py-1 rounded border hover:bg-gray-50 disabled:opacity-40" title="Redo (Ctrl+Y)">↷ Redo</button>
+        <button onClick={()=> setFiltersOpen(o=> !o)} className={`px-2 py-1 rounded border hover:bg-gray-50 ${filtered ? 'border-emerald-400 text-emerald-700' : ''}`}>Filter{filtered ? ` (${view.length} of ${rows.length})` : ''}</button>
+        <button onClick={()=> setQualityOpen(o=> !o)} className={`px-2 py-1 rounded border hover:bg-gray-50 ${issues.length ? 'border-amber-400 text-amber-800' : ''}`}>
+          {issues.length ? `⚠ ${issues.length} data issue${issues.length===1?'':'s'}` : '✓ Data quality'}
+        </button>
+        {filtered && <button onClick={()=>{ setFilters({}); setOnlyIssues(false); }} className="underline">Clear filters</button>}
+        {sort && <button onClick={()=> setSort(null)} className="underline">Clear sort</button>}
+        {selectedRows.length>0 && <button onClick={()=> removeRows(selectedRows)} className="text-red-600 hover:underline">Remove {selectedRows.length} selected row{selectedRows.length===1?'':'s'}</button>}
+        <span className="ml-auto hidden md:inline text-gray-400">Arrows, Tab, Enter to edit · Shift to extend · Ctrl+C/V with Excel · Ctrl+D fill down</span>
+      </div>
+      {qualityOpen && (
+        <div className="border-b bg-gray-50 px-3 py-2 text-xs">
+          <div className="flex flex-wrap items-center gap-3 mb-2">
+            <b className="text-gray-700">Data quality</b>
+            <span className="text-gray-500">{rows.length} row{rows.length===1?'':'s'} · {issues.length ? `${issueAt.size} with issues` : 'no issues found'}</span>
+            <label className="ml-auto inline-flex items-center gap-1 text-gray-600"><input type="checkbox" checked={onlyIssues} onChange={e=> setOnlyIssues(e.target.checked)} /> Only rows with issues</label>
+          </div>
+          <ul className="grid sm:grid-cols-2 lg:grid-cols-4 gap-2">
+            {ISSUE_KINDS.map(k=>{ const items = issues.filter(i=> i.kind===k), fixable = items.filter(i=> i.drop || i.fix!==undefined); return (
+              <li key={k} className="rounded-lg border bg-white px-2 py-1.5 flex items-center gap-2">
+                <span className={`h-2 w-2 rounded-full ${!quality[k] ? 'bg-gray-200' : ISSUE_SEVERITY[k]==='error' ? 'bg-red-500' : 'bg-amber-400'}`} />
+                <span className="text-gray-700">{ISSUE_LABELS[k].name}</span>
+                <b className="tabular-nums">{quality[k]}</b>
+                {fixable.length>0 && <button onClick={()=> fix(fixable)} className="ml-auto text-emerald-700 hover:underline" title={items[0]?.message}>{ISSUE_LABELS[k].fix}{fixable.length<items.length ? ` (${fixable.length})` : ''}</button>}
+              </li>
+            ); })}
+            <li className="rounded-lg border bg-white px-2 py-1.5 flex items-center gap-2">
+              <span className={`h-2 w-2 rounded-full ${quality.coerced ? 'bg-amber-400' : 'bg-gray-200'}`} />
+              <span className="text-gray-700">Normalized on import</span>
+              <b className="tabular-nums">{quality.coerced}</b>
+              {quality.coerced>0 && <button onClick={()=> setReviewOpen(true)} className="ml-auto text-emerald-700 hover:underline">Review</button>}
+            </li>
+          </ul>
+        </div>
+      )}
+      <div ref={gridRef} tabIndex={0} onKeyDown={onKeyDown} onCopy={e=> onCopy(e)} onCut={e=> onCopy(e, true)} onPaste={onPaste} onScroll={e=> setScrollTop(e.currentTarget.scrollTop)}
+        className="outline-none select-none overflow-auto" style={{ maxHeight: GRID_HEIGHT }} aria-label="Data grid" aria-rowcount={view.length}>
+        <table className="min-w-full text-sm text-gray-800 border-collapse">
+          <thead className="bg-gray-50 sticky top-0 z-10">
+            <tr>
+              <th className="w-10" />
+              {columns.map((c, ci)=> { const used = c.formula!=null ? dependents(c.key) : []; const sorted = sort?.key===c.key ? sort.dir : null; return (
+                <th key={c.key} data-col={ci} className="px-3 py-2 text-left font-semibold" aria-sort={sorted==='asc' ? 'ascending' : sorted==='desc' ? 'descending' : undefined}>
+                  <div className="flex items-center gap-1">
+                    <button onClick={()=> setSort(nextSort(sort, c.key))} className="hover:underline" title="Sort">{c.label}</button>
+                    <span className="text-[10px] text-gray-400 w-2">{sorted==='asc' ? '▲' : sorted==='desc' ? '▼' : ''}</span>
+                    {c.formula==null && <button onClick={()=> editRules(c)} title="Validation rules" className={`text-xs font-normal hover:text-gray-700 ${c.rules ? 'text-emerald-600' : 'text-gray-400'}`}>✓</button>}
+                    {c.formula!=null && <>
+                      <button onClick={()=> setDraft({ key: c.key, label: c.label, source: c.formula!, type: c.type })} className="text-xs font-normal text-gray-400 hover:text-gray-700" title="Edit formula">ƒ</button>
+                      <button onClick={()=> removeColumn(c.key)} disabled={used.length>0} title={used.length ? `Used by ${used.map(u=> u.label).join(', ')}` : 'Remove column'} className="text-xs font-normal text-gray-400 hover:text-red-600 disabled:opacity-40 disabled:hover:text-gray-400">✕</button>
+                    </>}
+                  </div>
+                  {c.formula!=null
+                    ? <div className="text-[10px] font-normal text-gray-400 font-mono truncate max-w-[10rem]" title={c.formula}>ƒ {c.formula}</div>
+                    : <div className="text-[10px] font-normal uppercase tracking-wide text-gray-400">{c.type}</div>}
+                  {filtersOpen && (
+                    <input value={filters[c.key] ?? ''} onChange={e=> setFilters({ ...filters, [c.key]: e.target.value })}
+                      placeholder={isNumeric(c) ? '> 100, 10..20' : 'contains'} className="mt-1 block w-24 border rounded px-1 py-0.5 text-xs font-normal select-text" />
+                  )}
+                </th>
+              ); })}
+              <th className="w-10"/>
             </tr>
-          ))}
-        </tbody>
-      </table>
-      <div className="p-3">
+          </thead>
+          <tbody>
+            {start>0 && <tr aria-hidden><td colSpan={columns.length+2} className="p-0" style={{ height: start*GRID_ROW_H }} /></tr>}
+            {view.slice(start, end).map((ri, k)=>{ const r = rows[ri], vi = start+k; return (
+              <tr key={ri} className={vi%2? 'bg-gray-50':''} style={{ height: GRID_ROW_H }} aria-rowindex={vi+1}>
+                <td className="px-2 text-right text-xs text-gray-400 tabular-nums cursor-pointer" onMouseDown={e=>{ e.preventDefault(); commitEdit(); setAnchor({ row: e.shiftKey ? anchor.row : vi, col: 0 }); setFocus({ row: vi, col: columns.length-1 }); gridRef.current?.focus(); }}>{ri+1}</td>
+                {columns.map((c, ci)=> {
+                  const co = coerced.get(r)?.get(c.key), bad = issueAt.get(r)?.get(c.key);
+                  const error = bad?.some(i=> ISSUE_SEVERITY[i.kind]==='error');
+                  const note = [...(bad ?? []).map(i=> i.message), ...(co ? [`Was "${co.raw}" (${co.rules.join(', ')})`] : [])].join('\n');
+                  const selected = inRange(selection, vi, ci), focused = focus.row===vi && focus.col===ci;
+                  return (
+                    <td key={c.key} data-cell={`${vi}:${ci}`} title={note || undefined} aria-invalid={error || undefined}
+                      onMouseDown={e=>{ if(focused && editText!=null) return; e.preventDefault(); commitEdit(); select({ row: vi, col: ci }, e.shiftKey); dragging.current = true; gridRef.current?.focus(); }}
+                      onMouseEnter={()=>{ if(dragging.current) select({ row: vi, col: ci }, true); }}
+                      onDoubleClick={()=> startEdit()}
+                      className={`relative px-3 py-1.5 border border-gray-100 whitespace-nowrap ${bad ? `after:absolute after:right-0 after:top-0 after:border-4 after:border-transparent ${error ? 'after:border-t-red-500 after:border-r-red-500' : 'after:border-t-amber-400 after:border-r-amber-400'}` : ''} ${c.type==='category'||c.type==='text' ? 'min-w-[7rem]' : 'min-w-[6rem] tabular-nums'} ${c.formula!=null ? 'text-gray-500' : ''} ${co ? 'bg-amber-50' : ''} ${selected ? '!bg-emerald-50' : ''}`}
+                      style={focused ? { outline:`2px solid ${color}`, outlineOffset:-2 } : undefined}>
+                      {focused && editText!=null
+                        ? <input autoFocus value={editText} onChange={e=> setEdit(e.target.value)} onBlur={()=> commitEdit()}
+                            onKeyDown={e=>{ e.stopPropagation();
+                              if(e.key==='Enter'){ e.preventDefault(); commitEdit({ row: e.shiftKey ? -1 : 1, col: 0 }); }
+                              else if(e.key==='Tab'){ e.preventDefault(); commitEdit({ row: 0, col: e.shiftKey ? -1 : 1 }); }
+                              else if(e.key==='Escape') cancelEdit(); }}
+                            className="w-full min-w-0 bg-white outline-none select-text" />
+                        : c.formula!=null ? (typeof r[c.key]==='number' ? columnFormatter(c)(r[c.key] as number) : '—') : cellText(r, c.key)}
+                    </td>
+                  );
+                })}
+                <td className="px-2"><button onClick={()=> removeRows([ri])} className="text-xs text-red-600 hover:text-red-700 transition-colors">Remove</button></td>
+              </tr>
+            ); })}
+            {end<view.length && <tr aria-hidden><td colSpan={columns.length+2} className="p-0" style={{ height: (view.length-end)*GRID_ROW_H }} /></tr>}
+            {!view.length && (
+              <tr><td colSpan={columns.length+2} className="px-3 py-4 text-center text-xs text-gray-500">{rows.length ? 'No rows match the filters.' : 'No rows yet.'}</td></tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+      <div className="p-3 flex flex-wrap items-center gap-2">
         <ThemedButton color={color} onClick={add} className="text-sm">Add row</ThemedButton>
+        <button onClick={()=> setDraft({ label:'', source:'', type:'number' })} className="text-sm px-4 py-2 rounded-xl border hover:bg-gray-50">+ Formula column</button>
       </div>
+      {rulesDraft && (()=>{ const col = columnByKey(dataset, rulesDraft.key); if(!col) return null; return (
+        <div className="border-t bg-gray-50 p-3 text-sm space-y-2">
+          <div className="text-xs font-semibold text-gray-700">Validation rules · {col.label}</div>
+          <div className="flex flex-wrap items-end gap-3">
+            <label className="inline-flex items-center gap-1 text-xs text-gray-600 pb-1.5"><input type="checkbox" checked={rulesDraft.required} onChange={e=> setRulesDraft({ ...rulesDraft, required: e.target.checked })} /> Required</label>
+            <label className="inline-flex items-center gap-1 text-xs text-gray-600 pb-1.5"><input type="checkbox" checked={rulesDraft.unique} onChange={e=> setRulesDraft({ ...rulesDraft, unique: e.target.checked })} /> Unique{col===periodColumn(dataset) ? ' (one row per period)' : ''}</label>
+            {isNumeric(col) && <>
+              <label className="text-xs text-gray-600">Min
+                <input type="number" value={rulesDraft.min} onChange={e=> setRulesDraft({ ...rulesDraft, min: e.target.value })} className="mt-1 block w-24 border rounded p-1" />
+              </label>
+              <label className="text-xs text-gray-600">Max
+                <input type="number" value={rulesDraft.max} onChange={e=> setRulesDraft({ ...rulesDraft, max: e.target.value })} className="mt-1 block w-24 border rounded p-1" />
+              </label>
+            </>}
+            {col.type==='category' && (
+              <label className="text-xs text-gray-600 flex-1 min-w-[14rem]">Allowed values <span className="text-gray-400">(comma-separated; empty = any)</span>
+                <span className="mt-1 flex gap-2">
+                  <input value={rulesDraft.allowed} onChange={e=> setRulesDraft({ ...rulesDraft, allowed: e.target.value })} className="block w-full border rounded p-1" />
+                  <button onClick={()=> setRulesDraft({ ...rulesDraft, allowed: distinctValues(dataset, col.key).join(', ') })} className="shrink-0 underline">Use current values</button>
+                </span>
+              </label>
+            )}
+            <ThemedButton color={color} onClick={saveRules} className="text-sm">Save rules</ThemedButton>
+            <button onClick={()=> setRulesDraft(null)} className="text-xs underline pb-2">Cancel</button>
+          </div>
+        </div>
+      ); })()}
+      {draft && (
+        <div className="border-t bg-gray-50 p-3 text-sm space-y-2">
+          <div className="flex flex-wrap items-end gap-2">
+            <label className="text-xs text-gray-600">Name
+              <input value={draft.label} onChange={e=> setDraft({ ...draft, label: e.target.value })} className="mt-1 block w-36 border rounded p-1" placeholder="Margin" />
+            </label>
+            <label className="text-xs text-gray-600 flex-1 min-w-[14rem]">Formula
+              <input value={draft.source} onChange={e=> setDraft({ ...draft, source: e.target.value })} onKeyDown={e=>{ if(e.key==='Enter') saveFormula(); if(e.key==='Escape') setDraft(null); }}
+                className="mt-1 block w-full border rounded p-1 font-mono" placeholder="revenue - costPrice * units" autoFocus />
+            </label>
+            <label className="text-xs text-gray-600">Type
+              <select value={draft.type} onChange={e=> setDraft({ ...draft, type: e.target.value as ColumnType })} className="mt-1 block border rounded p-1">
+                {NUMERIC_TYPES.map(t=> (<option key={t} value={t}>{t}</option>))}
+              </select>
+            </label>
+            <ThemedButton color={color} onClick={saveFormula} className={`text-sm ${draftError ? 'opacity-50 cursor-not-allowed' : ''}`}>{draft.key ? 'Update column' : 'Add column'}</ThemedButton>
+            <button onClick={()=> setDraft(null)} className="text-xs underline pb-2">Cancel</button>
+          </div>
+          <div className={`text-xs ${draftError ? 'text-red-600' : 'text-gray-600'}`}>{draftError ?? `Preview: ${draftPreview}`}</div>
+          <div className="text-[11px] text-gray-400">{FORMULA_HELP}</div>
+        </div>
+      )}
     </div>
   );
 }
@@ -317,168 +501,294 @@ function DataGrid({ rows, setRows, color }:{ rows: Row[]; setRows:(r:Row[])=>voi
 /* =========================
    Askura (BACKEND FIRST, local fallback)
    ========================= */
-interface AskuraMemory { kind?: 'topSupplier'|'marginMax'|'growth'|'total'|'min'|'max'; metric?: MetricKey|'margin'; year?: string; years?: string[]; supplier?: string; value?: number }
-
-async function askOpenAI(
-  _apiKey: string, // not used anymore
-  prompt: string,
-  rows: Row[],
-  context:{mode:Mode;yA:MetricKey;yB?:MetricKey;secondaryOn:boolean}
-): Promise<string>{
-  try {
-    const res = await fetch('/api/askura', {
-      method: 'POST',
-      headers: { 'Content-Type':'application/json' },
-      body: JSON.stringify({ question: prompt, rows, context })
-    });
-    if (!res.ok) throw new Error(await res.text());
+interface AskuraMemory extends Referents { kind?: 'topGroup'|'growth'|'total'|'min'|'max' }
+interface ServerAnswer { text: string; chart?: ChartSpec; memory?: { summary: string; folded: number } }
+
+/**
+ * Asks the server, passing the answer so far to `onText` as it streams in. Rejects when the
+ * server can't answer (or doesn't stream and sends no answer), so the caller can fall back.
+ */
+async function askServer(question: string, dataset: Dataset, context: ChartContext, conversation: Conversation, onText: (text: string)=>void, signal: AbortSignal): Promise<ServerAnswer>{
+  const { turns: history, summary, referents } = conversation;
+  const res = await fetch('/api/askura', {
+    method: 'POST',
+    headers: { 'Content-Type':'application/json', 'Accept':'text/event-stream, application/json' },
+    body: JSON.stringify({ question, rows: dataset.rows, columns: dataset.columns, context, history, summary, referents }),
+    signal,
+  });
+  if (!res.ok) throw new Error(await res.text());
+  if (!res.body || !res.headers.get('Content-Type')?.includes('text/event-stream')) {
     const data = await res.json();
-    return data.answer || 'No answer.';
-  } catch {
-    return 'Askura server unavailable.';
+    if (!data.answer) throw new Error('No answer.');
+    return { text: data.answer, chart: readChartSpec(data.chart), memory: readServerMemory(data.memory) };
   }
+  let text = '', done: ServerAnswer|undefined;
+  await readEvents(res.body, ({ event, data })=>{
+    const d = data as { text?: string; answer?: string; chart?: unknown; memory?: unknown; error?: string };
+    if (event==='token') onText(text += d.text ?? '');
+    else if (event==='reset') onText(text = '');
+    else if (event==='done') done = { text: d.answer ?? '', chart: readChartSpec(d.chart), memory: readServerMemory(d.memory) };
+    else if (event==='error') throw new Error(d.error);
+  });
+  if (!done?.text) throw new Error('The answer was cut off.');
+  return done;
+}
+
+function readServerMemory(raw: unknown): ServerAnswer['memory'] {
+  const m = raw as { summary?: unknown; folded?: unknown } | undefined;
+  return typeof m?.summary==='string' && typeof m.folded==='number' ? { summary: m.summary, folded: m.folded } : undefined;
+}
+
+function metricValue(ds: Dataset, rs: Row[], m: MetricKey){
+  const c = columnByKey(ds, m);
+  const v = summarize(rs, c? columnMeasure(c) : { key:m, agg:'sum' });
+  return isFinite(v) ? v : 0;
+}
+function fmtNum(v:number){ return Math.abs(v)<10 && !Number.isInteger(v) ? v.toFixed(2) : String(Math.round(v)); }
+
+function splitWords(s:string){ return s.replace(/([a-z0-9])([A-Z])/g,'$1 $2').toLowerCase().split(/[^a-z0-9]+/).filter(w=> w.length>1); }
+function wordMatch(w:string, c:string){ return w===c || (c.length>=4 && w.startsWith(c)) || (w.length>=4 && c.startsWith(w)); }
+/** The column whose label/key words are mentioned most in the question. */
+function findColumn(text:string, cols: Column[]): Column|undefined {
+  const tw = splitWords(text);
+  let best: Column|undefined; let bestScore = 0;
+  for(const c of cols){
+    const cw = new Set([...splitWords(c.label), ...splitWords(c.key)]);
+    let score = 0; cw.forEach(w=>{ if(tw.some(t=> wordMatch(t,w))) score++; });
+    if(score>bestScore){ best=c; bestScore=score; }
+  }
+  return best;
+}
+function findMetric(text:string, ds: Dataset): MetricKey|undefined {
+  return findColumn(text, numericColumns(ds))?.key;
+}
+function mentions(text:string, value:string){
+  const v = value.trim().toLowerCase(); if(!v) return -1;
+  const m = new RegExp(`(^|[^a-z0-9])${v.replace(/[.*+?^${}()|[\]\\]/g,'\\$&')}($|[^a-z0-9])`).exec(text);
+  return m ? m.index : -1;
+}
+
+const CHART_ASK = /\b(show|plot|chart|graph|visuali[sz]e|draw|compare)\b/;
+const CHART_WORDS: Record<string, Mode> = { pie:'pie', donut:'pie', line:'line', area:'area', scatter:'scatter', stacked:'stacked', bar:'bar', bars:'bar', column:'bar', columns:'bar', combo:'dual' };
+
+/**
+ * The chart a question asks for ("show units by supplier for 2024", "compare revenue and staff
+ * expenses"): the metrics named, split by a category named, limited to the periods and members named.
+ */
+function chartRequest(text: string, ds: Dataset, context: ChartContext, periods: string[], members: { col: Column; value: string }[]): ChartSpec|undefined {
+  if(!CHART_ASK.test(text)) return undefined;
+  // Each word goes to the metric it describes best, so "sales units" doesn't also pick "sales (revenue)"
+  const tw = splitWords(text);
+  const scored = numericColumns(ds).map(c=> {
+    const cw = [...splitWords(c.label), ...splitWords(c.key)].filter(w=> w.length>2);
+    const hits = tw.map((t,i)=> cw.some(w=> wordMatch(t,w)) ? i : -1).filter(i=> i>=0);
+    return { c, hits };
+  });
+  const owner = new Map<number, { c: Column; hits: number[] }>();
+  scored.forEach(s=> s.hits.forEach(i=> { const o = owner.get(i); if(!o || s.hits.length>o.hits.length) owner.set(i, s); }));
+  const metrics = scored.filter(s=> Array.from(owner.values()).includes(s)).sort((a,b)=> a.hits[0]-b.hits[0]).map(s=> s.c.key);
+  if(!metrics.length && context.yA) metrics.push(context.yA);
+  if(!metrics.length) return undefined;
+
+  const pc = periodColumn(ds);
+  const dim = findColumn(text, categoryColumns(ds));
+  const splitBy = dim && !members.some(m=> m.col.key===dim.key) ? dim.key : undefined;
+  const filters: Record<string, string> = {};
+  if(pc && periods.length===1) filters[pc.key] = periods[0];
+  members.forEach(m=> { filters[m.col.key] = `=${m.value}`; });
+  const named = tw.map(w=> CHART_WORDS[w]).find(Boolean);
+  const mode: Mode = named ?? (splitBy && periods.length===1 ? 'pie' : splitBy ? 'stacked' : metrics.length>1 ? 'bar' : context.mode==='pie' ? 'line' : context.mode);
+  return { mode, metrics, ...(splitBy ? { splitBy } : {}), ...(Object.keys(filters).length ? { filters } : {}) };
 }
 
-function answerLocal(q: string, rows: Row[], context:{mode:Mode;yA:MetricKey;yB?:MetricKey;secondaryOn:boolean}, mem: AskuraMemory): { text:string, mem: AskuraMemory }{
+function answerLocal(q: string, ds: Dataset, context: ChartContext, mem: AskuraMemory): { text:string, mem: AskuraMemory, chart?: ChartSpec }{
   const text = q.trim().toLowerCase();
-  if(!text) return { text:'Ask about revenue, units, suppliers, costs, margin, growth, or years (e.g., "revenue growth 2024 to 2025").', mem };
+  const { rows } = ds;
+  const pc = periodColumn(ds);
+  const cats = categoryColumns(ds);
+  const periodName = (pc?.label || 'period').toLowerCase();
+  const example = numericColumns(ds)[0]?.label.toLowerCase() || 'totals';
+  if(!text) return { text:`Ask about ${numericColumns(ds).map(c=> c.label.toLowerCase()).join(', ') || 'the table'}${cats.length? `, ${cats.map(c=> c.label.toLowerCase()).join(', ')}`:''}, or growth between ${periodName}s.`, mem };
 
   if(/^(thanks|thank you|cheers|ok|okay|cool|great|nice|awesome|got it|good)\b/.test(text)){
-    return { text: mem.kind? 'Anytime — want me to break that down further or compare years?' : 'Anytime — ask me anything about the table.', mem };
+    return { text: mem.kind? `Anytime — want me to break that down further or compare ${periodName}s?` : 'Anytime — ask me anything about the table.', mem };
   }
 
-  const yearsInQ = Array.from(new Set((text.match(/\b(20\d{2})\b/g) || [])));
-  const suppliers = Array.from(new Set(rows.map(r=> r.supplier.toLowerCase())));
-  const mentionedSupplier = suppliers.find(s => text.includes(s));
-  const byFilter = rows.filter(r=> (yearsInQ.length? yearsInQ.includes(r.period): true) && (mentionedSupplier? r.supplier.toLowerCase()===mentionedSupplier: true));
+  const periodsInQ = pc ? Array.from(new Set(rows.map(r=> cellText(r,pc.key))))
+    .map(p=> ({ p, at: mentions(text, p) })).filter(m=> m.at>=0).sort((a,b)=> a.at-b.at).map(m=> m.p) : [];
+  const members = cats.flatMap(c=> Array.from(new Set(rows.map(r=> cellText(r,c.key))))
+    .filter(v=> mentions(text, v)>=0).map(v=> ({ col:c, value:v })));
+  const byMembers = rows.filter(r=> members.every(m=> cellText(r,m.col.key)===m.value));
+  const byFilter = byMembers.filter(r=> !pc || !periodsInQ.length || periodsInQ.includes(cellText(r,pc.key)));
+  const forTxt = members.length? ` for ${members.map(m=> m.value).join(', ')}` : '';
+  const inTxt = periodsInQ.length? ` in ${periodsInQ.join(', ')}` : '';
 
-  const sum = (rs:Row[], f:(r:Row)=>number)=> rs.reduce((s,r)=> s+f(r),0);
-  const rev = sum(byFilter, r=> r.revenue);
-  const units = sum(byFilter, r=> r.units);
-  const cost = sum(byFilter, r=> r.costPrice * r.units);
-  const staff = sum(byFilter, r=> r.staffExp);
-  const margin = rev - cost - staff;
-
-  if(/^(when\??|when was this\??|which year\??|what year\??)$/.test(text)){
+  if(/^(when\??|when was this\??|which (year|period)\??|what (year|period)\??)$/.test(text)){
     if(mem.year) return { text: `It was in ${mem.year}.`, mem };
-    return { text: 'I need a reference. Ask a specific question first (e.g., lowest cost price).', mem };
+    return { text: `I need a reference. Ask a specific question first (e.g., lowest ${example}).`, mem };
   }
 
   if(/what\s+does\s+this\s+chart|which\s+metrics\s+are\s+shown/.test(text)){
-    const primary = METRIC_LABEL[context.yA];
-    const secondary = context.secondaryOn && context.yB ? ` and ${METRIC_LABEL[context.yB]}` : '';
-    return { text:`The chart is a ${context.mode} showing ${primary}${secondary} by Year.`, mem };
-  }
-
-  // top/bottom supplier
-  if(/which\s+supplier|top\s+supplier|most\s+(units|revenue)/.test(text)){
-    const bySup = new Map<string,{rev:number;units:number;margin:number}>();
-    byFilter.forEach(r=>{
-      const m = (r.revenue - r.costPrice*r.units - r.staffExp);
-      const s = bySup.get(r.supplier) || {rev:0,units:0,margin:0};
-      s.rev+=r.revenue; s.units+=r.units; s.margin+=m; bySup.set(r.supplier, s);
-    });
-    if(!bySup.size) return { text:'No rows match that filter.', mem };
-    const metric = /margin/.test(text)? 'margin' : /unit/.test(text)? 'units' : 'rev';
-    const sorted = Array.from(bySup.entries()).sort(
-      (a, b) => (b[1] as any)[metric] - (a[1] as any)[metric]
-    );
-    if (sorted.length === 0) return { text: 'No data.', mem };
-    const [name, vals] = sorted[0]!;
-    const label = metric==='rev'?'revenue':metric;
-    const newMem: AskuraMemory = { kind:'topSupplier', supplier:name, metric: metric==='rev'?'revenue': metric as any, year: yearsInQ[0], years: yearsInQ };
-    return { text:`Top supplier by ${label}${yearsInQ.length?` in ${yearsInQ.join(', ')}`:''}: ${name} (${Math.round((vals as any)[metric])}).`, mem:newMem };
-  }
-
-  // biggest margin (by year across all suppliers)
-  if (/biggest\s+margin|highest\s+margin/.test(text)) {
-    const byYear = new Map<string, number>();
-    for (const r of rows) {
-      const m = r.revenue - r.costPrice * r.units - r.staffExp;
-      byYear.set(r.period, (byYear.get(r.period) || 0) + m);
-    }
-    const sorted = Array.from(byYear.entries()).sort((a, b) => b[1] - a[1]);
-    if (sorted.length === 0) return { text: 'No data.', mem };
-    const [year, val] = sorted[0]!;
-    const newMem: AskuraMemory = { kind: 'marginMax', year, metric: 'margin', value: val };
-    return { text: `Highest margin year: ${year} (~${Math.round(val)}).`, mem: newMem };
-  }
-
-  // lowest / highest cost price
-  if (/(lowest|min).*cost|cost\s*price.*(lowest|min)/.test(text)) {
-    let best: { year: string; val: number } | undefined;
-    for (const r of rows) {
-      if (!best || r.costPrice < best.val) best = { year: r.period, val: r.costPrice };
-    }
-    if (!best) return { text: 'No data.', mem };
-    const newMem: AskuraMemory = { kind: 'min', metric: 'costPrice', year: best.year, value: best.val };
-    return { text: `Lowest cost price: ${best.val.toFixed(2)} in ${best.year}.`, mem: newMem };
-  }
-  if (/(highest|max).*cost|cost\s*price.*(highest|max)/.test(text)) {
-    let best: { year: string; val: number } | undefined;
-    for (const r of rows) {
-      if (!best || r.costPrice > best.val) best = { year: r.period, val: r.costPrice };
-    }
-    if (!best) return { text: 'No data.', mem };
-    const newMem: AskuraMemory = { kind: 'max', metric: 'costPrice', year: best.year, value: best.val };
-    return { text: `Highest cost price: ${best.val.toFixed(2)} in ${best.year}.`, mem: newMem };
-  }
-
-  // growth/delta between two years
-  const yMatches = text.match(/(20\d{2}).*(20\d{2})/);
-  if(/growth|change|delta|increase|decrease/.test(text) && yMatches){
-    const y1=yMatches[1], y2=yMatches[2];
-    const r1 = rows.filter(r=> r.period===y1); const r2=rows.filter(r=> r.period===y2);
-    const metric: MetricKey| 'margin' = /margin/.test(text)? 'margin' : /unit/.test(text)? 'units' : /revenue|sales(?!\s*units)/.test(text)? 'revenue' : /staff/.test(text)? 'staffExp' : /cost/.test(text)? 'costPrice' : 'revenue';
-    const val = (rs:Row[])=> metric==='margin' ? rs.reduce((s,r)=> s + (r.revenue - r.costPrice*r.units - r.staffExp),0) : rs.reduce((s,r)=> s + (r[metric] as number), 0);
-    const v1 = val(r1), v2 = val(r2);
+    const names = context.series.map(s=> `${columnLabel(ds, s.metric)}${context.mode==='dual' ? ` (${s.render})` : ''}${s.axis==='right' && context.series.some(o=> o.axis==='left') ? ' on the right axis' : ''}`);
+    const shown = names.length>1 ? `${names.slice(0,-1).join(', ')} and ${names[names.length-1]}` : names[0] ?? 'no metrics';
+    const splitCol = columnByKey(ds, context.split);
+    if(splitCol) return { text:`The chart is a ${MODE_NAMES[context.mode] ?? context.mode} chart showing ${columnLabel(ds, context.yA)} ${context.mode==='pie' ? `by ${splitCol.label}` : `by ${pc?.label || 'row'}, split by ${splitCol.label}`}.`, mem };
+    return { text:`The chart is a ${MODE_NAMES[context.mode] ?? context.mode} chart showing ${shown} by ${pc?.label || 'row'}.`, mem };
+  }
+
+  const chart = chartRequest(text, ds, context, periodsInQ, members);
+  if(chart) return { text:`Here's ${specChart(ds, chart).title}.`, mem, chart };
+
+  const metric: MetricKey = findMetric(text, ds) ?? context.yA;
+  const label = columnLabel(ds, metric);
+
+  // distinct members of a category column
+  const dim = findColumn(text, cats);
+  if(dim && /\bhow many\b/.test(text) && !findMetric(text, ds)){
+    const n = summarize(byFilter, { key: dim.key, agg:'distinct' });
+    return { text:`${n} distinct ${dim.label.toLowerCase()}${n===1?'':'s'}${forTxt}${inTxt}.`, mem:{ ...mem, kind:'total', value:n } };
+  }
+
+  // top/bottom member of a category column
+  if(cats.length && (dim || /\bmost\s+\w+/.test(text)) && /\b(which|top|most|best|leading|bottom|least|worst)\b/.test(text)){
+    const groupCol = dim ?? cats[0];
+    const byGroup = pivot(byFilter, groupCol.key, rs=> metricValue(ds, rs, metric));
+    if(!byGroup.members.length) return { text:'No rows match that filter.', mem };
+    const low = /\b(bottom|least|worst|lowest)\b/.test(text);
+    const at = low ? byGroup.members.length-1 : 0;
+    const name = byGroup.members[at], val = byGroup.totals[at];
+    const newMem: AskuraMemory = { kind:'topGroup', group: groupCol.key, member:name, metric, year: periodsInQ[0], years: periodsInQ, value: val };
+    return { text:`${low?'Bottom':'Top'} ${groupCol.label.toLowerCase()} by ${label.toLowerCase()}${inTxt}: ${name} (${fmtNum(val)}).`, mem:newMem };
+  }
+
+  // highest / lowest period for a metric
+  const extreme = text.match(/\b(highest|biggest|largest|max|maximum|peak|best|lowest|smallest|min|minimum|least|worst)\b/);
+  if(pc && extreme){
+    const low = /^(lowest|smallest|min|minimum|least|worst)$/.test(extreme[1]);
+    const byPeriod = Array.from(groupRows(byMembers, pc.key).entries()).map(([p, rs])=> [p, metricValue(ds, rs, metric)] as [string, number]);
+    if(!byPeriod.length) return { text: 'No data.', mem };
+    byPeriod.sort((a,b)=> low? a[1]-b[1] : b[1]-a[1]);
+    const [year, val] = byPeriod[0]!;
+    const newMem: AskuraMemory = { kind: low? 'min':'max', metric, year, value: val };
+    return { text: `${low?'Lowest':'Highest'} ${label.toLowerCase()}${forTxt}: ${fmtNum(val)} in ${year}.`, mem: newMem };
+  }
+
+  // growth/delta between two periods
+  if(pc && /growth|change|delta|increase|decrease/.test(text) && periodsInQ.length>=2){
+    const [y1, y2] = periodsInQ;
+    const v1 = metricValue(ds, byMembers.filter(r=> cellText(r,pc.key)===y1), metric);
+    const v2 = metricValue(ds, byMembers.filter(r=> cellText(r,pc.key)===y2), metric);
     const newMem: AskuraMemory = { kind:'growth', metric, years:[y1,y2], year:y2, value: v2 };
-    return { text:`${metric==='margin'?'Margin':METRIC_LABEL[metric]} changed ${Math.round(pct(v2,v1))}% from ${y1} (${Math.round(v1)}) to ${y2} (${Math.round(v2)}).`, mem:newMem };
+    return { text:`${label}${forTxt} changed ${Math.round(pct(v2,v1))}% from ${y1} (${fmtNum(v1)}) to ${y2} (${fmtNum(v2)}).`, mem:newMem };
   }
 
-  if(/average|avg/.test(text)){
-    const metric: MetricKey| 'margin' = /margin/.test(text)? 'margin' : /unit/.test(text)? 'units' : /revenue|sales(?!\s*units)/.test(text)? 'revenue' : /staff/.test(text)? 'staffExp' : /cost/.test(text)? 'costPrice' : 'revenue';
-    const val = metric==='margin' ? (margin/ (byFilter.length||1)) : (sum(byFilter, r=> (metric==='costPrice'? r.costPrice : (r[metric] as number))) / (metric==='costPrice'? (byFilter.length||1) : 1));
+  // "average cost price weighted by units"
+  const weightedBy = text.match(/weighted\s+by\s+(.+?)(?:\s+(?:in|for)\s|[?.!]|$)/);
+  const weighted = weightedBy ? findMetric(text.slice(0, weightedBy.index), ds) ?? metric : undefined;
+  if(weightedBy && weighted){
+    const w = findColumn(weightedBy[1], numericColumns(ds).filter(c=> c.key!==weighted));
+    if(w){
+      const val = summarize(byFilter, { key: weighted, agg:'weighted', weight: w.key });
+      const newMem: AskuraMemory = { kind:'total', metric: weighted, value: val };
+      return { text:`Average ${columnLabel(ds, weighted).toLowerCase()}${forTxt}${inTxt} weighted by ${w.label.toLowerCase()}: ${isFinite(val) ? fmtNum(val) : 'no data'}.`, mem:newMem };
+    }
+  }
+
+  if(/average|avg|mean/.test(text)){
+    const val = byFilter.length ? byFilter.reduce((s,r)=> s + metricValue(ds, [r], metric), 0) / byFilter.length : 0;
     const newMem: AskuraMemory = { kind:'total', metric, value: val };
-    return { text:`Average ${metric==='margin'?'margin':METRIC_LABEL[metric]}${mentionedSupplier?` for ${mentionedSupplier}`:''}${yearsInQ.length?` in ${yearsInQ.join(', ')}`:''}: ${metric==='costPrice'? val.toFixed(2) : Math.round(val)}.`, mem:newMem };
+    return { text:`Average ${label.toLowerCase()}${forTxt}${inTxt}: ${fmtNum(val)}.`, mem:newMem };
   }
 
-  if(/revenue|sales(?!\s*units)/.test(text)) return { text:`Revenue${mentionedSupplier?` for ${mentionedSupplier}`:''}${yearsInQ.length?` in ${yearsInQ.join(', ')}`:''}: ${Math.round(rev)}.`, mem:{...mem, kind:'total', metric:'revenue', value:rev} };
-  if(/unit|quantity|qty/.test(text)) return { text:`Units${mentionedSupplier?` for ${mentionedSupplier}`:''}${yearsInQ.length?` in ${yearsInQ.join(', ')}`:''}: ${Math.round(units)}.`, mem:{...mem, kind:'total', metric:'units', value:units} };
-  if(/staff/.test(text)) return { text:`Staff expenses${mentionedSupplier?` for ${mentionedSupplier}`:''}${yearsInQ.length?` in ${yearsInQ.join(', ')}`:''}: ${Math.round(staff)}.`, mem:{...mem, kind:'total', metric:'staffExp', value:staff} };
-  if(/margin|profit/.test(text)) return { text:`Margin${mentionedSupplier?` for ${mentionedSupplier}`:''}${yearsInQ.length?` in ${yearsInQ.join(', ')}`:''}: ${Math.round(margin)} (approx).`, mem:{...mem, kind:'marginMax', metric:'margin', value:margin} };
-  if(/cost(\s*price)?/.test(text)) return { text:`Average cost price${mentionedSupplier?` for ${mentionedSupplier}`:''}${yearsInQ.length?` in ${yearsInQ.join(', ')}`:''}: ${(sum(byFilter, r=> r.costPrice)/ (byFilter.length||1)).toFixed(2)}.`, mem:{...mem, kind:'total', metric:'costPrice'} };
+  if(findMetric(text, ds)){
+    const val = metricValue(ds, byFilter, metric);
+    const agg = defaultAggregation(columnByKey(ds, metric)!);
+    return { text:`${agg==='avg'?`Average ${label.toLowerCase()}`: agg==='last'?`Latest ${label.toLowerCase()}`:label}${forTxt}${inTxt}: ${fmtNum(val)}.`, mem:{...mem, kind:'total', metric, value:val, year: periodsInQ[0] ?? mem.year} };
+  }
 
-  return { text:'Try: "Top supplier by revenue", "Revenue growth 2024 to 2025", or "What does this chart show?"', mem };
+  const lead = numericColumns(ds)[0]?.label || 'Total';
+  const cat = cats[0]?.label.toLowerCase();
+  const span = pc && rows.length>1 ? ` ${cellText(rows[0],pc.key)} to ${cellText(rows[rows.length-1],pc.key)}` : '';
+  return { text:`Try: "${cat? `Top ${cat} by ${example}` : `Highest ${example}`}", "${lead} growth${span}", or "What does this chart show?"`, mem };
 }
 
-function Askura({ rows, context, color }:{ rows: Row[]; context:{mode:Mode;yA:MetricKey;yB?:MetricKey;secondaryOn:boolean}; color:string }){
+function seedQuestion(ds: Dataset, context: ChartContext){
+  const cat = categoryColumns(ds)[0], m = columnByKey(ds, context.yA) ?? numericColumns(ds)[0], pc = periodColumn(ds);
+  const last = pc && ds.rows.length ? cellText(ds.rows[ds.rows.length-1], pc.key) : '';
+  if(cat && m) return `Which ${cat.label.toLowerCase()} drove most ${m.label.toLowerCase()}${last?` in ${last}`:''}?`;
+  if(m) return `Highest ${m.label.toLowerCase()}?`;
+  return 'What does this chart show?';
+}
+
+/** A chart attached to an answer, drawn small with actions to use it. */
+function AnswerChart({ dataset, spec, onApply, onPin }:{ dataset: Dataset; spec: ChartSpec; onApply?: ()=>void; onPin?: ()=>void }){
+  const view = useMemo(()=> specChart(dataset, spec), [dataset, spec]);
+  const [pinned, setPinned] = useState(false);
+  return (
+    <div className="mt-2 rounded-lg border bg-gray-50 p-2">
+      <div className="text-[11px] font-semibold text-gray-600 mb-1">{view.title}</div>
+      <MiniChart chart={view.chart} width={280} height={140} className="w-full h-auto" />
+      <div className="mt-1 flex gap-2 text-xs">
+        {onApply && <button onClick={onApply} className="px-2 py-1 rounded border bg-white hover:bg-gray-100">Apply to chart</button>}
+        {onPin && <button onClick={()=>{ onPin(); setPinned(true); }} disabled={pinned} className="px-2 py-1 rounded border bg-white hover:bg-gray-100 disabled:opacity-50">{pinned ? 'Pinned' : 'Pin to slides'}</button>}
+      </div>
+    </div>
+  );
+}
+
+function Askura({ dataset, context, color, initial, onTranscript, onApplyChart, onPinChart }:{
+  dataset: Dataset; context: ChartContext; color:string; initial?: TranscriptEntry[]; onTranscript?: (messages: TranscriptEntry[])=>void;
+  onApplyChart?: (spec: ChartSpec)=>void; onPinChart?: (spec: ChartSpec, caption: string)=>void;
+}){
   const [memory, setMemory] = useState<AskuraMemory>({});
-  const seed = answerLocal('Which supplier drove most units in 2025?', rows, context, {});
-  const [messages, setMessages] = useState<{role:'user'|'ai'; text:string}[]>([
-    { role:'user', text:'Which supplier drove most units in 2025?' },
-    { role:'ai', text: seed.text }
-  ]);
+  // The server's summary of the conversation, and the first message it doesn't cover
+  const summaryRef = useRef<{ text?: string; from: number }>({ from: 0 });
+  const [messages, setMessages] = useState<TranscriptEntry[]>(()=>{
+    if(initial?.length) return initial;
+    const q = seedQuestion(dataset, context);
+    return [{ role:'user', text:q }, { role:'ai', text: answerLocal(q, dataset, context, {}).text }];
+  });
   const [input, setInput] = useState('');
+  // The reply being written: null when idle, '' until the first words arrive
+  const [pending, setPending] = useState<string|null>(null);
+  const abortRef = useRef<AbortController|null>(null);
   const chatRef = useRef<HTMLDivElement|null>(null);
-  useEffect(()=>{ if(chatRef.current) chatRef.current.scrollTop = chatRef.current.scrollHeight; }, [messages]);
+  useEffect(()=>{ if(chatRef.current) chatRef.current.scrollTop = chatRef.current.scrollHeight; }, [messages, pending]);
+  useEffect(()=>{ onTranscript?.(messages); }, [messages, onTranscript]);
+  useEffect(()=> ()=> abortRef.current?.abort(), []);
 
   async function send(){
-    if(!input.trim()) return;
-    const q=input; setInput('');
+    const q = input.trim();
+    if(!q || pending!=null) return;
+    setInput('');
     setMessages(m=>[...m,{role:'user', text:q}]);
+    // Follow-ups resolve against the local reading of the question, whoever answers it
+    const local = answerLocal(q, dataset, context, memory);
+    setMemory(local.mem);
+    // The latest turns go along verbatim; the server folds older ones into its summary
+    const from = Math.max(summaryRef.current.from, messages.length - MAX_TURNS);
+    const { metric, year, years, group, member, value } = local.mem;
+    const conversation: Conversation = {
+      turns: messages.slice(from).map((m): Turn => ({ role: m.role, text: m.text })),
+      summary: summaryRef.current.text, referents: { metric, year, years, group, member, value },
+    };
 
-    // Try backend first
-    const ai = await askOpenAI('', q, rows, context);
-    if (ai !== 'Askura server unavailable.') {
-      setMessages(m=>[...m,{role:'ai', text: ai}]);
-      const resLocal = answerLocal(q, rows, context, memory); setMemory(resLocal.mem);
-    } else {
-      // Fallback to local logic
-      const res = answerLocal(q, rows, context, memory);
-      setMessages(m=>[...m,{role:'ai', text: res.text}]);
-      setMemory(res.mem);
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setPending('');
+    let partial = '', reply: TranscriptEntry|undefined;
+    try {
+      const { text, chart, memory: summary } = await askServer(q, dataset, context, conversation, text=>{ partial = text; setPending(text); }, controller.signal);
+      reply = { role:'ai', text, ...(chart ? { chart } : {}) };
+      if(summary) summaryRef.current = { text: summary.summary, from: from + summary.folded };
+    } catch {
+      // Stopping keeps what was written so far; anything else falls back to the local answer
+      if(!controller.signal.aborted) reply = { role:'ai', text: local.text, ...(local.chart ? { chart: local.chart } : {}) };
+      else if(partial) reply = { role:'ai', text: partial };
     }
+    if(abortRef.current===controller) abortRef.current = null;
+    setPending(null);
+    if(reply) setMessages(m=>[...m, reply]);
   }
 
   return (
@@ -489,12 +799,26 @@ function Askura({ rows, context, color }:{ rows: Row[]; context:{mode:Mode;yA:Me
       </div>
       <div className="h-56 overflow-y-auto space-y-2 mb-2" ref={chatRef}>
         {messages.map((m,i)=> (
-          <div key={i} className={`px-3 py-2 rounded-lg max-w-[75%] ${m.role==='user'? 'bg-[#1ABC9C] text-white ml-auto':'bg-white border text-gray-800'}`}>{m.text}</div>
+          <div key={i} className={`px-3 py-2 rounded-lg ${m.chart ? 'max-w-[90%]' : 'max-w-[75%]'} ${m.role==='user'? 'bg-[#1ABC9C] text-white ml-auto':'bg-white border text-gray-800'}`}>
+            {m.text}
+            {m.chart && <AnswerChart dataset={dataset} spec={m.chart} onApply={onApplyChart && (()=> onApplyChart(m.chart!))} onPin={onPinChart && (()=> onPinChart(m.chart!, m.text))} />}
+          </div>
         ))}
+        {pending!=null && (
+          <div className="px-3 py-2 rounded-lg max-w-[75%] bg-white border text-gray-800" aria-live="polite" aria-busy="true">
+            {pending || (
+              <span className="inline-flex gap-1 py-1" role="status" aria-label="Askura is typing">
+                {[0,1,2].map(i=> <span key={i} className="w-1.5 h-1.5 rounded-full bg-gray-400 animate-bounce" style={{ animationDelay:`${i*150}ms` }} />)}
+              </span>
+            )}
+          </div>
+        )}
       </div>
       <div className="flex gap-2">
         <input value={input} onChange={e=>setInput(e.target.value)} onKeyDown={e=> e.key==='Enter' && send()} className="flex-1 border rounded-lg px-3 py-2" placeholder="Ask about your data..."/>
-        <ThemedButton color={color} onClick={send}>Send</ThemedButton>
+        {pending!=null
+          ? <ThemedButton color={color} onClick={()=> abortRef.current?.abort()}>Stop</ThemedButton>
+          : <ThemedButton color={color} onClick={send}>Send</ThemedButton>}
       </div>
     </div>
   );
@@ -503,36 +827,40 @@ function Askura({ rows, context, color }:{ rows: Row[]; context:{mode:Mode;yA:Me
 /* =========================
    Insights
    ========================= */
-function computeInsights(rows: Row[]) {
-  const ordered = rows.slice().sort((a,b)=> (+a.period)-(+b.period));
-  const latest = ordered[ordered.length-1], prev = ordered[ordered.length-2] || latest;
-  const revChg = pct(latest.revenue, prev.revenue);
-  const unitsChg = pct(latest.units, prev.units);
-  const costL = latest.costPrice * latest.units; const staffL = latest.staffExp; const marginL = latest.revenue - costL - staffL;
-  const bySup = new Map<string, {rev:number; units:number}>();
-  rows.forEach(r=>{ const v=bySup.get(r.supplier)||{rev:0,units:0}; v.rev+=r.revenue; v.units+=r.units; bySup.set(r.supplier,v); });
-  const rank = Array.from(bySup.entries()).sort((a,b)=> b[1].rev - a[1].rev);
+function computeInsights(ds: Dataset) {
+  const pc = periodColumn(ds);
+  const metrics = numericColumns(ds);
+  const lead = metrics[0];
+  const cat = categoryColumns(ds)[0];
+  const periods = pc
+    ? Array.from(groupRows(ds.rows, pc.key).entries()).sort((a,b)=> comparePeriods(a[0],b[0]))
+    : ds.rows.map((r,i)=> [String(i+1), [r]] as [string, Row[]]);
+  const latest = periods[periods.length-1], prev = periods[periods.length-2] || latest;
+  const byCat = cat && lead ? pivot(ds.rows, cat.key, rs=> metricValue(ds, rs, lead.key)) : undefined;
+  const rank = byCat ? byCat.members.map((k,i)=> [k, byCat.totals[i]] as [string, number]) : [];
   const top = rank[0]; const bottom = rank[rank.length-1];
+  const costCol = metrics.find(c=> /cost|price/i.test(c.label));
+  const expCol = metrics.find(c=> c!==lead && /exp|staff|salar|payroll/i.test(c.label));
+  const derived = metrics.find(c=> c!==lead && c.formula && c.type==='currency');
 
   const bullets = [
-    `Revenue ${revChg>=0?'up':'down'} ${Math.abs(Math.round(revChg))}% vs ${prev.period}.`,
-    `Units ${unitsChg>=0?'up':'down'} ${Math.abs(Math.round(unitsChg))}% vs ${prev.period}.`,
-    `Latest approx. margin ${Math.round((marginL/latest.revenue)*100)}%.`,
-    top? `Top supplier overall: ${top[0]} (${Math.round(top[1].rev)} revenue).` : '—',
-  ];
+    ...(latest ? metrics.slice(0,2).map(c=> { const chg = pct(metricValue(ds, latest[1], c.key), metricValue(ds, prev[1], c.key)); return `${c.label} ${chg>=0?'up':'down'} ${Math.abs(Math.round(chg))}% vs ${prev[0]}.`; }) : []),
+    latest && derived && lead ? `Latest ${derived.label.toLowerCase()} ${Math.round((metricValue(ds, latest[1], derived.key)/(metricValue(ds, latest[1], lead.key)||1))*100)}% of ${lead.label.toLowerCase()}.` : undefined,
+    top && cat && lead ? `Top ${cat.label.toLowerCase()} overall: ${top[0]} (${fmtNum(top[1])} ${lead.label.toLowerCase()}).` : '—',
+  ].filter(Boolean) as string[];
   const actions = [
-    top && bottom ? `Rebalance supplier mix: ${bottom[0]} trails ${top[0]}. Consider shifting demand or renegotiating.` : undefined,
-    `Review price where cost price trends up.`,
-    `Hold staff expenses ≤ 15% of revenue.`,
+    top && bottom && top!==bottom && cat ? `Rebalance ${cat.label.toLowerCase()} mix: ${bottom[0]} trails ${top[0]}. Consider shifting demand or renegotiating.` : undefined,
+    costCol ? `Review price where ${costCol.label.toLowerCase()} trends up.` : undefined,
+    expCol && lead ? `Hold ${expCol.label.toLowerCase()} ≤ 15% of ${lead.label.toLowerCase()}.` : undefined,
   ].filter(Boolean) as string[];
   const risks = [
-    top ? `Concentration risk with ${top[0]} — add a backup supplier.` : undefined,
+    top && cat ? `Concentration risk with ${top[0]} — add a backup ${cat.label.toLowerCase()}.` : undefined,
   ].filter(Boolean) as string[];
   return { bullets, actions, risks };
 }
 
-function InsightsSection({ rows, gated }:{ rows: Row[]; gated:boolean }){
-  const { bullets, actions, risks } = computeInsights(rows);
+function InsightsSection({ dataset, gated }:{ dataset: Dataset; gated:boolean }){
+  const { bullets, actions, risks } = computeInsights(dataset);
   const Card = ({ title, icon, children }:{ title:string; icon: React.ReactNode; children: React.ReactNode }) => (
     <div className="rounded-2xl bg-white p-6 shadow border transition-transform duration-200 hover:-translate-y-0.5">
       <div className="flex items-center gap-2 mb-2 text-lg font-semibold">{icon}<span>{title}</span></div>
@@ -572,8 +900,8 @@ function InsightsSection({ rows, gated }:{ rows: Row[]; gated:boolean }){
   );
 }
 
-function InsightsMiniReal({ rows }:{ rows: Row[] }){
-  const { bullets, actions, risks } = computeInsights(rows);
+function InsightsMiniReal({ dataset }:{ dataset: Dataset }){
+  const { bullets, actions, risks } = computeInsights(dataset);
   return (
     <div className="grid grid-cols-3 gap-2 text-left text-[11px] w-full">
       <div className="bg-white/10 p-2 rounded">
@@ -679,27 +1007,281 @@ function WhySection(){
 }
 
 /* =========================
-   Slides (previews)
+   Slides (deck)
    ========================= */
-function Slides({ chartRef, onRefresh, previews, gated, color }:{ chartRef: React.MutableRefObject<SVGSVGElement|null>; onRefresh: ()=>void; previews: string[]; gated:boolean; color:string }){
-  async function download(){ if(gated) return; if(previews.length){ previews.forEach((src,i)=> downloadDataUrl(`Chartura_Slide_${i+1}.png`, src)); } else if(chartRef.current){ const d=await svgToPng(chartRef.current); downloadDataUrl('Chartura_Slide_1.png', d); } }
+/** The on-screen chart as a native deck chart: same categories, series, colors and bar layout. */
+function deckChart(points: ChartPoint[], series: ChartSeries[], mode: Mode, xLabel: string): DeckChart {
+  const v = verticalMode(mode);
+  const layout = v==='bar' ? 'grouped' : v==='stacked' ? 'stacked' : v==='stacked100' ? 'percent' : undefined;
+  const left = series.filter(s=> s.axis!=='right'), right = series.filter(s=> s.axis==='right');
+  return {
+    categories: points.map(p=> p.label),
+    series: series.map((s,k)=> ({
+      name: s.label, color: s.color, values: points.map(p=> p.values[k]), secondary: s.axis==='right',
+      render: mode==='dual' ? s.render : mode==='line' || mode==='area' || mode==='scatter' ? mode : 'bar',
+    })),
+    pie: mode==='pie',
+    bars: layout && { layout, horizontal: v!==mode },
+    format: (left[0] ?? series[0])?.format, secondaryFormat: right[0]?.format,
+    xTitle: xLabel, yTitle: (left.length ? left : series).map(s=> s.label).join(' · '), y2Title: right.map(s=> s.label).join(' · '),
+  };
+}
+
+/**
+ * What the chart draws for a set of controls: the points and series PremiumChart takes, and the
+ * same chart as a deck chart with its title. Filters limit the rows first.
+ */
+function chartView(ds: Dataset, active: SeriesSetting[], mode: Mode, grain: GrainChoice, splitKey: string, filters?: Record<string, string>){
+  const data = filterDataset(ds, filters);
+  const metricA = active[0]?.metric ?? '';
+  const xLabel = periodColumn(ds)?.label ?? 'Row';
+  // "Split by" pivots the first series' metric into one series per category member
+  const splitCol = categoryColumns(ds).find(c=> c.key===splitKey);
+  const split = splitCol && metricA ? pivot(data.rows, splitCol.key, rs=> metricValue(data, rs, metricA), { limit: SPLIT_LIMIT }) : undefined;
+  const series: Series = split && mode==='pie'
+    ? { points: split.members.map((m,i)=> ({ x:i, label:m, values:[split.totals[i]] })), grain: null, fiscal: false }
+    : buildSeries(data, active.map(st=> st.metric), grain, split);
+  const formatOf = (m: MetricKey)=> columnFormat(columnByKey(ds, m));
+  const chartSeries: ChartSeries[] = split && mode!=='pie'
+    ? split.members.map((m,k)=> ({ id: `split:${m}`, label: m, color: SPLIT_COLORS[k % SPLIT_COLORS.length], axis: 'left', render: active[0].render, format: formatOf(metricA) }))
+    : active.map((st,i)=> ({ id: `${i}:${st.metric}`, label: columnLabel(ds, st.metric), color: st.color, axis: st.axis, render: st.render, format: formatOf(st.metric) }));
+  const x = split && mode==='pie' ? splitCol?.label ?? xLabel : xLabel;
+  const names = split || mode==='pie' ? [columnLabel(ds, metricA)] : active.map(st=> columnLabel(ds, st.metric));
+  const where = describeFilters(ds, filters);
+  const title = `${names.join(', ')} by ${x}${split && mode!=='pie' ? `, split by ${splitCol?.label}` : ''}${where ? ` (${where})` : ''}`;
+  return { split, splitCol, series, chartSeries, title, chart: deckChart(series.points, chartSeries, mode, x) };
+}
+
+/** Chart controls for a spec: its metrics as series in the default colors, a metric in other units on the right axis. */
+function specControls(ds: Dataset, spec: ChartSpec){
+  const mode = ALL_MODES.includes(spec.mode as Mode) ? spec.mode as Mode : 'line';
+  const metrics = spec.metrics.filter(m=> isNumeric(columnByKey(ds, m))).slice(0, MAX_SERIES);
+  if(!metrics.length && numericColumns(ds)[0]) metrics.push(numericColumns(ds)[0].key);
+  const lead = columnByKey(ds, metrics[0]);
+  const series: SeriesSetting[] = metrics.map((metric,i)=> ({
+    metric, color: SERIES_COLORS[i % SERIES_COLORS.length],
+    axis: i>0 && DUAL_AXIS_MODES.includes(mode) && columnByKey(ds, metric)?.type!==lead?.type ? 'right' : 'left',
+    render: mode==='dual' ? (i ? 'bar' : 'line') : SERIES_RENDERS.includes(mode as SeriesRender) ? mode as SeriesRender : 'line',
+  }));
+  return { mode, series, splitBy: spec.splitBy ?? '', filters: spec.filters ?? {} };
+}
+
+function specChart(ds: Dataset, spec: ChartSpec): { title: string; chart: DeckChart }{
+  const c = specControls(ds, spec);
+  const view = chartView(ds, c.series, c.mode, 'auto', c.splitBy, c.filters);
+  return { title: spec.title || view.title, chart: view.chart };
+}
+
+type StoryId = 'title' | 'trend' | 'mix' | 'yoy' | 'waterfall' | 'kpis' | 'chart' | 'insights';
+/** Generated slides have fixed ids; charts pinned from Askura are "pin-…". */
+type SlideId = StoryId | `pin-${string}`;
+interface StorySlide { id: SlideId; label: string; slide: DeckSlide }
+const STORY_LABELS: Record<StoryId, string> = { title:'Cover', trend:'Trend', mix:'Mix', yoy:'Change', waterfall:'Bridge', kpis:'KPI summary', chart:'Your chart', insights:'Insights' };
+const STORY_IDS = Object.keys(STORY_LABELS) as StoryId[];
+const isStoryId = (id: string): id is StoryId => STORY_IDS.includes(id as StoryId);
+const RISE = '#16A34A', FALL = '#DC2626';
+
+/** The added and subtracted parts of a formula column; none for plain columns or broken formulas. */
+function formulaTerms(ds: Dataset, col: Column){
+  if(!col.formula) return [];
+  try { return additiveTerms(parseFormula(col.formula, ds.columns)); } catch { return []; }
+}
+
+/**
+ * Auto-storyboard: one distinct view of the data per slide, each with a generated headline
+ * and talking point. Views the table can't support (no periods, no category, no derived
+ * columns) are left out.
+ */
+function buildStoryboard(ds: Dataset, current: { title: string; chart: DeckChart }, metric: MetricKey, color: string): StorySlide[] {
+  const pc = periodColumn(ds), cat = categoryColumns(ds)[0];
+  const label = columnLabel(ds, metric), lower = label.toLowerCase();
+  const format = columnFormat(columnByKey(ds, metric));
+  const short = (v: number)=> formatNumber(v, { ...format, compact: true });
+  const signed = (v: number)=> `${v>=0 ? '+' : ''}${formatNumber(v, { style:'percent', decimals:1 })}`;
+  const periods = pc ? Array.from(groupRows(ds.rows, pc.key).entries()).sort((a,b)=> comparePeriods(a[0],b[0])) : [];
+  const totals = periods.map(([p, rs])=> [p, metricValue(ds, rs, metric)] as [string, number]);
+  const span = totals.length>1 ? `${totals[0][0]}–${totals[totals.length-1][0]}` : totals[0]?.[0] ?? '';
+  const { bullets, actions, risks } = computeInsights(ds);
+  const kpis = kpiCards(ds, metric);
+  const out: StorySlide[] = [];
+  const add = (id: StoryId, slide: DeckSlide)=> out.push({ id, label: STORY_LABELS[id], slide });
+
+  add('title', { kind:'title', title: `${label} review`, subtitle: [span, `${ds.rows.length} rows`, new Date().toLocaleDateString('en-US', { year:'numeric', month:'long', day:'numeric' })].filter(Boolean).join(' · '),
+    notes: `This deck covers ${ds.columns.length} columns and ${ds.rows.length} rows${span ? ` from ${span}` : ''}.` });
+
+  if(pc && totals.length>1){
+    const first = totals[0], last = totals[totals.length-1];
+    const best = totals.reduce((a,b)=> b[1]>a[1] ? b : a);
+    const chg = pct(last[1], first[1]);
+    const caption = best===last ? `${last[0]} is the high point so far at ${short(last[1])}.` : `Peak was ${best[0]} at ${short(best[1])}; ${last[0]} closed at ${short(last[1])}.`;
+    add('trend', { kind:'chart', title: `${label} ${chg>=0 ? 'up' : 'down'} ${Math.abs(Math.round(chg))}% from ${first[0]} to ${last[0]}`, caption, notes: [caption, ...bullets.slice(0,1)].join('\n'),
+      chart: { categories: totals.map(t=> t[0]), series: [{ name: label, color, values: totals.map(t=> t[1]), render:'line' }], format, xTitle: pc.label, yTitle: label } });
+
+    const changes = totals.slice(1).map(([p, v], i)=> [p, pct(v, totals[i][1])] as [string, number]);
+    const biggest = changes.reduce((a,b)=> Math.abs(b[1])>Math.abs(a[1]) ? b : a);
+    const latest = changes[changes.length-1];
+    const grew = changes.filter(c=> c[1]>0).length;
+    const yoyCaption = `${grew} of ${changes.length} periods grew; ${latest[0]} was ${signed(latest[1])} on ${totals[totals.length-2][0]}.`;
+    add('yoy', { kind:'chart', title: `${label}: biggest swing in ${biggest[0]} (${signed(biggest[1])})`, caption: yoyCaption, notes: yoyCaption,
+      chart: { categories: changes.map(c=> c[0]), series: [{ name: `${label} change`, color, values: changes.map(c=> c[1]), render:'bar', colors: changes.map(c=> c[1]>=0 ? RISE : FALL) }],
+        format: { style:'percent', decimals:1 }, labels: true, xTitle: pc.label, yTitle: `Change vs prior ${pc.label.toLowerCase()}` } });
+  }
+
+  if(cat){
+    const mix = pivot(ds.rows, cat.key, rs=> metricValue(ds, rs, metric), { limit: 6 });
+    const sum = mix.totals.reduce((a,v)=> a+v, 0);
+    if(mix.members.length>1 && sum>0 && mix.totals.every(v=> v>=0)){
+      const share = (v: number)=> Math.round(v/sum*100);
+      const caption = `${mix.members[0]} and ${mix.members[1]} together make up ${share(mix.totals[0]+mix.totals[1])}% of ${lower}.`;
+      add('mix', { kind:'chart', title: `${mix.members[0]} leads the ${cat.label.toLowerCase()} mix with ${share(mix.totals[0])}% of ${lower}`, caption, notes: [caption, ...risks].join('\n'),
+        chart: { categories: mix.members, series: [{ name: label, color, values: mix.totals, render:'bar' }], donut: true, format } });
+    }
+  }
+
+  // A derived column built from added and subtracted parts (e.g. a margin) bridges from its first part to its result
+  const bridge = ds.columns.find(c=> { const t = formulaTerms(ds, c); return t.length>2 && t[0].sign>0; });
+  if(bridge){
+    const [period, rs] = periods[periods.length-1] ?? ['', ds.rows];
+    const inPeriod = new Set(rs);
+    const steps = formulaTerms(ds, bridge).map(t=> ({
+      label: describeFormula(t.expr, ds.columns),
+      value: t.sign * evaluateFormula(t.expr, ds.rows).reduce<number>((a,v,i)=> inPeriod.has(ds.rows[i]) ? a + (v ?? 0) : a, 0),
+    }));
+    const start = steps[0], result = steps.reduce((a,st)=> a + st.value, 0);
+    const bars = waterfall([{ ...start, total: true }, ...steps.slice(1), { label: bridge.label, value: result, total: true }]);
+    const money = columnFormat(bridge);
+    const paint = (b: { kind: string })=> b.kind==='total' ? color : b.kind==='up' ? RISE : FALL;
+    const share = (v: number)=> Math.round(start.value ? Math.abs(v)/start.value*100 : 0);
+    const drains = steps.slice(1).filter(st=> st.value<0).sort((a,b)=> a.value - b.value);
+    const caption = drains.length ? `${drains[0].label} takes ${share(drains[0].value)}% of ${start.label.toLowerCase()}${drains[1] ? ` and ${drains[1].label.toLowerCase()} ${share(drains[1].value)}%` : ''}.` : undefined;
+    add('waterfall', { kind:'chart', title: `${period ? `${period} ` : ''}${bridge.label.toLowerCase()}: ${formatNumber(result, { ...money, compact: true })} (${share(result)}% of ${start.label.toLowerCase()})`, caption, notes: [caption, ...actions].filter(Boolean).join('\n'),
+      chart: { categories: bars.map(b=> b.label), bars: { layout:'stacked', horizontal:false }, format: money, legend: false,
+        series: [
+          { name:'Base', color:'#FFFFFF', values: bars.map(b=> b.base), render:'bar', hidden: true },
+          { name:`${bridge.label} bridge`, color, values: bars.map(b=> b.height), render:'bar', colors: bars.map(paint) },
+          ...(bars.some(b=> b.cross) ? [{ name:`${bridge.label} bridge (cont.)`, color, values: bars.map(b=> b.cross), render:'bar' as const, colors: bars.map(paint) }] : []),
+        ] } });
+  }
+
+  add('kpis', { kind:'kpis', title: 'Key numbers', kpis, caption: bullets[0], notes: kpis.map(k=> `${k.label}: ${k.value} (${k.hint})`).join('\n') });
+  add('chart', { kind:'chart', title: current.title, chart: current.chart, caption: bullets[1], notes: bullets.slice(0,2).join('\n') || undefined });
+  const list = (title: string, items: string[])=> items.length ? [`${title}:`, ...items.map(t=> `- ${t}`)] : [];
+  add('insights', { kind:'bullets', title: 'Insights', columns: [{ heading:'Takeaways', items: bullets }, { heading:'Actions', items: actions }, { heading:'Risks', items: risks }],
+    notes: [...list('Takeaways', bullets), ...list('Actions', actions), ...list('Risks', risks)].join('\n') });
+  return out;
+}
+
+/** Pinned Askura charts as slides, drawn from the current table. */
+function pinnedSlides(ds: Dataset, pinned: PinnedChart[]): StorySlide[] {
+  return pinned.map(p=> {
+    const { title, chart } = specChart(ds, p.spec);
+    return { id: p.id as SlideId, label: 'Pinned chart', slide: { kind:'chart', title, chart, caption: p.caption, notes: p.caption } };
+  });
+}
+
+/** The storyboard in the user's order, without dropped slides; slides never placed keep their default position at the end. */
+function arrangeStory(slides: StorySlide[], order: SlideId[], dropped: SlideId[]): StorySlide[] {
+  const rank = (id: SlideId)=> { const i = order.indexOf(id); return i<0 ? order.length + (isStoryId(id) ? STORY_IDS.indexOf(id) : STORY_IDS.length) : i; };
+  return slides.filter(s=> !dropped.includes(s.id)).sort((a,b)=> rank(a.id) - rank(b.id));
+}
+
+function SlidePreview({ slide, color }:{ slide: DeckSlide; color: string }){
+  if(slide.kind==='title') return (
+    <div className="h-full bg-[#0B0D12] text-white p-4 flex flex-col justify-center">
+      <div className="h-1 w-8 mb-2 rounded" style={{background:color}} />
+      <div className="font-semibold leading-tight">{slide.title}</div>
+      {slide.subtitle && <div className="text-[10px] text-white/60 mt-1">{slide.subtitle}</div>}
+    </div>
+  );
+  const caption = slide.kind==='chart' || slide.kind==='kpis' ? slide.caption : undefined;
+  return (
+    <div className="h-full p-3 flex flex-col">
+      <div className="text-[11px] font-semibold mb-1 line-clamp-2 border-l-2 pl-2" style={{borderColor:color}}>{slide.title}</div>
+      {slide.kind==='chart' && <MiniChart chart={slide.chart} className="flex-1 min-h-0 w-full" />}
+      {slide.kind==='kpis' && (
+        <div className="flex-1 grid grid-cols-3 gap-1 items-center">
+          {slide.kpis.map((k,i)=> (<div key={i} className="rounded bg-gray-50 border p-1 text-center"><div className="text-[8px] uppercase text-gray-500 truncate">{k.label}</div><div className="text-xs font-semibold truncate">{k.value}</div></div>))}
+        </div>
+      )}
+      {slide.kind==='bullets' && (
+        <div className="flex-1 grid grid-cols-3 gap-1 text-[8px] leading-tight text-gray-600 overflow-hidden">
+          {slide.columns.map((c,i)=> (<div key={i} className="rounded bg-gray-50 border p-1"><div className="font-semibold mb-0.5" style={{color}}>{c.heading}</div>{c.items.slice(0,3).map((t,j)=> <div key={j}>• {t}</div>)}</div>))}
+        </div>
+      )}
+      {caption && <div className="text-[9px] text-gray-500 truncate mt-1">{caption}</div>}
+    </div>
+  );
+}
+
+function Slides({ story, dropped, onMove, onDrop, onRestore, onReport, gated, color }:{
+  story: StorySlide[]; dropped: StorySlide[];
+  onMove: (id: SlideId, to: number)=>void; onDrop: (id: SlideId)=>void; onRestore: (id: SlideId)=>void;
+  onReport: (size: PageSize, orientation: Orientation)=>Promise<void>; gated:boolean; color:string;
+}){
+  const [pageSize, setPageSize] = useState<PageSize>('a4');
+  const [orientation, setOrientation] = useState<Orientation>('portrait');
+  const [dragging, setDragging] = useState<SlideId|null>(null);
+  const [reportError, setReportError] = useState('');
+  async function report(){
+    if(gated) return;
+    setReportError('');
+    try { await onReport(pageSize, orientation); }
+    catch(e){ setReportError(`Couldn't build the PDF: ${(e as Error).message || 'unknown error'}`); }
+  }
+  function download(){
+    if(gated || !story.length) return;
+    const deck = story.map(s=> s.slide);
+    const bytes = buildPptx(deck, { title: deck[0].title, accent: color });
+    downloadBytes('Chartura_Deck.pptx', bytes, 'application/vnd.openxmlformats-officedocument.presentationml.presentation');
+  }
   return (
     <section className="py-14 px-6 md:px-24 bg-gray-50">
       <div className={`max-w-6xl mx-auto rounded-2xl bg-white p-8 shadow relative ${gated? 'blur-sm pointer-events-none':''}`}>
         <div className="flex items-center justify-between mb-4">
-          <div className="text-lg font-semibold">PowerPoint auto-slides</div>
-          <div className="flex items-center gap-3">
-            <button onClick={onRefresh} className="text-xs underline">Refresh previews</button>
-            <ThemedButton color={color} onClick={download} className="text-sm">Download slides (PNG)</ThemedButton>
+          <div>
+            <div className="text-lg font-semibold">PowerPoint auto-slides</div>
+            <div className="text-xs text-gray-500">{story.length} slides · drag or use the arrows to reorder · editable charts and speaker notes</div>
           </div>
+          <ThemedButton color={color} onClick={download} className="text-sm">Download .pptx</ThemedButton>
         </div>
-        <div className="grid md:grid-cols-3 gap-6">
-          {previews.map((src,i)=>(
-            <div key={i} className="rounded-2xl bg-white p-3 shadow border">
-              <img src={src} className="w-full h-40 object-contain rounded"/>
+        <div className="grid sm:grid-cols-2 md:grid-cols-4 gap-4">
+          {story.map((s,i)=>(
+            <div key={s.id} draggable onDragStart={e=>{ setDragging(s.id); e.dataTransfer.effectAllowed='move'; }} onDragEnd={()=> setDragging(null)}
+              onDragOver={e=>{ if(dragging) e.preventDefault(); }} onDrop={e=>{ e.preventDefault(); if(dragging && dragging!==s.id) onMove(dragging, i); setDragging(null); }}
+              className={`group ${dragging===s.id ? 'opacity-40' : ''}`}>
+              <div className="rounded-xl bg-white shadow border overflow-hidden aspect-video text-gray-900 cursor-grab">
+                <SlidePreview slide={s.slide} color={color} />
+              </div>
+              <div className="mt-1 flex items-center gap-1 text-xs text-gray-500">
+                <span className="mr-auto">{i+1}. {s.label}</span>
+                <button onClick={()=> onMove(s.id, i-1)} disabled={i===0} className="px-1 rounded hover:bg-gray-100 disabled:opacity-30" aria-label={`Move ${s.label} earlier`}>←</button>
+                <button onClick={()=> onMove(s.id, i+1)} disabled={i===story.length-1} className="px-1 rounded hover:bg-gray-100 disabled:opacity-30" aria-label={`Move ${s.label} later`}>→</button>
+                <button onClick={()=> onDrop(s.id)} className="px-1 rounded hover:bg-gray-100" aria-label={`Drop ${s.label}`}>✕</button>
+              </div>
             </div>
           ))}
         </div>
+        {dropped.length>0 && (
+          <div className="mt-4 flex flex-wrap items-center gap-2 text-xs">
+            <span className="text-gray-500">Dropped:</span>
+            {dropped.map(s=> <button key={s.id} onClick={()=> onRestore(s.id)} className="px-2 py-1 rounded-full border hover:bg-gray-50">+ {s.label}</button>)}
+          </div>
+        )}
+        <div className="mt-6 pt-5 border-t flex flex-wrap items-center gap-3">
+          <div className="mr-auto">
+            <div className="font-semibold">PDF report</div>
+            <div className="text-xs text-gray-500">Cover, vector chart, KPIs, the full table and your Askura Q&amp;A</div>
+          </div>
+          <select value={pageSize} onChange={e=> setPageSize(e.target.value as PageSize)} className="border rounded p-2 text-sm" aria-label="Page size">
+            {PAGE_SIZES.map(p=> <option key={p.id} value={p.id}>{p.label}</option>)}
+          </select>
+          <select value={orientation} onChange={e=> setOrientation(e.target.value as Orientation)} className="border rounded p-2 text-sm" aria-label="Orientation">
+            <option value="portrait">Portrait</option>
+            <option value="landscape">Landscape</option>
+          </select>
+          <ThemedButton color={color} onClick={report} className="text-sm">Download PDF</ThemedButton>
+          {reportError && <div role="status" className="basis-full text-right text-xs text-red-600">{reportError}</div>}
+        </div>
       </div>
       {gated && <div className="max-w-6xl mx-auto -mt-56 mb-8 text-center">
         <div className="inline-block bg-white/90 backdrop-blur rounded-xl px-6 py-4 shadow border">Start a free trial to unlock slide exports.</div>
@@ -709,44 +1291,76 @@ function Slides({ chartRef, onRefresh, previews, gated, color }:{ chartRef: Reac
 }
 
 /* =========================
-   Import (CSV) Box
+   Import (CSV/TSV/XLSX) Box
    ========================= */
-function ImportBox({ onRows, onGate }:{ onRows:(rows:Row[])=>void; onGate:()=>void }){
-  function parseCSV(text:string): Row[]{
-    const lines = text.trim().split(/\r?\n/);
-    const headers = lines.shift()?.split(',').map(s=>s.trim().toLowerCase())||[];
-    const idx = (h:string)=> headers.indexOf(h);
-    const out: Row[] = [];
-    for(const line of lines){
-      const cols = line.split(',');
-      const row: Row = {
-        period: cols[idx('period')]?.trim() || cols[0]?.trim() || '',
-        revenue: num(cols[idx('revenue')]||'0'),
-        units: num(cols[idx('units')]||'0'),
-        supplier: (cols[idx('supplier')]||'')?.trim()||'Unknown',
-        costPrice: num(cols[idx('costprice')]||cols[idx('cost_price')]||'0'),
-        staffExp: num(cols[idx('staffexp')]||cols[idx('staff_exp')]||'0'),
-      };
-      if(row.period) out.push(row);
-    }
-    return out.length? out: defaultRows();
+function ImportBox({ current, onDataset, onGate }:{ current: Dataset; onDataset:(d:Dataset, coercions:Coercion[])=>void; onGate:()=>void }){
+  const [table, setTable] = useState<RawTable|null>(null);
+  const [mappings, setMappings] = useState<ColumnMapping[]>([]);
+  const [workbook, setWorkbook] = useState<{ fileName:string; sheets: XlsxSheet[]; pick:number }|null>(null);
+  const [issues, setIssues] = useState<ImportIssue[]>([]);
+  const [error, setError] = useState('');
+
+  function review(t: RawTable){
+    if(!t.headers.length || !t.rows.length){ setError(`${t.name} has no data rows.`); return; }
+    setTable(t); setMappings(suggestMapping(t, current));
   }
   async function handleFile(f: File){
     const ext = f.name.split('.').pop()?.toLowerCase();
-    if(ext==='csv'){
-      const txt = await f.text();
-      const rows = parseCSV(txt);
-      onRows(rows);
-      onGate(); // gate premium features after import
+    setIssues([]); setError(''); setTable(null); setWorkbook(null);
+    if(ext==='csv'||ext==='tsv'||ext==='txt'){
+      const { text, encoding } = decodeText(await f.arrayBuffer());
+      const parsed = parseDelimited(text, ext==='tsv'? '\t' : undefined);
+      review(tableFromParsed(f.name, parsed, `${delimiterName(parsed.delimiter)}-delimited, ${encoding}`));
+    } else if(ext==='xlsx'){
+      try {
+        const sheets = (await readXlsx(await f.arrayBuffer())).filter(sh=> sh.rows.length);
+        if(!sheets.length){ setError(`${f.name} has no sheets with data.`); return; }
+        if(sheets.length===1) review(tableFromSheet(f.name, sheets[0]));
+        else setWorkbook({ fileName: f.name, sheets, pick: Math.max(0, sheets.findIndex(sh=> !sh.hidden)) });
+      } catch(e){
+        setError(`Could not read ${f.name}: ${e instanceof Error ? e.message : 'unknown error'}`);
+      }
     } else {
-      alert('For the demo, please upload CSV. (Excel supported in the full product).');
+      setError('Unsupported file type. Upload .csv, .tsv or .xlsx (legacy .xls files must be re-saved as .xlsx).');
     }
   }
+  function confirm(){
+    if(!table) return;
+    const res = applyMapping(table, mappings);
+    setIssues(res.issues);
+    if(!res.dataset.rows.length){ setError('No rows could be imported — check the issues below.'); return; }
+    setTable(null); setWorkbook(null);
+    onDataset(res.dataset, res.coercions);
+    onGate(); // gate premium features after import
+  }
   return (
     <div className="rounded-2xl border-2 border-dashed p-5 text-center">
       <div className="font-semibold mb-1">Import your data</div>
-      <div className="text-sm text-gray-600 mb-3">Upload a CSV to populate the table and charts. (Excel supported in the full product)</div>
-      <input type="file" accept=".csv,.xlsx" onChange={e=>{ const f=e.target.files?.[0]; if(f) handleFile(f); }} className="mx-auto"/>
+      <div className="text-sm text-gray-600 mb-3">Upload an Excel workbook, CSV or TSV to populate the table and charts.</div>
+      <input type="file" accept=".csv,.tsv,.txt,.xlsx" onChange={e=>{ const f=e.target.files?.[0]; if(f) handleFile(f); e.target.value=''; }} className="mx-auto"/>
+      {workbook && !table && (
+        <div className="mt-4 flex flex-wrap items-center justify-center gap-2 text-sm">
+          <span className="text-gray-600">{workbook.fileName} has {workbook.sheets.length} sheets:</span>
+          <select value={workbook.pick} onChange={e=> setWorkbook({ ...workbook, pick: +e.target.value })} className="border rounded p-1">
+            {workbook.sheets.map((sh,i)=> (<option key={i} value={i}>{sh.name}{sh.hidden?' (hidden)':''} — {Math.max(0, sh.rows.length-1)} rows</option>))}
+          </select>
+          <button onClick={()=> review(tableFromSheet(workbook.fileName, workbook.sheets[workbook.pick]))} className="px-3 py-1 rounded-lg border hover:bg-gray-50">Use sheet</button>
+        </div>
+      )}
+      {table && (
+        <div className="mt-4">
+          <ColumnMapper table={table} mappings={mappings} current={current} onChange={setMappings} onConfirm={confirm} onCancel={()=> setTable(null)} />
+        </div>
+      )}
+      {error && <div className="mt-3 text-sm text-red-600">{error}</div>}
+      {issues.length>0 && (
+        <div className="mt-3 text-left text-xs rounded-lg border border-amber-200 bg-amber-50 p-3">
+          <div className="font-semibold text-amber-800 mb-1">{issues.length} import issue{issues.length===1?'':'s'}</div>
+          <ul className="space-y-0.5 text-amber-900 max-h-32 overflow-y-auto">
+            {issues.map((it,i)=> (<li key={i}>Row {it.row}{it.column?` • ${it.column}`:''}: {it.message}</li>))}
+          </ul>
+        </div>
+      )}
     </div>
   );
 }
@@ -755,33 +1369,252 @@ function ImportBox({ onRows, onGate }:{ onRows:(rows:Row[])=>void; onGate:()=>vo
    Page
    ========================= */
 export default function HomePage(){
-  const [colorA, setColorA] = useState('#6B7280'); // default grey
-  const [colorB, setColorB] = useState('#1ABC9C');
-
-  const [rows, setRows] = useState(defaultRows());
+  const [history, setHistory] = useState<History<Dataset>>(()=> createHistory(applyFormulas(sampleDataset())));
+  const dataset = history.present;
+  const [coercions, setCoercions] = useState<Coercion[]>([]);
 
   const [mode, setMode] = useState<Mode>('line');
-  const [yA, setYA] = useState<MetricKey>('units');
-  const [secondaryOn, setSecondaryOn] = useState<boolean>(false);
-  const [yB, setYB] = useState<MetricKey>('revenue');
-  const [useRightAxis, setUseRightAxis] = useState<boolean>(false);
+  const [seriesSettings, setSeriesSettings] = useState<SeriesSetting[]>(DEFAULT_SERIES);
   const [showGrid, setShowGrid] = useState(true);
   const [pointSize, setPointSize] = useState(6);
+  const [grain, setGrain] = useState<GrainChoice>('auto');
+  const [tickCount, setTickCount] = useState(5);
+  const [splitBy, setSplitBy] = useState('');
+  const [gridFilters, setGridFilters] = useState<Record<string, string>>({});
+  const [chartFilters, setChartFilters] = useState<Record<string, string>>({});
+  const [pinned, setPinned] = useState<PinnedChart[]>([]);
 
   const [gated, setGated] = useState(false);
 
-  const series = useMemo(()=> buildSeries(rows, yA, secondaryOn ? yB : undefined), [rows, yA, yB, secondaryOn]);
+  // Series whose metric an import dropped fall back to the first numeric columns
+  const metricOptions: MetricKey[] = useMemo(()=> numericColumns(dataset).map(c=> c.key), [dataset]);
+  const activeSeries = useMemo(()=> metricOptions.length ? seriesSettings.map((st,i)=> metricOptions.includes(st.metric) ? st : { ...st, metric: metricOptions[Math.min(i, metricOptions.length-1)] }) : [], [seriesSettings, metricOptions]);
+  const metricA = activeSeries[0]?.metric ?? '';
+  const colorA = activeSeries[0]?.color ?? SERIES_COLORS[0];
+  const colorB = activeSeries[1]?.color ?? '#1ABC9C';
+  const xLabel = periodColumn(dataset)?.label ?? 'Row';
+
+  const currentChart = useMemo(()=> chartView(dataset, activeSeries, mode, grain, splitBy, chartFilters), [dataset, activeSeries, mode, grain, splitBy, chartFilters]);
+  const { split, splitCol, series, chartSeries } = currentChart;
+  const horizontal = verticalMode(mode)!==mode;
+  const storyboard = useMemo(()=> [...buildStoryboard(dataset, currentChart, metricA, colorA), ...pinnedSlides(dataset, pinned)], [dataset, currentChart, metricA, colorA, pinned]);
+  const [storyOrder, setStoryOrder] = useState<SlideId[]>([]);
+  const [storyDropped, setStoryDropped] = useState<SlideId[]>([]);
+  const story = useMemo(()=> arrangeStory(storyboard, storyOrder, storyDropped), [storyboard, storyOrder, storyDropped]);
+  // Dropping a pinned chart unpins it; generated slides can be restored
+  function dropSlide(id: SlideId){
+    if(isStoryId(id)) setStoryDropped(d=> [...d, id]);
+    else { setPinned(ps=> ps.filter(p=> p.id!==id)); setStoryOrder(o=> o.filter(x=> x!==id)); }
+  }
+  function pinChart(spec: ChartSpec, caption: string){
+    setPinned(ps=> [...ps, { id: `pin-${Date.now().toString(36)}`, spec, caption }]);
+  }
+  function applySpec(spec: ChartSpec){
+    const c = specControls(dataset, spec);
+    setMode(c.mode); setSeriesSettings(c.series); setSplitBy(c.splitBy); setChartFilters(c.filters);
+  }
+  function moveSlide(id: SlideId, to: number){
+    const ids = story.map(s=> s.id).filter(x=> x!==id);
+    ids.splice(Math.max(0, Math.min(to, ids.length)), 0, id);
+    setStoryOrder(ids);
+  }
+  const naturalGrain = useMemo(()=> datasetTimeline(dataset)?.grain ?? null, [dataset]);
+  function updateSeries(i: number, patch: Partial<SeriesSetting>){
+    setSeriesSettings(activeSeries.map((st,j)=> j===i ? { ...st, ...patch } : st));
+  }
+  function addSeries(){
+    const used = new Set(activeSeries.map(st=> st.metric));
+    const metric = metricOptions.find(k=> !used.has(k)) ?? metricOptions[0];
+    const color = SERIES_COLORS.find(c=> !activeSeries.some(st=> st.color===c)) ?? SERIES_COLORS[activeSeries.length % SERIES_COLORS.length];
+    setSeriesSettings([...activeSeries, { metric, color, axis: activeSeries.length ? 'right' : 'left', render: activeSeries.length ? 'bar' : 'line' }]);
+  }
+  function removeSeries(i: number){ setSeriesSettings(activeSeries.filter((_,j)=> j!==i)); }
+  function setRollup(key: MetricKey, agg: Aggregation){
+    editDataset({ ...dataset, columns: dataset.columns.map(c=> c.key===key ? { ...c, agg } : c) });
+  }
+  function setFormat(key: MetricKey, preset: string){
+    const format = FORMAT_PRESETS.find(p=> p.id===preset)?.format;
+    editDataset({ ...dataset, columns: dataset.columns.map(c=> c.key===key ? { ...c, format } : c) });
+  }
 
   const svgRef = useRef<SVGSVGElement|null>(null);
-  const [previews, setPreviews] = useState<string[]>([]);
-  async function refreshPreviews(){ if(svgRef.current){ const d=await svgToPng(svgRef.current); setPreviews([d,d,d]); } }
-  useEffect(()=>{ refreshPreviews(); }, [rows, mode, yA, yB, colorA, colorB, showGrid, secondaryOn, useRightAxis, pointSize]);
+  const [transcript, setTranscript] = useState<TranscriptEntry[]>([]);
+  async function downloadReport(size: PageSize, orientation: Orientation){
+    const cover = storyboard.find(s=> s.id==='title')?.slide;
+    const svg = svgRef.current ?? undefined;
+    // Marks painted on a canvas can't be redrawn as vectors, so such a chart goes in as an image
+    const chartImage = svg && hasRasterMarks(svg) ? await svgToJpeg(svg) : undefined;
+    const bytes = buildReport({
+      title: cover?.title ?? 'Chartura report', subtitle: cover?.kind==='title' ? cover.subtitle : undefined,
+      dataset, chart: svg, chartImage, chartTitle: currentChart.title, kpis: kpiCards(dataset, metricA), transcript,
+    }, { size, orientation, accent: colorB });
+    downloadBytes('Chartura_Report.pdf', bytes, 'application/pdf');
+  }
+
+  // Every edit is undoable; imports start a fresh history
+  function editDataset(next: Dataset){
+    next = applyFormulas(next);
+    setCoercions(cs=> rebaseCoercions(cs, dataset.rows, next.rows));
+    setHistory(h=> record(h, next));
+  }
+  function stepHistory(step: typeof undo){
+    const next = step(history);
+    if(next===history) return;
+    setCoercions(cs=> rebaseCoercions(cs, dataset.rows, next.present.rows));
+    setHistory(next);
+  }
+  // Formula columns carry over to an imported table when every column they read is still there
+  function importDataset(next: Dataset, cs: Coercion[]){
+    const kept = dataset.columns.filter(c=> c.formula!=null && !columnByKey(next, c.key) && !formulaError(next.columns, c.key, c.formula));
+    // Validation rules stay with columns of the same key and type; a clean period column gets its own
+    const columns = next.columns.map(c=>{ const old = columnByKey(dataset, c.key); return !c.rules && old?.rules && old.type===c.type ? { ...c, rules: old.rules } : c; });
+    next = suggestRules({ ...next, columns });
+    setHistory(createHistory(applyFormulas(kept.length ? { ...next, columns: [...next.columns, ...kept] } : next)));
+    setCoercions(cs);
+  }
+  function resolveCoercions(items: Coercion[], action: 'accept'|'revert'){
+    if(action==='revert'){
+      const byRow = new Map<Row, Coercion[]>();
+      items.forEach(c=> byRow.set(c.row, [...(byRow.get(c.row) ?? []), c]));
+      editDataset({ ...dataset, rows: dataset.rows.map(r=> {
+        const cs = byRow.get(r); if(!cs) return r;
+        const next = { ...r }; cs.forEach(c=> { next[c.column] = isNumeric(columnByKey(dataset, c.column)) ? null : c.raw; });
+        return next;
+      }) });
+    }
+    const done = new Set(items);
+    setCoercions(cs=> cs.filter(c=> !done.has(c)));
+  }
+
+  /* ---- Workspaces: autosaved to IndexedDB, reopened on load, and portable as project files */
+  const [workspace, setWorkspace] = useState(()=> ({ id: newWorkspaceId(), name: 'My workspace' }));
+  const [workspaces, setWorkspaces] = useState<WorkspaceInfo[]>([]);
+  const [saveState, setSaveState] = useState<{ status: string; error?: string }>({ status: '' });
+  const [restored, setRestored] = useState(false);
+  const [askuraSeed, setAskuraSeed] = useState<{ key: number; messages: TranscriptEntry[] }>({ key: 0, messages: [] });
+  const project: Project = useMemo(()=> ({
+    name: workspace.name, dataset,
+    chart: { mode, series: seriesSettings, showGrid, pointSize, grain, tickCount, splitBy, filters: chartFilters },
+    story: { order: storyOrder, dropped: storyDropped, pinned }, transcript,
+  }), [workspace.name, dataset, mode, seriesSettings, showGrid, pointSize, grain, tickCount, splitBy, chartFilters, storyOrder, storyDropped, pinned, transcript]);
+
+  // Settings a page can't show (an unknown mode, out-of-range sliders) fall back to defaults
+  const applyChart = useCallback((chart: ProjectChart)=>{
+    const clamp = (v: number, lo: number, hi: number)=> Math.max(lo, Math.min(hi, Math.round(v)));
+    setMode(ALL_MODES.includes(chart.mode as Mode) ? chart.mode as Mode : 'line');
+    setSeriesSettings(chart.series.length ? chart.series.slice(0, MAX_SERIES) : DEFAULT_SERIES);
+    setShowGrid(chart.showGrid);
+    setPointSize(clamp(chart.pointSize, 3, 12));
+    setGrain(chart.grain==='auto' || GRANULARITIES.includes(chart.grain as Granularity) ? chart.grain as GrainChoice : 'auto');
+    setTickCount(clamp(chart.tickCount, 2, 10));
+    setSplitBy(chart.splitBy);
+    setChartFilters(chart.filters ?? {});
+  }, []);
+  const applyProject = useCallback((p: Project, id: string)=>{
+    setWorkspace({ id, name: p.name });
+    setHistory(createHistory(applyFormulas(p.dataset)));
+    setCoercions([]);
+    setGridFilters({});
+    applyChart(p.chart);
+    const pins = p.story.pinned ?? [];
+    const known = (id: string): id is SlideId => isStoryId(id) || pins.some(x=> x.id===id);
+    setPinned(pins);
+    setStoryOrder(p.story.order.filter(known));
+    setStoryDropped(p.story.dropped.filter(isStoryId));
+    setTranscript(p.transcript);
+    setAskuraSeed(s=> ({ key: s.key+1, messages: p.transcript }));
+  }, [applyChart]);
+  // A share link in the URL wins over the restored workspace: with data it opens as a new
+  // workspace, otherwise its chart settings apply to the table already open
+  useEffect(()=>{
+    let live = true;
+    (async ()=>{
+      try {
+        const last = await lastWorkspace();
+        if(live && last) applyProject(last, last.id);
+      } catch(e){ if(live) setSaveState({ status: '', error: `Couldn't restore your workspace: ${(e as Error).message}` }); }
+      try {
+        const shared = await decodeShare(window.location.hash);
+        if(live && shared){
+          if(shared.dataset) applyProject({ name: 'Shared chart', dataset: shared.dataset, chart: shared.chart, story: { order: [], dropped: [] }, transcript: [] }, newWorkspaceId());
+          else applyChart(shared.chart);
+          setGridFilters(shared.filters);
+          window.history.replaceState(null, '', window.location.pathname + window.location.search);
+        }
+      } catch(e){ if(live) setSaveState({ status: '', error: `Couldn't open the link: ${(e as Error).message}` }); }
+      if(live) setRestored(true);
+    })();
+    listWorkspaces().then(ws=> { if(live) setWorkspaces(ws); }, ()=> {});
+    return ()=>{ live = false; };
+  }, [applyProject, applyChart]);
+  // Autosave shortly after the last change, once the saved workspace (if any) has been restored
+  const autosaveRef = useRef<ReturnType<typeof setTimeout>>(undefined);
+  useEffect(()=>{
+    if(!restored) return;
+    const t = autosaveRef.current = setTimeout(()=>{
+      saveWorkspace(workspace.id, project)
+        .then(info=>{ setSaveState({ status: `Saved ${new Date(info.savedAt).toLocaleTimeString(undefined, { timeStyle: 'short' })}` }); return listWorkspaces(); })
+        .then(setWorkspaces)
+        .catch((e: Error)=> setSaveState({ status: '', error: `Not saved: ${e.message}` }));
+    }, AUTOSAVE_MS);
+    return ()=> clearTimeout(t);
+  }, [project, restored, workspace.id]);
+  /** Saves the open workspace now, so switching away never drops a pending autosave. */
+  async function leaveWorkspace(){
+    try { await saveWorkspace(workspace.id, project); } catch { /* storage unavailable; the switch still happens */ }
+  }
+  /** Opens a saved workspace; false when it couldn't be. */
+  async function showWorkspace(id: string){
+    try {
+      const p = await loadWorkspace(id);
+      if(p){ applyProject(p, id); return true; }
+    } catch(e){ setSaveState({ status: '', error: `Couldn't open workspace: ${(e as Error).message}` }); }
+    return false;
+  }
+  /** A fresh workspace with the sample data, named after the `saved` workspaces already there. */
+  function startWorkspace(saved: number){
+    applyProject({
+      name: `Workspace ${saved + 1}`, dataset: applyFormulas(sampleDataset()),
+      chart: { mode: 'line', series: DEFAULT_SERIES, showGrid: true, pointSize: 6, grain: 'auto', tickCount: 5, splitBy: '' },
+      story: { order: [], dropped: [] }, transcript: [],
+    }, newWorkspaceId());
+  }
+  async function openWorkspace(id: string){
+    await leaveWorkspace();
+    await showWorkspace(id);
+  }
+  async function newWorkspace(){
+    await leaveWorkspace();
+    startWorkspace(workspaces.length + (workspaces.some(w=> w.id===workspace.id) ? 0 : 1));
+  }
+  // Switches without leaveWorkspace: saving the open (deleted) workspace would bring it back
+  async function removeWorkspace(id: string){
+    clearTimeout(autosaveRef.current);
+    try { await deleteWorkspace(id); } catch(e){ setSaveState({ status: '', error: `Couldn't delete: ${(e as Error).message}` }); return; }
+    const rest = workspaces.filter(w=> w.id!==id);
+    setWorkspaces(rest);
+    if(!rest[0] || !await showWorkspace(rest[0].id)) startWorkspace(rest.length);
+  }
+  async function shareLink(withData: boolean){
+    const hash = await encodeShare({ chart: project.chart, filters: gridFilters, dataset: withData ? dataset : undefined });
+    return `${window.location.origin}${window.location.pathname}${window.location.search}${hash}`;
+  }
+  function exportProject(){
+    downloadBytes(`${exportName(workspace.name, 'workspace')}${PROJECT_EXTENSION}`, new TextEncoder().encode(serializeProject(project)), 'application/json');
+  }
+  async function importProject(file: File){
+    try {
+      const p = parseProject(await file.text());
+      await leaveWorkspace();
+      applyProject(p, newWorkspaceId());
+    } catch(e){ setSaveState({ status: '', error: `Couldn't open ${file.name}: ${(e as Error).message}` }); }
+  }
 
   function goTry(){ const el=document.getElementById('try'); if(el) el.scrollIntoView({behavior:'smooth'}); }
 
   return (
     <div className="font-inter min-h-screen">
-      <HeroIntro onCTABottom={goTry} rows={rows} color={colorB} />
+      <HeroIntro onCTABottom={goTry} dataset={dataset} color={colorB} />
       <HowItWorks onTry={goTry} color={colorB} />
       <WhySection />
 
@@ -790,96 +1623,157 @@ export default function HomePage(){
           <h2 className="text-4xl font-extrabold">Interactive demo</h2>
           <p className="text-gray-600">Choose metrics, tweak styles, and explore insights. Everything updates as you edit the table or import CSV.</p>
         </div>
+        <WorkspaceBar current={workspace} workspaces={workspaces} status={saveState.status} error={saveState.error}
+          onRename={name=> setWorkspace(w=> ({ ...w, name }))} onOpen={openWorkspace} onNew={newWorkspace} onDelete={removeWorkspace}
+          onExport={exportProject} onImport={importProject} />
 
         <div className="grid lg:grid-cols-2 gap-6 items-start">
           {/* LEFT: controls + chart */}
           <div className={`bg-white p-5 rounded-2xl shadow border ${gated? 'pointer-events-none opacity-60':''}`}>
             <div className="flex flex-wrap items-center gap-2 mb-3">
-              {(['line','area','bar','scatter','dual','pie'] as Mode[]).map(val=> (
-                <button key={val} onClick={()=>setMode(val)} className={`px-4 py-2 rounded-full capitalize border transition-colors ${mode===val? 'bg-emerald-500 text-white border-emerald-500':'bg-white hover:bg-gray-100'}`}>{val}</button>
+              {MODE_BUTTONS.map(({ mode: val, label })=> (
+                <button key={val} onClick={()=>setMode(horizontal && HORIZONTAL[val] ? HORIZONTAL[val] : val)} className={`px-4 py-2 rounded-full capitalize border transition-colors ${verticalMode(mode)===val? 'bg-emerald-500 text-white border-emerald-500':'bg-white hover:bg-gray-100'}`}>{label}</button>
               ))}
-              <ThemedButton color={colorA} onClick={async()=>{ if(gated) return; if(svgRef.current){ const d=await svgToPng(svgRef.current); downloadDataUrl('chartura-chart.png', d); } }} className="ml-auto text-sm">Download PNG</ThemedButton>
+              {HORIZONTAL[verticalMode(mode)] && (
+                <label className="text-sm inline-flex items-center gap-2">Horizontal
+                  <input type="checkbox" checked={horizontal} onChange={e=>setMode(e.target.checked ? HORIZONTAL[verticalMode(mode)]! : verticalMode(mode))} />
+                </label>
+              )}
+              <ChartExport getSvg={()=> svgRef.current} filename="chartura-chart" accent={colorA} disabled={gated} className="ml-auto" getLink={shareLink} />
             </div>
 
             <PremiumChart
-              series={series}
+              points={series.points}
+              series={chartSeries}
+              grain={series.grain}
+              fiscal={series.fiscal}
+              tickCount={tickCount}
               mode={mode}
-              colorA={colorA}
-              colorB={colorB}
-              xLabel="Year"
-              yLabelLeft={METRIC_LABEL[yA]}
-              yLabelRight={secondaryOn? METRIC_LABEL[yB] : undefined}
+              xLabel={xLabel}
               showGrid={showGrid}
-              useRightAxis={secondaryOn && useRightAxis}
               pointSize={pointSize}
               onRef={el=> (svgRef.current = el)}
             />
 
-            <div className="flex flex-wrap items-center gap-3 mt-4">
-              <div className="inline-flex items-center gap-2">
-                <span className="text-xs text-gray-500">Primary</span>
-                {['#6B7280','#1ABC9C','#6366F1','#ef4444','#f59e0b','#0ea5e9','#334155'].map(c=> (
-                  <button key={c} onClick={()=>setColorA(c)} className="w-6 h-6 rounded-md border hover:brightness-110" style={{background:c}} />
-                ))}
+            {mode!=='pie' && (
+              <div className="mt-4 space-y-2">
+                {(split ? activeSeries.slice(0,1) : activeSeries).map((st,i)=> { const c=columnByKey(dataset, st.metric); return (
+                  <div key={i} className="flex flex-wrap items-end gap-2 border-b pb-2">
+                    <label className="text-xs text-gray-600">Series {i+1}
+                      <select value={st.metric} onChange={e=>updateSeries(i, { metric: e.target.value })} className="mt-1 border rounded p-2 block">
+                        {metricOptions.map(k=> (<option key={k} value={k}>{columnLabel(dataset, k)}</option>))}
+                      </select>
+                    </label>
+                    {!split && (
+                      <div className="inline-flex items-center gap-1 pb-2">
+                        {SERIES_COLORS.map(col=> (
+                          <button key={col} onClick={()=>updateSeries(i, { color: col })} aria-label={`Color ${col}`} className={`w-5 h-5 rounded-md border hover:brightness-110 ${st.color===col?'ring-2 ring-offset-1 ring-gray-400':''}`} style={{background:col}} />
+                        ))}
+                      </div>
+                    )}
+                    {mode==='dual' && (
+                      <label className="text-xs text-gray-600">Draw as
+                        <select value={st.render} onChange={e=>updateSeries(i, { render: e.target.value as SeriesRender })} className="mt-1 border rounded p-2 block">
+                          {SERIES_RENDERS.map(r=> (<option key={r} value={r}>{r}</option>))}
+                        </select>
+                      </label>
+                    )}
+                    {!split && DUAL_AXIS_MODES.includes(mode) && (
+                      <label className="text-xs text-gray-600">Axis
+                        <select value={st.axis} onChange={e=>updateSeries(i, { axis: e.target.value as SeriesAxis })} className="mt-1 border rounded p-2 block">
+                          <option value="left">Left</option>
+                          <option value="right">Right</option>
+                        </select>
+                      </label>
+                    )}
+                    {c && (
+                      <label className="text-xs text-gray-600">Per period
+                        <select value={defaultAggregation(c)} onChange={e=>setRollup(c.key, e.target.value as Aggregation)} className="mt-1 border rounded p-2 block">
+                          {AGGREGATIONS.map(a=> (<option key={a} value={a}>{a==='avg'?'average':a}</option>))}
+                        </select>
+                      </label>
+                    )}
+                    {c && (
+                      <label className="text-xs text-gray-600">Format
+                        <select value={presetOf(c.format) ?? ''} onChange={e=>setFormat(c.key, e.target.value)} className="mt-1 border rounded p-2 block">
+                          <option value="">Auto ({c.type})</option>
+                          {FORMAT_PRESETS.map(p=> (<option key={p.id} value={p.id}>{p.label}</option>))}
+                        </select>
+                      </label>
+                    )}
+                    {!split && activeSeries.length>1 && (
+                      <button onClick={()=>removeSeries(i)} className="ml-auto text-xs text-gray-500 hover:text-red-600 pb-2">Remove</button>
+                    )}
+                  </div>
+                ); })}
+                {!split && activeSeries.length < MAX_SERIES && metricOptions.length>0 && (
+                  <button onClick={addSeries} className="text-sm px-3 py-1 rounded-full border hover:bg-gray-50">+ Add series</button>
+                )}
               </div>
-              {(['line','area','bar','scatter','dual'] as Mode[]).includes(mode) && (
-                <label className="ml-2 text-sm inline-flex items-center gap-2">Add secondary
-                  <input type="checkbox" checked={secondaryOn} onChange={e=>setSecondaryOn(e.target.checked)} />
+            )}
+
+            <div className="flex flex-wrap items-center gap-3 mt-4">
+              {mode==='pie' && (
+                <label className="text-xs text-gray-600">Metric
+                  <select value={metricA} onChange={e=>updateSeries(0, { metric: e.target.value })} className="mt-1 border rounded p-2">
+                    {metricOptions.map(k=> (<option key={k} value={k}>{columnLabel(dataset, k)}</option>))}
+                  </select>
                 </label>
               )}
-              {secondaryOn && (
-                <div className="inline-flex items-center gap-2">
-                  <span className="text-xs text-gray-500">Secondary</span>
-                  {['#1ABC9C','#6366F1','#ef4444','#f59e0b','#0ea5e9','#6B7280','#334155'].map(c=> (
-                    <button key={c} onClick={()=>setColorB(c)} className="w-6 h-6 rounded-md border hover:brightness-110" style={{background:c}} />
-                  ))}
-                </div>
-              )}
               <label className="ml-2 text-sm inline-flex items-center gap-2">Grid
                 <input type="checkbox" checked={showGrid} onChange={e=>setShowGrid(e.target.checked)} />
               </label>
-              {mode!=='pie' && secondaryOn && (
-                <label className="ml-2 text-sm inline-flex items-center gap-2">Use right axis
-                  <input type="checkbox" checked={useRightAxis} onChange={e=>setUseRightAxis(e.target.checked)} />
-                </label>
-              )}
-              {mode==='scatter' && (
+              {(mode==='scatter' || (mode==='dual' && activeSeries.some(st=> st.render==='scatter'))) && (
                 <label className="ml-2 text-sm inline-flex items-center gap-2">Point size
                   <input type="range" min={3} max={12} value={pointSize} onChange={e=>setPointSize(+e.target.value)} />
                 </label>
               )}
-
-              <label className="text-xs text-gray-600">Primary metric (A)
-                <select value={yA} onChange={e=>setYA(e.target.value as MetricKey)} className="mt-1 border rounded p-2">
-                  {Object.keys(METRIC_LABEL).map(k=> (<option key={k} value={k}>{METRIC_LABEL[k as MetricKey]}</option>))}
-                </select>
-              </label>
-              {secondaryOn && (
-                <label className="text-xs text-gray-600">Secondary metric (B)
-                  <select value={yB} onChange={e=>setYB(e.target.value as MetricKey)} className="mt-1 border rounded p-2">
-                    {Object.keys(METRIC_LABEL).map(k=> (<option key={k} value={k}>{METRIC_LABEL[k as MetricKey]}</option>))}
+              {naturalGrain && (
+                <label className="text-xs text-gray-600">Period
+                  <select value={grain} onChange={e=>setGrain(e.target.value as GrainChoice)} className="mt-1 border rounded p-2">
+                    <option value="auto">Auto ({grainLabel(naturalGrain).toLowerCase()})</option>
+                    {GRANULARITIES.filter(g=> grainRank(g) > grainRank(naturalGrain)).map(g=> (<option key={g} value={g}>{grainLabel(g)}</option>))}
+                  </select>
+                </label>
+              )}
+              {categoryColumns(dataset).length>0 && (
+                <label className="text-xs text-gray-600">Split by
+                  <select value={splitCol?.key ?? ''} onChange={e=>setSplitBy(e.target.value)} className="mt-1 border rounded p-2">
+                    <option value="">None</option>
+                    {categoryColumns(dataset).map(c=> (<option key={c.key} value={c.key}>{c.label}</option>))}
                   </select>
                 </label>
               )}
+              {mode!=='pie' && (
+                <label className="text-sm inline-flex items-center gap-2">Ticks
+                  <input type="range" min={2} max={10} value={tickCount} onChange={e=>setTickCount(+e.target.value)} />
+                </label>
+              )}
 
-              <div className="text-xs text-gray-500">Chart shows <b>{METRIC_LABEL[yA]}</b> by <b>Year</b>{secondaryOn? <> with <b>{METRIC_LABEL[yB]}</b>{useRightAxis?' on right axis':''}</> : null}.</div>
+              <div className="text-xs text-gray-500">Chart shows {split ? <><b>{columnLabel(dataset, metricA)}</b> by <b>{mode==='pie' ? splitCol?.label : xLabel}</b>{mode!=='pie' && <>, split by <b>{splitCol?.label}</b></>}.</> : <>{mode==='pie' ? <b>{columnLabel(dataset, metricA)}</b> : activeSeries.map((st,i)=> <React.Fragment key={i}>{i>0 ? (i===activeSeries.length-1 ? ' and ' : ', ') : null}<b>{columnLabel(dataset, st.metric)}</b>{DUAL_AXIS_MODES.includes(mode) && st.axis==='right' && activeSeries.some(o=> o.axis==='left') ? ' (right axis)' : ''}</React.Fragment>)} by <b>{xLabel}</b>.</>}
+                {Object.keys(chartFilters).length>0 && <> Only rows where {describeFilters(dataset, chartFilters)}. <button onClick={()=> setChartFilters({})} className="underline">Show all rows</button></>}
+              </div>
             </div>
           </div>
 
           {/* RIGHT: import + data grid + Askura under it */}
           <div className="space-y-4">
-            <ImportBox onRows={(r)=> setRows(r)} onGate={()=> setGated(true)} />
+            <ImportBox current={dataset} onDataset={importDataset} onGate={()=> setGated(true)} />
             <div className="bg-white p-5 rounded-2xl shadow border">
               <div className="mb-2 text-sm font-semibold">Excel-style data</div>
-              <DataGrid rows={rows} setRows={setRows} color={colorA} />
+              <DataGrid dataset={dataset} setDataset={editDataset} color={colorA} filters={gridFilters} setFilters={setGridFilters} coercions={coercions} onResolve={resolveCoercions}
+                onUndo={()=> stepHistory(undo)} onRedo={()=> stepHistory(redo)} canUndo={history.past.length>0} canRedo={history.future.length>0} />
             </div>
-            <Askura rows={rows} context={{mode,yA,yB: secondaryOn? yB: undefined, secondaryOn}} color={colorB} />
+            <Askura key={askuraSeed.key} initial={askuraSeed.messages} dataset={dataset} context={{mode, yA: metricA, yB: activeSeries[1]?.metric, secondaryOn: activeSeries.length>1, series: activeSeries, split: splitCol?.key}} color={colorB} onTranscript={setTranscript}
+              onApplyChart={applySpec} onPinChart={pinChart} />
           </div>
         </div>
       </section>
 
-      <InsightsSection rows={rows} gated={gated} />
-      <Slides chartRef={svgRef} onRefresh={refreshPreviews} previews={previews} gated={gated} color={colorB} />
+      <InsightsSection dataset={dataset} gated={gated} />
+      <Slides story={story} dropped={storyboard.filter(s=> storyDropped.includes(s.id))} onMove={moveSlide}
+        onDrop={dropSlide} onRestore={id=> setStoryDropped(d=> d.filter(x=> x!==id))}
+        onReport={downloadReport} gated={gated} color={colorB} />
     </div>
   );
 }
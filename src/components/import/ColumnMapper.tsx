@@ -0,0 +1,101 @@
+import { COLUMN_TYPES, type ColumnType, type Dataset, toKey, uniqueKey } from '../../lib/dataset';
+import type { ColumnMapping, RawTable } from '../../lib/importer';
+
+type ColumnMapperProps = {
+  table: RawTable;
+  mappings: ColumnMapping[];
+  current: Dataset;
+  onChange: (next: ColumnMapping[]) => void;
+  onConfirm: () => void;
+  onCancel: () => void;
+};
+
+const NEW = '__new__';
+const SKIP = '__skip__';
+
+export default function ColumnMapper({ table, mappings, current, onChange, onConfirm, onCancel }: ColumnMapperProps) {
+  const isExisting = (m: ColumnMapping) => m.key != null && current.columns.some(c => c.key === m.key);
+
+  function setTarget(i: number, target: string) {
+    const next = mappings.slice();
+    const header = table.headers[next[i].source]?.trim() || `Column ${next[i].source + 1}`;
+    const existing = current.columns.find(c => c.key === target);
+    if (target === SKIP) next[i] = { ...next[i], key: null };
+    else if (existing) next[i] = { ...next[i], key: existing.key, label: existing.label, type: existing.type };
+    else {
+      const taken = [...current.columns.map(c => c.key), ...mappings.filter((_, j) => j !== i).map(m => m.key ?? '')];
+      next[i] = { ...next[i], key: uniqueKey(toKey(header), taken), label: header };
+    }
+    onChange(next);
+  }
+
+  function setType(i: number, type: ColumnType) {
+    const next = mappings.slice();
+    next[i] = { ...next[i], type };
+    onChange(next);
+  }
+
+  const targets = mappings.map(m => m.key).filter(Boolean);
+  const duplicate = (key: string | null) => key != null && targets.indexOf(key) !== targets.lastIndexOf(key);
+
+  return (
+    <div className="rounded-2xl border border-slate-200 bg-white p-4 text-left shadow-sm">
+      <div className="flex items-baseline justify-between gap-3 mb-1">
+        <div className="text-sm font-semibold text-slate-800">Map columns — {table.name}</div>
+        <div className="text-xs text-slate-500">{table.rows.length} rows{table.meta ? ` • ${table.meta}` : ''}</div>
+      </div>
+      <div className="text-xs text-slate-500 mb-3">Match each source column to a metric, import it as a new column, or skip it.</div>
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-xs">
+          <thead>
+            <tr className="text-slate-500">
+              <th className="py-1 pr-3 text-left font-medium">Source</th>
+              <th className="py-1 pr-3 text-left font-medium">Sample</th>
+              <th className="py-1 pr-3 text-left font-medium">Maps to</th>
+              <th className="py-1 text-left font-medium">Type</th>
+            </tr>
+          </thead>
+          <tbody>
+            {mappings.map((m, i) => (
+              <tr key={m.source} className="border-t border-slate-100">
+                <td className="py-1 pr-3 font-medium text-slate-800">{table.headers[m.source] || `Column ${m.source + 1}`}</td>
+                <td className="py-1 pr-3 text-slate-500 max-w-[10rem] truncate">
+                  {table.rows.slice(0, 3).map(r => r[m.source] ?? '').filter(Boolean).join(', ')}
+                </td>
+                <td className="py-1 pr-3">
+                  <select
+                    value={m.key == null ? SKIP : isExisting(m) ? m.key : NEW}
+                    onChange={e => setTarget(i, e.target.value)}
+                    className={`border rounded p-1 ${duplicate(m.key) ? 'border-red-400' : ''}`}
+                  >
+                    <option value={NEW}>New column</option>
+                    {current.columns.map(c => <option key={c.key} value={c.key}>{c.label}</option>)}
+                    <option value={SKIP}>Skip</option>
+                  </select>
+                </td>
+                <td className="py-1">
+                  <select value={m.type} disabled={m.key == null} onChange={e => setType(i, e.target.value as ColumnType)} className="border rounded p-1">
+                    {COLUMN_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+                  </select>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {mappings.some(m => duplicate(m.key)) && (
+        <div className="mt-2 text-xs text-red-600">Two source columns map to the same target; only the first is imported.</div>
+      )}
+      <div className="mt-3 flex justify-end gap-2">
+        <button onClick={onCancel} className="px-3 py-1.5 rounded-lg border text-sm hover:bg-slate-50">Cancel</button>
+        <button
+          onClick={onConfirm}
+          disabled={!mappings.some(m => m.key != null)}
+          className="px-3 py-1.5 rounded-lg bg-slate-900 text-white text-sm disabled:opacity-40"
+        >
+          Import
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import { useState } from 'react';
+import { PNG_SCALES, standaloneSvg, svgToPng } from '../../lib/svgExport';
+
+type ChartExportProps = {
+  getSvg: () => SVGSVGElement | null;
+  filename: string;       // without extension
+  accent?: string;        // background of the PNG button
+  disabled?: boolean;
+  className?: string;
+  getLink?: (withData: boolean) => Promise<string>;   // shows "Copy link" when set
+};
+
+function save(filename: string, url: string) {
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  setTimeout(() => a.remove(), 0);
+}
+
+/** SVG and PNG download controls shared by the chart components: PNG scale and a transparent background, plus an optional share link. */
+export default function ChartExport({ getSvg, filename, accent = '#0f172a', disabled = false, className = '', getLink }: ChartExportProps) {
+  const [scale, setScale] = useState(2);
+  const [transparent, setTransparent] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [withData, setWithData] = useState(false);
+  // Status line for the link and for downloads that fail
+  const [note, setNote] = useState<{ text: string; error?: boolean } | null>(null);
+
+  function showNote(text: string, error?: boolean) {
+    setNote({ text, error });
+    setTimeout(() => setNote(null), 4000);
+  }
+
+  async function copyLink() {
+    if (!getLink) return;
+    try {
+      await navigator.clipboard.writeText(await getLink(withData));
+      showNote('Link copied');
+    } catch (e) {
+      showNote((e as Error).message || 'Could not copy the link', true);
+    }
+  }
+
+  async function run(kind: 'svg' | 'png') {
+    const svg = getSvg();
+    if (!svg || disabled || busy) return;
+    setBusy(true);
+    try {
+      if (kind === 'png') save(`${filename}${scale > 1 ? `@${scale}x` : ''}.png`, await svgToPng(svg, { scale, transparent }));
+      else {
+        const url = URL.createObjectURL(new Blob([await standaloneSvg(svg, { transparent })], { type: 'image/svg+xml' }));
+        save(`${filename}.svg`, url);
+        setTimeout(() => URL.revokeObjectURL(url), 1000);
+      }
+    } catch (e) {
+      showNote((e as Error).message || `Could not export the ${kind.toUpperCase()}.`, true);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className={`flex flex-wrap items-center gap-2 text-xs ${className}`}>
+      <div className="inline-flex rounded-lg border overflow-hidden" role="group" aria-label="PNG scale">
+        {PNG_SCALES.map(s => (
+          <button key={s} type="button" aria-pressed={scale === s} onClick={() => setScale(s)} className={`px-2 py-1 ${scale === s ? 'bg-slate-900 text-white' : 'bg-white hover:bg-slate-50'}`}>{s}x</button>
+        ))}
+      </div>
+      <label className="inline-flex items-center gap-1 text-slate-600">
+        <input type="checkbox" checked={transparent} onChange={e => setTransparent(e.target.checked)} /> Transparent
+      </label>
+      <button type="button" onClick={() => run('svg')} disabled={disabled || busy} className="rounded-lg border px-3 py-1.5 font-medium hover:bg-slate-50 disabled:opacity-50">Download SVG</button>
+      <button type="button" onClick={() => run('png')} disabled={disabled || busy} className="rounded-lg px-3 py-1.5 font-medium text-white disabled:opacity-50" style={{ background: accent }}>Download PNG</button>
+      {getLink && (
+        <>
+          <button type="button" onClick={copyLink} disabled={disabled} className="rounded-lg border px-3 py-1.5 font-medium hover:bg-slate-50 disabled:opacity-50">Copy link</button>
+          <label className="inline-flex items-center gap-1 text-slate-600" title="Put the table in the link too, so it opens with your data">
+            <input type="checkbox" checked={withData} onChange={e => setWithData(e.target.checked)} /> With data
+          </label>
+        </>
+      )}
+      {note && <span role="status" className={note.error ? 'basis-full text-right text-red-600' : 'text-emerald-700'}>{note.text}</span>}
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import type { TooltipRow } from './useChartInteraction';
+
+/** Floating tooltip and toggle legend shared by the SVG charts (state lives in useChartInteraction). */
+
+type TooltipProps = {
+  x: number;              // anchor in viewBox units
+  y: number;
+  width: number;          // viewBox size
+  height: number;
+  title: string;
+  rows: TooltipRow[];
+};
+
+/** Positioned over the chart's container (which must be `relative`); flips sides near the right edge. */
+export function ChartTooltip({ x, y, width, height, title, rows }: TooltipProps) {
+  const flip = x > width * 0.65;
+  return (
+    <div
+      role="status"
+      aria-live="polite"
+      className="pointer-events-none absolute z-10 min-w-[8rem] rounded-lg border border-slate-200 bg-white/95 px-3 py-2 text-xs shadow-lg"
+      style={{
+        left: `${(x / width) * 100}%`,
+        top: `${(Math.max(0, y) / height) * 100}%`,
+        transform: `translate(${flip ? 'calc(-100% - 12px)' : '12px'}, -50%)`,
+      }}
+    >
+      <div className="mb-1 font-semibold text-slate-800">{title}</div>
+      {rows.map((r, i) => (
+        <div key={i} className="flex items-center gap-2 text-slate-600">
+          <span className="h-2.5 w-2.5 rounded-sm" style={{ background: r.color }} />
+          <span>{r.label}</span>
+          <span className="ml-auto pl-3 font-medium text-slate-900">{r.value}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+type LegendItem = { id: string; label: string; color: string };
+
+export function ChartLegend({ items, hidden, onToggle }: { items: LegendItem[]; hidden: Set<string>; onToggle: (id: string) => void }) {
+  return (
+    <div className="mt-3 flex flex-wrap gap-2 text-sm">
+      {items.map(it => {
+        const off = hidden.has(it.id);
+        return (
+          <button
+            key={it.id}
+            type="button"
+            aria-pressed={!off}
+            onClick={() => onToggle(it.id)}
+            className={`inline-flex items-center gap-2 rounded-full border px-3 py-1 transition-opacity hover:bg-slate-50 ${off ? 'opacity-40 line-through' : ''}`}
+          >
+            <span className="h-3 w-3 rounded" style={{ background: it.color }} /> {it.label}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,3 +1,8 @@
+import { useRef } from 'react';
+import ChartExport from './ChartExport';
+import { type NumberFormat, formatNumber } from '../../lib/format';
+import { exportName } from '../../lib/svgExport';
+
 type Slice = { label: string; value: number };
 
 type DonutProps = {
@@ -5,9 +10,11 @@ type DonutProps = {
   title?: string;
   height?: number;
   className?: string;
+  format?: NumberFormat;
 };
 
-export default function PremiumDonutChart({ data, title, height = 280, className = '' }: DonutProps) {
+export default function PremiumDonutChart({ data, title, height = 280, className = '', format = { style: 'number' } }: DonutProps) {
+  const svgRef = useRef<SVGSVGElement | null>(null);
   const width = 360;
   const cx = width / 2, cy = height / 2;
   const R = Math.min(width, height) * 0.42;
@@ -34,8 +41,11 @@ export default function PremiumDonutChart({ data, title, height = 280, className
 
   return (
     <div className={`rounded-2xl border border-slate-200 bg-white p-4 shadow-sm ${className}`}>
-      {title && <div className="text-sm font-semibold text-slate-700 mb-2">{title}</div>}
-      <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto">
+      <div className="flex flex-wrap items-center gap-2 mb-2">
+        {title && <div className="text-sm font-semibold text-slate-700 mr-auto">{title}</div>}
+        <ChartExport getSvg={() => svgRef.current} filename={exportName(title, 'donut')} className="ml-auto" />
+      </div>
+      <svg ref={svgRef} viewBox={`0 0 ${width} ${height}`} className="w-full h-auto">
         <defs>
           <mask id="donut-hole">
             <rect width={width} height={height} fill="white"/>
@@ -47,12 +57,15 @@ export default function PremiumDonutChart({ data, title, height = 280, className
         </g>
         <text x={cx} y={cy - 2} textAnchor="middle" fontSize="14" fill="#0f172a">Total</text>
         <text x={cx} y={cy + 16} textAnchor="middle" fontSize="16" fontWeight={600} fill="#0f172a">
-          {total.toLocaleString()}
+          {formatNumber(total, { ...format, compact: true })}
         </text>
         {arcs.map((a, i) => (
           <g key={`l${i}`}>
             <circle cx={a.lx} cy={a.ly} r={3} fill={a.color} />
-            <text x={a.lx + 6} y={a.ly + 4} fontSize="11" fill="#334155">{a.d.label}</text>
+            <text x={a.lx + 6} y={a.ly + 4} fontSize="11" fill="#334155">
+              {a.d.label}
+              <title>{`${a.d.label}: ${formatNumber(a.d.value, format)} (${formatNumber((a.d.value / total) * 100, { style: 'percent', decimals: 1 })})`}</title>
+            </text>
           </g>
         ))}
       </svg>
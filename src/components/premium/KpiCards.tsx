@@ -1,25 +1,8 @@
-type Row = { period: string; revenue: number; units: number };
+import type { Dataset } from '../../lib/dataset';
+import { kpiCards } from '../../lib/kpi';
 
-function pct(a: number, b: number) {
-  if (!Number.isFinite(a) || a === 0) return 0;
-  return ((b - a) / a) * 100;
-}
-
-export default function PremiumKpiCards({ rows }: { rows: Row[] }) {
-  const totalRev = rows.reduce((s, r) => s + (r.revenue || 0), 0);
-  const first = rows[0], last = rows[rows.length - 1];
-  let bestYear = rows[0]?.period ?? '';
-  let bestVal = rows[0]?.revenue ?? -Infinity;
-  for (const r of rows) {
-    if ((r.revenue ?? -Infinity) > bestVal) { bestVal = r.revenue; bestYear = r.period; }
-  }
-  const growthPct = pct(first?.revenue ?? 0, last?.revenue ?? 0);
-
-  const cards = [
-    { label: 'Total Revenue', value: totalRev.toLocaleString(), hint: 'sum of all periods' },
-    { label: 'Best Year', value: String(bestYear), hint: 'by revenue' },
-    { label: 'Growth', value: `${growthPct.toFixed(1)}%`, hint: 'first → last' },
-  ];
+export default function PremiumKpiCards({ dataset, metric }: { dataset: Dataset; metric?: string }) {
+  const cards = kpiCards(dataset, metric);
 
   return (
     <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
@@ -1,27 +1,28 @@
-import { useMemo, useRef, useState } from 'react';
+import { useMemo, useRef } from 'react';
+import ChartExport from './ChartExport';
+import { ChartTooltip } from './ChartInteraction';
+import { nearestIndex, useChartCursor } from './useChartInteraction';
+import { type NumberFormat, formatNumber, tickFormat } from '../../lib/format';
+import { niceTicks, scaleLinear } from '../../lib/scale';
+import { exportName } from '../../lib/svgExport';
 
-export type DataPoint = Record<string, number | string>;
+export type DataPoint = Record<string, number | string | null>;
 
 type LineChartProps = {
   data: DataPoint[];
   xKey: string;
   yKey: string;
+  yLabel?: string;
   title?: string;
   height?: number;
   className?: string;
-};
-
-const scaleLinear = (domainMin: number, domainMax: number, rangeMin: number, rangeMax: number) => {
-  const d = domainMax - domainMin || 1;
-  const r = rangeMax - rangeMin;
-  return (v: number) => rangeMin + ((v - domainMin) / d) * r;
+  format?: NumberFormat;
 };
 
 export default function PremiumLineChart({
-  data, xKey, yKey, title, height = 320, className = ''
+  data, xKey, yKey, yLabel = yKey, title, height = 320, className = '', format = { style: 'number' }
 }: LineChartProps) {
   const svgRef = useRef<SVGSVGElement | null>(null);
-  const [hoverIdx, setHoverIdx] = useState<number | null>(null);
   const width = 720;
 
   const series = useMemo(() => {
@@ -34,10 +35,10 @@ export default function PremiumLineChart({
   const plotW = width - padL - padR;
   const plotH = height - padT - padB;
 
-  const minY = Math.min(...series.ys, 0);
-  const maxY = Math.max(...series.ys);
+  const yTicks = niceTicks(Math.min(...series.ys, 0), Math.max(...series.ys, 0), 4);
+  const tickFmt = tickFormat(format, yTicks.ticks);
   const xScale = scaleLinear(0, Math.max(series.xs.length - 1, 1), padL, padL + plotW);
-  const yScale = scaleLinear(minY, maxY || 1, padT + plotH, padT);
+  const yScale = scaleLinear(yTicks.min, yTicks.max, padT + plotH, padT);
 
   const pathD = useMemo(() => {
     if (series.ys.length === 0) return '';
@@ -58,84 +59,89 @@ export default function PremiumLineChart({
     return d.join(' ');
   }, [series.ys, xScale, yScale]);
 
-  const gridY = useMemo(() => {
-    const ticks = 4;
-    const arr: number[] = [];
-    for (let i = 0; i <= ticks; i++) arr.push(i / ticks);
-    return arr.map(t => yScale(minY + t * (maxY - minY || 1)));
-  }, [minY, maxY, yScale]);
-
-  const handleMove = (e: React.MouseEvent<SVGSVGElement>) => {
-    const rect = (e.target as SVGElement).closest('svg')!.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const idx = Math.round((x - padL) / (plotW / Math.max(series.xs.length - 1, 1)));
-    if (idx >= 0 && idx < series.xs.length) setHoverIdx(idx);
-  };
+  const cursor = useChartCursor({
+    count: series.xs.length,
+    width,
+    height,
+    nearest: x => nearestIndex(series.xs.map((_, i) => xScale(i)), x),
+  });
+  const hoverIdx = cursor.index;
 
   return (
     <div className={`rounded-2xl border border-slate-200 bg-white p-4 shadow-sm ${className}`}>
-      {title && <div className="text-sm font-semibold text-slate-700 mb-2">{title}</div>}
-      <svg
-        ref={svgRef}
-        viewBox={`0 0 ${width} ${height}`}
-        className="w-full h-auto select-none"
-        onMouseMove={handleMove}
-        onMouseLeave={() => setHoverIdx(null)}
-      >
-        <defs>
-          <linearGradient id="plc-line" x1="0" y1="0" x2="1" y2="0">
-            <stop offset="0%" stopColor="#0ea5e9"/>
-            <stop offset="100%" stopColor="#6366f1"/>
-          </linearGradient>
-          <linearGradient id="plc-fill" x1="0" y1="0" x2="0" y2="1">
-            <stop offset="0%" stopColor="rgba(14,165,233,0.28)"/>
-            <stop offset="100%" stopColor="rgba(99,102,241,0.00)"/>
-          </linearGradient>
-          <filter id="soft" x="-20%" y="-20%" width="140%" height="140%">
-            <feGaussianBlur in="SourceAlpha" stdDeviation="4" result="blur"/>
-            <feOffset dy="2" result="off"/>
-            <feComponentTransfer>
-              <feFuncA type="linear" slope="0.25"/>
-            </feComponentTransfer>
-            <feMerge>
-              <feMergeNode in="off"/>
-              <feMergeNode in="SourceGraphic"/>
-            </feMerge>
-          </filter>
-        </defs>
+      <div className="flex flex-wrap items-center gap-2 mb-2">
+        {title && <div className="text-sm font-semibold text-slate-700 mr-auto">{title}</div>}
+        <ChartExport getSvg={() => svgRef.current} filename={exportName(title ?? yLabel)} className="ml-auto" />
+      </div>
+      <div className="relative">
+        <svg
+          ref={svgRef}
+          viewBox={`0 0 ${width} ${height}`}
+          className="w-full h-auto select-none rounded-lg outline-none focus-visible:ring-2 focus-visible:ring-sky-400"
+          role="img"
+          aria-label={`${title ?? yLabel}. Use the arrow keys to step through points.`}
+          {...cursor.svgProps}
+        >
+          <defs>
+            <linearGradient id="plc-line" x1="0" y1="0" x2="1" y2="0">
+              <stop offset="0%" stopColor="#0ea5e9"/>
+              <stop offset="100%" stopColor="#6366f1"/>
+            </linearGradient>
+            <linearGradient id="plc-fill" x1="0" y1="0" x2="0" y2="1">
+              <stop offset="0%" stopColor="rgba(14,165,233,0.28)"/>
+              <stop offset="100%" stopColor="rgba(99,102,241,0.00)"/>
+            </linearGradient>
+            <filter id="soft" x="-20%" y="-20%" width="140%" height="140%">
+              <feGaussianBlur in="SourceAlpha" stdDeviation="4" result="blur"/>
+              <feOffset dy="2" result="off"/>
+              <feComponentTransfer>
+                <feFuncA type="linear" slope="0.25"/>
+              </feComponentTransfer>
+              <feMerge>
+                <feMergeNode in="off"/>
+                <feMergeNode in="SourceGraphic"/>
+              </feMerge>
+            </filter>
+          </defs>
 
-        <g>
-          {gridY.map((gy, i) => (
-            <line key={i} x1={padL} x2={padL + plotW} y1={gy} y2={gy} stroke="#e5e7eb" strokeDasharray="4 4"/>
-          ))}
-        </g>
+          <g>
+            {yTicks.ticks.map((t, i) => (
+              <g key={i}>
+                <line x1={padL} x2={padL + plotW} y1={yScale(t)} y2={yScale(t)} stroke="#e5e7eb" strokeDasharray="4 4"/>
+                <text x={padL - 8} y={yScale(t) + 4} fontSize="11" textAnchor="end" fill="#64748b">{formatNumber(t, tickFmt)}</text>
+              </g>
+            ))}
+          </g>
 
-        <path d={`${pathD} L ${padL + plotW} ${padT + plotH} L ${padL} ${padT + plotH} Z`} fill="url(#plc-fill)" />
-        <path d={pathD} stroke="url(#plc-line)" strokeWidth="3" fill="none" filter="url(#soft)" />
+          <path d={`${pathD} L ${padL + plotW} ${padT + plotH} L ${padL} ${padT + plotH} Z`} fill="url(#plc-fill)" />
+          <path d={pathD} stroke="url(#plc-line)" strokeWidth="3" fill="none" filter="url(#soft)" />
 
-        <line x1={padL} x2={padL} y1={padT} y2={padT + plotH} stroke="#cbd5e1"/>
-        <line x1={padL} x2={padL + plotW} y1={padT + plotH} y2={padT + plotH} stroke="#cbd5e1"/>
+          <line x1={padL} x2={padL} y1={padT} y2={padT + plotH} stroke="#cbd5e1"/>
+          <line x1={padL} x2={padL + plotW} y1={padT + plotH} y2={padT + plotH} stroke="#cbd5e1"/>
 
-        {series.xs.map((x, i) => {
-          const tx = xScale(i);
-          return <text key={i} x={tx} y={padT + plotH + 18} fontSize="11" textAnchor="middle" fill="#64748b">{String(x)}</text>
-        })}
+          {series.xs.map((x, i) => {
+            const tx = xScale(i);
+            return <text key={i} x={tx} y={padT + plotH + 18} fontSize="11" textAnchor="middle" fill="#64748b">{String(x)}</text>
+          })}
 
+          {hoverIdx != null && (
+            <g>
+              <line x1={xScale(hoverIdx)} x2={xScale(hoverIdx)} y1={padT} y2={padT + plotH} stroke="#94a3b8" strokeDasharray="2 3"/>
+              <circle cx={xScale(hoverIdx)} cy={yScale(Number(series.ys[hoverIdx]))} r={5} fill="#0ea5e9" />
+            </g>
+          )}
+        </svg>
         {hoverIdx != null && (
-          <g>
-            <line x1={xScale(hoverIdx)} x2={xScale(hoverIdx)} y1={padT} y2={padT + plotH} stroke="#94a3b8" strokeDasharray="2 3"/>
-            <circle cx={xScale(hoverIdx)} cy={yScale(Number(series.ys[hoverIdx]))} r={5} fill="#0ea5e9" />
-          </g>
+          <ChartTooltip
+            x={xScale(hoverIdx)}
+            y={yScale(series.ys[hoverIdx])}
+            width={width}
+            height={height}
+            title={series.xs[hoverIdx]}
+            rows={[{ color: '#0ea5e9', label: yLabel, value: formatNumber(series.ys[hoverIdx], format) }]}
+          />
         )}
-      </svg>
-
-      {hoverIdx != null && (
-        <div className="mt-2 text-xs text-slate-600">
-          <span className="font-medium">{String(series.xs[hoverIdx])}</span>
-          <span className="mx-2">•</span>
-          <span>{yKey}: <span className="font-medium">{Number(series.ys[hoverIdx]).toLocaleString()}</span></span>
-        </div>
-      )}
+      </div>
     </div>
   );
 }
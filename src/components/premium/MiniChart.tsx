@@ -0,0 +1,114 @@
+import { type DeckChart, sliceColors } from '../../lib/pptx';
+import { stack, stackExtent } from '../../lib/stack';
+
+type MiniChartProps = {
+  chart: DeckChart;
+  width?: number;
+  height?: number;
+  className?: string;
+};
+
+const finite = (v: number) => (isFinite(v) ? v : 0);
+
+/**
+ * A small, static rendering of a deck chart for previews: bars (grouped, stacked, 100%,
+ * horizontal, per-point colors, hidden waterfall bases), lines, areas, dots, pies and donuts.
+ * No axes beyond a zero line and category labels when they fit.
+ */
+export default function MiniChart({ chart, width = 320, height = 180, className = '' }: MiniChartProps) {
+  const n = chart.categories.length;
+  const pad = 8, labelH = n && n <= 8 ? 14 : 0;
+
+  if (chart.pie || chart.donut) {
+    const s = chart.series[0];
+    const values = s ? s.values.map(v => Math.max(0, finite(v))) : [];
+    const total = values.reduce((a, v) => a + v, 0) || 1;
+    const colors = sliceColors(chart);
+    const cx = width / 2, cy = height / 2, R = height / 2 - pad, r = chart.donut ? R * 0.55 : 0;
+    let start = -Math.PI / 2;
+    const point = (rad: number, a: number) => `${cx + rad * Math.cos(a)} ${cy + rad * Math.sin(a)}`;
+    return (
+      <svg viewBox={`0 0 ${width} ${height}`} className={className} role="img" aria-label={s?.name}>
+        {values.map((v, i) => {
+          const sweep = (v / total) * Math.PI * 2, end = start + sweep, large = sweep > Math.PI ? 1 : 0;
+          const a = start;
+          start = end;
+          if (!v) return null;
+          // A lone full slice can't be drawn as one arc
+          if (sweep >= Math.PI * 2 - 1e-6) return <circle key={i} cx={cx} cy={cy} r={(R + r) / 2} fill="none" stroke={colors[i % colors.length]} strokeWidth={R - r} />;
+          const d = r
+            ? `M ${point(R, a)} A ${R} ${R} 0 ${large} 1 ${point(R, end)} L ${point(r, end)} A ${r} ${r} 0 ${large} 0 ${point(r, a)} Z`
+            : `M ${cx} ${cy} L ${point(R, a)} A ${R} ${R} 0 ${large} 1 ${point(R, end)} Z`;
+          return <path key={i} d={d} fill={colors[i % colors.length]} stroke="white" strokeWidth={1} />;
+        })}
+      </svg>
+    );
+  }
+
+  const bars = chart.series.map((s, k) => ({ s, k })).filter(({ s }) => chart.bars || s.render === 'bar');
+  const marks = chart.bars ? [] : chart.series.map((s, k) => ({ s, k })).filter(({ s }) => s.render !== 'bar');
+  const layout = chart.bars?.layout ?? 'grouped', horizontal = !!chart.bars?.horizontal;
+  const stacked = layout !== 'grouped' && bars.length > 0;
+  const stacks = stacked ? stack(chart.categories.map((_, i) => bars.map(({ s }) => finite(s.values[i]))), layout === 'percent') : [];
+
+  // One value scale per axis; stacks set the extent of the primary one
+  const extent = (right: boolean): [number, number] => {
+    let [lo, hi] = stacked && !right ? stackExtent(stacks) : [0, 0];
+    for (const { s } of [...(stacked ? [] : bars), ...marks]) {
+      if (!!s.secondary !== right) continue;
+      for (const v of s.values) if (isFinite(v)) { lo = Math.min(lo, v); hi = Math.max(hi, v); }
+    }
+    return hi === lo ? [lo, lo + 1] : [lo, hi];
+  };
+  const secondary = marks.some(({ s }) => s.secondary) || (!stacked && bars.some(({ s }) => s.secondary));
+  const scales = { left: extent(false), right: secondary ? extent(true) : extent(false) };
+
+  // Category runs along x (or y when horizontal); values along the other axis
+  const catLen = (horizontal ? height - pad * 2 : width - pad * 2), valLen = (horizontal ? width - pad * 2 : height - pad * 2 - labelH);
+  const band = n ? catLen / n : 0;
+  const catAt = (i: number) => pad + band * (i + 0.5);
+  const valAt = (v: number, right = false) => {
+    const [lo, hi] = right ? scales.right : scales.left;
+    const t = (v - lo) / (hi - lo);
+    return horizontal ? pad + t * valLen : pad + (1 - t) * valLen;
+  };
+  const rect = (i: number, offset: number, w: number, from: number, to: number, right = false) => {
+    const a = valAt(from, right), b = valAt(to, right), c = catAt(i) + offset - w / 2;
+    return horizontal
+      ? { x: Math.min(a, b), y: c, width: Math.abs(b - a), height: w }
+      : { x: c, y: Math.min(a, b), width: w, height: Math.abs(b - a) };
+  };
+  const barW = bars.length ? Math.max(2, (band * 0.7) / (stacked ? 1 : bars.length)) : 0;
+  const zero = valAt(0);
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className={className} role="img" aria-label={chart.series.map(s => s.name).join(', ')}>
+      {horizontal
+        ? <line x1={zero} y1={pad} x2={zero} y2={height - pad} stroke="#CBD5E1" />
+        : <line x1={pad} y1={zero} x2={width - pad} y2={zero} stroke="#CBD5E1" />}
+      {chart.categories.map((_, i) => bars.map(({ s }, j) => {
+        if (s.hidden) return null;
+        const color = s.colors?.[i] ?? s.color;
+        const r = stacked
+          ? rect(i, 0, barW, stacks[i][j].from, stacks[i][j].to)
+          : rect(i, (j - (bars.length - 1) / 2) * barW, barW * 0.9, 0, finite(s.values[i]), s.secondary);
+        return <rect key={`${i}-${j}`} {...r} fill={color} />;
+      }))}
+      {marks.map(({ s, k }) => {
+        const pts = s.values.map((v, i) => (isFinite(v) ? [catAt(i), valAt(v, s.secondary)] : null)).filter((p): p is number[] => !!p);
+        if (s.render === 'scatter') return pts.map(([x, y], i) => <circle key={`${k}-${i}`} cx={x} cy={y} r={3} fill={s.color} />);
+        const line = pts.map(([x, y], i) => `${i ? 'L' : 'M'} ${x} ${y}`).join(' ');
+        const base = valAt(0, s.secondary);
+        return (
+          <g key={k}>
+            {s.render === 'area' && pts.length > 1 && <path d={`${line} L ${pts[pts.length - 1][0]} ${base} L ${pts[0][0]} ${base} Z`} fill={s.color} opacity={0.15} />}
+            <path d={line} fill="none" stroke={s.color} strokeWidth={2} strokeLinejoin="round" />
+          </g>
+        );
+      })}
+      {labelH > 0 && !horizontal && chart.categories.map((c, i) => (
+        <text key={i} x={catAt(i)} y={height - 3} textAnchor="middle" fontSize={9} fill="#6B7280">{c.length > 10 ? `${c.slice(0, 9)}…` : c}</text>
+      ))}
+    </svg>
+  );
+}
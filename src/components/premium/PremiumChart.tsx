@@ -0,0 +1,495 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { downsample, labelStride } from '../../lib/downsample';
+import { type NumberFormat, formatNumber, formatter, tickFormat } from '../../lib/format';
+import { niceTicks } from '../../lib/scale';
+import { type Segment, stack, stackExtent } from '../../lib/stack';
+import { type Granularity, addPeriods, timeTicks } from '../../lib/time';
+import { ChartLegend, ChartTooltip } from './ChartInteraction';
+import { type TooltipRow, nearestIndex, useChartCursor, useHiddenSeries } from './useChartInteraction';
+
+export type ChartMode =
+  | 'line' | 'area' | 'scatter' | 'dual' | 'pie'
+  | 'bar' | 'stacked' | 'stacked100' | 'hbar' | 'hstacked' | 'hstacked100';
+export type SeriesRender = 'line' | 'area' | 'bar' | 'scatter';
+export type SeriesAxis = 'left' | 'right';
+
+/** One plotted metric. In 'dual' (combo) mode each series keeps its own render type; other modes apply theirs to all. */
+export interface ChartSeries {
+  id: string;
+  label: string;
+  color: string;
+  axis: SeriesAxis;
+  render: SeriesRender;
+  format: NumberFormat;
+}
+
+/** One x position; values[k] belongs to series[k]. */
+export interface ChartPoint {
+  x: number;            // period start (time axis) or index (category axis)
+  label: string;
+  values: number[];
+  gap?: boolean;        // previous point is more than one period away
+}
+
+type PremiumChartProps = {
+  points: ChartPoint[];
+  series: ChartSeries[];
+  mode: ChartMode;
+  xLabel: string;
+  showGrid?: boolean;
+  pointSize?: number;
+  grain?: Granularity | null;   // null = evenly spaced categories
+  fiscal?: boolean;
+  tickCount?: number;
+  onRef?: (el: SVGSVGElement | null) => void;
+};
+
+const PIE_PALETTE = ['#6366F1', '#f59e0b', '#0ea5e9', '#ef4444', '#22c55e', '#a855f7', '#14b8a6', '#334155'];
+
+type BarLayout = 'grouped' | 'stacked' | 'percent';
+
+/** Bar modes: how the bars of several series share a category, and which way they run. */
+const BAR_MODES: Partial<Record<ChartMode, { layout: BarLayout; horizontal: boolean; name: string }>> = {
+  bar: { layout: 'grouped', horizontal: false, name: 'bar' },
+  stacked: { layout: 'stacked', horizontal: false, name: 'stacked bar' },
+  stacked100: { layout: 'percent', horizontal: false, name: '100% stacked bar' },
+  hbar: { layout: 'grouped', horizontal: true, name: 'horizontal bar' },
+  hstacked: { layout: 'stacked', horizontal: true, name: 'horizontal stacked bar' },
+  hstacked100: { layout: 'percent', horizontal: true, name: 'horizontal 100% stacked bar' },
+};
+
+const SHARE: NumberFormat = { style: 'percent', maxDecimals: 0 };
+
+// Big data: line and area series longer than DOWNSAMPLE_AT are thinned to DOWNSAMPLE_TO points
+// (about one per pixel), and once bars and dots outnumber CANVAS_AT they are painted on a canvas
+// instead of being one SVG element each
+const DOWNSAMPLE_AT = 1000, DOWNSAMPLE_TO = 600, CANVAS_AT = 1500;
+const RASTER_SCALE = 2;
+
+// Identifies a points array, so the canvas is only repainted when the data behind it changes
+const drawIds = new WeakMap<ChartPoint[], number>();
+let drawSerial = 0;
+const drawId = (points: ChartPoint[]) => {
+  if (!drawIds.has(points)) drawIds.set(points, ++drawSerial);
+  return drawIds.get(points)!;
+};
+
+/** Rough rendered width of a label, to decide whether it fits where it would go. */
+const textWidth = (s: string, size: number) => s.length * size * 0.6;
+
+/** Catmull-Rom style smoothing through the points. */
+function smoothPath(pts: [number, number][]): string {
+  if (pts.length < 2) return '';
+  const d: string[] = [`M ${pts[0][0]} ${pts[0][1]}`];
+  for (let i = 0; i < pts.length - 1; i++) {
+    const p0 = pts[Math.max(0, i - 1)], p1 = pts[i], p2 = pts[i + 1], p3 = pts[Math.min(pts.length - 1, i + 2)];
+    const t = 0.3;
+    const c1x = p1[0] + (p2[0] - p0[0]) * t / 2, c1y = p1[1] + (p2[1] - p0[1]) * t / 2;
+    const c2x = p2[0] - (p3[0] - p1[0]) * t / 2, c2y = p2[1] - (p3[1] - p1[1]) * t / 2;
+    d.push(`C ${c1x} ${c1y}, ${c2x} ${c2y}, ${p2[0]} ${p2[1]}`);
+  }
+  return d.join(' ');
+}
+
+export default function PremiumChart({
+  points: data, series, mode, xLabel, showGrid = true, pointSize = 6, grain = null, fiscal = false, tickCount = 5, onRef,
+}: PremiumChartProps) {
+  const barMode = BAR_MODES[mode];
+  const horizontal = !!barMode?.horizontal;
+  const stacked = barMode?.layout === 'stacked' || barMode?.layout === 'percent';
+  const percent = barMode?.layout === 'percent';
+  // Horizontal bars put category labels on the left, so they get a wider margin
+  const width = 860, height = 440, padL = horizontal ? 150 : 90, padR = 90, padT = 28, padB = 86;
+  const plotW = width - padL - padR, plotH = height - padT - padB;
+  const pie = mode === 'pie';
+
+  // Legend toggles series on cartesian charts and slices on the pie (which plots the first series)
+  const legendIds = useMemo(() => (pie ? data.map(p => p.label) : series.map(s => s.id)), [pie, data, series]);
+  const { hidden, toggle } = useHiddenSeries(legendIds);
+  const renderOf = (s: ChartSeries): SeriesRender => (mode === 'dual' || pie ? s.render : barMode ? 'bar' : (mode as SeriesRender));
+  const shown = series.map((s, k) => ({ s, k, render: renderOf(s) })).filter(x => !pie && !hidden.has(x.s.id));
+  const bars = shown.filter(x => x.render === 'bar');
+  const dots = shown.filter(x => x.render === 'scatter');
+
+  // Long lines keep their shape with LTTB; both ends of every gap survive so runs stay intact
+  const lineOnly = !pie && !barMode && shown.length > 0 && shown.every(x => x.render === 'line' || x.render === 'area');
+  const sampled = shown.map(x => x.k).join();
+  const points = useMemo(() => {
+    if (!lineOnly || data.length <= DOWNSAMPLE_AT) return data;
+    const ks = sampled.split(',').map(Number);
+    const keep = downsample(data.map(p => p.x), ks.map(k => data.map(p => p.values[k])), DOWNSAMPLE_TO, i => !!data[i].gap || !!data[i + 1]?.gap);
+    return keep.map(i => data[i]);
+  }, [data, lineOnly, sampled]);
+
+  // A right axis only exists while both sides have a visible series; stacks and horizontal bars share one value axis
+  const dualAxis = !stacked && !horizontal && shown.some(x => x.s.axis === 'left') && shown.some(x => x.s.axis === 'right');
+  const axisOf = (s: ChartSeries): SeriesAxis => (dualAxis ? s.axis : 'left');
+
+  // Time axis: points sit at their period start, so missing periods leave real gaps.
+  // Bars (and a lone point) get half a period of room at each end. Horizontal bars always list categories.
+  const time = grain != null && points.length > 0 && !horizontal;
+  const period = time ? addPeriods(points[0].x, grain, 1) - points[0].x : 0;
+  const edge = time && (bars.length > 0 || points.length < 2) ? period / 2 : 0;
+  const t0 = time ? points[0].x - edge : 0, t1 = time ? points[points.length - 1].x + edge : 1;
+  const xt = (t: number) => padL + ((t - t0) / ((t1 - t0) || 1)) * plotW;
+  const banded = !time && bars.length > 0;
+  const xAt = (i: number) =>
+    time ? xt(points[i].x)
+    : banded ? padL + (plotW / points.length) * (i + 0.5)
+    : padL + (points.length <= 1 ? plotW / 2 : i * (plotW / (points.length - 1)));
+  const rowAt = (i: number) => padT + (plotH / points.length) * (i + 0.5);
+  const catAt = horizontal ? rowAt : xAt;
+  // Category labels that would overlap are thinned to every n-th one
+  const widest = points.reduce((w, p) => Math.max(w, textWidth(p.label, 14)), 0);
+  const tickStride = labelStride(plotW / Math.max(1, points.length), widest + 12);
+  const rowStride = labelStride(plotH / Math.max(1, points.length), 16);
+  const ticks = time
+    ? timeTicks(t0, t1, Math.max(2, Math.floor(plotW / 90)), grain, fiscal).map(t => ({ x: xt(t.value), label: t.label }))
+    : points.map((p, i) => ({ x: xAt(i), label: p.label })).filter((_, i) => i % tickStride === 0);
+
+  // Stacked modes scale to the column ends; 100% stacks plot each series' share of the column
+  const stacks: Segment[][] = stacked ? stack(points.map(p => bars.map(x => p.values[x.k])), percent) : [];
+  const scaleFor = (axis: SeriesAxis) => {
+    if (stacked) return niceTicks(...stackExtent(stacks), tickCount);
+    const vals = shown.filter(x => axisOf(x.s) === axis).flatMap(x => points.map(p => p.values[x.k]));
+    return niceTicks(Math.min(0, ...vals), Math.max(0, ...vals), tickCount);
+  };
+  const scales = { left: scaleFor('left'), right: scaleFor('right') };
+  const yOf = (axis: SeriesAxis) => (v: number) =>
+    height - padB - ((v - scales[axis].min) / ((scales[axis].max - scales[axis].min) || 1)) * plotH;
+  const xv = (v: number) => padL + ((v - scales.left.min) / ((scales.left.max - scales.left.min) || 1)) * plotW;
+  const valueAt = (s: ChartSeries) => (horizontal ? xv : yOf(axisOf(s)));
+  const sideSeries = (axis: SeriesAxis) => shown.filter(x => axisOf(x.s) === axis);
+  const tickFmt = (axis: SeriesAxis) =>
+    formatter(tickFormat(percent ? SHARE : sideSeries(axis)[0]?.s.format ?? { style: 'number' }, scales[axis].ticks));
+  const axisTitle = (axis: SeriesAxis) =>
+    percent ? `Share of ${sideSeries(axis).map(x => x.s.label).join(' + ')}` : sideSeries(axis).map(x => x.s.label).join(' · ');
+
+  const svgRef = useRef<SVGSVGElement | null>(null);
+  useEffect(() => { onRef?.(svgRef.current); }, [onRef]);
+
+  // Runs of consecutive periods: a missing period breaks the curve and is bridged with a dashed line
+  const runs = useMemo(() => {
+    const out: number[][] = [];
+    points.forEach((p, i) => { if (i === 0 || p.gap) out.push([i]); else out[out.length - 1].push(i); });
+    return out;
+  }, [points]);
+  const lineFor = (k: number, y: (v: number) => number) =>
+    runs.map(r => smoothPath(r.map(i => [xAt(i), y(points[i].values[k])]))).join(' ');
+  const areaFor = (k: number, y: (v: number) => number) =>
+    runs.filter(r => r.length > 1)
+      .map(r => `${smoothPath(r.map(i => [xAt(i), y(points[i].values[k])]))} L ${xAt(r[r.length - 1])} ${y(0)} L ${xAt(r[0])} ${y(0)} Z`)
+      .join(' ');
+  const gapsFor = (k: number, y: (v: number) => number) =>
+    runs.slice(1).map(r => `M ${xAt(r[0] - 1)} ${y(points[r[0] - 1].values[k])} L ${xAt(r[0])} ${y(points[r[0]].values[k])}`).join(' ');
+
+  // Grouped bars sit side by side within a category; stacked bars share one column
+  const band = !points.length ? 0 : horizontal ? plotH / points.length : time ? xt(t0 + period) - xt(t0) : plotW / points.length;
+  const columns = stacked ? 1 : bars.length;
+  const barW = bars.length ? Math.max(Math.min(time ? 2 : 6, (band * 0.9) / columns), Math.min(horizontal ? 36 : stacked ? 56 : 42, (band * 0.7) / columns)) : 0;
+  const barOffset = (j: number) => (stacked ? 0 : (j - (bars.length - 1) / 2) * barW);
+  /** Screen rectangle for a bar running from value `from` to `to`. */
+  const barRect = (i: number, j: number, from: number, to: number, val: (v: number) => number) => {
+    const c = catAt(i) + barOffset(j), a = val(from), b = val(to);
+    return horizontal
+      ? { x: Math.min(a, b), y: c - barW / 2, w: Math.abs(b - a), h: barW }
+      : { x: c - barW / 2, y: Math.min(a, b), w: barW, h: Math.abs(b - a) };
+  };
+
+  // Value labels are only drawn where they fit: inside stack segments, or past the end of grouped bars
+  type BarLabel = { x: number; y: number; text: string; anchor: 'start' | 'middle' | 'end'; inside: boolean };
+  const labelFor = (r: { x: number; y: number; w: number; h: number }, v: number, text: string): BarLabel | null => {
+    const tw = textWidth(text, 12);
+    if (stacked) {
+      const fits = horizontal ? r.w >= tw + 8 && r.h >= 14 : r.h >= 16 && r.w >= tw + 4;
+      return fits ? { x: r.x + r.w / 2, y: r.y + r.h / 2 + 4, text, anchor: 'middle', inside: true } : null;
+    }
+    if (horizontal) {
+      if (r.h < 11) return null;
+      const room = v < 0 ? r.x - 6 - padL : width - 8 - (r.x + r.w + 6);
+      if (tw <= room) return { x: v < 0 ? r.x - 6 : r.x + r.w + 6, y: r.y + r.h / 2 + 4, text, anchor: v < 0 ? 'end' : 'start', inside: false };
+      return r.w >= tw + 8 ? { x: v < 0 ? r.x + 6 : r.x + r.w - 6, y: r.y + r.h / 2 + 4, text, anchor: v < 0 ? 'start' : 'end', inside: true } : null;
+    }
+    // Neighbouring bars of a group are flush, so a label may not be wider than its own bar
+    const room = bars.length === 1 ? band * 0.9 : barW + 2;
+    if (barW < 16 || tw > room) return null;
+    return { x: r.x + r.w / 2, y: v < 0 ? r.y + r.h + 16 : r.y - 6, text, anchor: 'middle', inside: false };
+  };
+  const barLabels: BarLabel[] = [];
+  const barRects = bars.map((x, j) => points.map((p, i) => {
+    const seg = stacked ? stacks[i][j] : { from: 0, to: p.values[x.k], value: p.values[x.k] };
+    const r = barRect(i, j, seg.from, seg.to, valueAt(x.s));
+    // No value label fits a bar narrower than 11 units, so skip formatting thousands of them
+    const label = barW >= 11 ? labelFor(r, seg.value, formatNumber(seg.value, percent ? SHARE : x.s.format)) : null;
+    if (label) barLabels.push(label);
+    return r;
+  }));
+  // Plain stacks also show each column's net total past its end
+  if (stacked && !percent && bars.length > 1) {
+    points.forEach((_, i) => {
+      const segs = stacks[i];
+      const up = Math.max(0, ...segs.map(s => s.to)), down = Math.min(0, ...segs.map(s => s.to));
+      const text = formatNumber(segs.reduce((sum, s) => sum + s.value, 0), bars[0].s.format);
+      const end = up > 0 ? up : down, c = catAt(i);
+      if (horizontal) {
+        if (barW >= 11) barLabels.push({ x: up > 0 ? xv(end) + 6 : xv(end) - 6, y: c + 4, text, anchor: up > 0 ? 'start' : 'end', inside: false });
+      } else if (textWidth(text, 12) <= band * 0.9) {
+        const y = yOf('left')(end);
+        barLabels.push({ x: c, y: up > 0 ? y - 6 : y + 16, text, anchor: 'middle', inside: false });
+      }
+    });
+  }
+
+  // Pie geometry; hidden slices drop out of the total
+  const pieCx = width / 2, pieCy = height / 2 + 10, pieR = Math.min(width - 180, height - 114) / 2;
+  const pieColors = useMemo(() => Array.from(new Set([...series.map(s => s.color), ...PIE_PALETTE])), [series]);
+  const slices = useMemo(() => {
+    const visible = pie && series.length
+      ? points.map((p, i) => ({ p, i })).filter(s => !hidden.has(s.p.label) && s.p.values[0] > 0)
+      : [];
+    const total = visible.reduce((sum, x) => sum + x.p.values[0], 0) || 1;
+    let start = -90;
+    return visible.map(({ p, i }) => {
+      const ang = (p.values[0] / total) * 360;
+      const slice = { i, start, end: start + ang, share: p.values[0] / total };
+      start += ang;
+      return slice;
+    });
+  }, [pie, series.length, points, hidden]);
+  const polar = (deg: number, r: number) =>
+    [pieCx + r * Math.cos((deg * Math.PI) / 180), pieCy + r * Math.sin((deg * Math.PI) / 180)] as [number, number];
+
+  // Hover / keyboard cursor over categories (cartesian) or visible slices (pie)
+  function nearest(x: number, y: number) {
+    if (horizontal) return y < padT - 20 || y > height - padB + 20 ? null : nearestIndex(points.map((_, i) => rowAt(i)), y);
+    if (!pie) return x < padL - 20 || x > width - padR + 20 ? null : nearestIndex(points.map((_, i) => xAt(i)), x);
+    const dx = x - pieCx, dy = y - pieCy;
+    if (Math.hypot(dx, dy) > pieR) return null;
+    let deg = (Math.atan2(dy, dx) * 180) / Math.PI;
+    if (deg < -90) deg += 360;
+    const k = slices.findIndex(s => deg >= s.start && deg < s.end);
+    return k < 0 ? null : k;
+  }
+  const cursor = useChartCursor({ count: pie ? slices.length : points.length, width, height, nearest });
+  const hi = cursor.index;
+
+  let tooltip: { x: number; y: number; title: string; rows: TooltipRow[] } | null = null;
+  if (hi != null && pie && slices[hi] && series[0]) {
+    const s = slices[hi], p = points[s.i];
+    const [x, y] = polar((s.start + s.end) / 2, pieR * 0.62);
+    const share = formatNumber(s.share * 100, { style: 'percent', decimals: 1 });
+    tooltip = { x, y, title: p.label, rows: [{ color: pieColors[s.i % pieColors.length], label: series[0].label, value: `${formatNumber(p.values[0], series[0].format)} (${share})` }] };
+  } else if (hi != null && !pie && points[hi]) {
+    const p = points[hi];
+    const ends = stacked ? stacks[hi].map(s => s.to) : shown.map(x => p.values[x.k]);
+    const rows = shown.map((x, j) => ({
+      color: x.s.color,
+      label: x.s.label,
+      value: formatNumber(p.values[x.k], x.s.format) + (percent ? ` (${formatNumber(stacks[hi][j].value, { style: 'percent', decimals: 1 })})` : ''),
+    }));
+    tooltip = horizontal
+      ? { x: Math.max(padL, ...ends.map(xv)), y: rowAt(hi), title: p.label, rows }
+      : {
+          x: xAt(hi),
+          y: Math.min(height - padB, ...(stacked ? ends.map(yOf('left')) : shown.map(x => yOf(axisOf(x.s))(p.values[x.k])))),
+          title: p.label,
+          rows,
+        };
+  }
+
+  const legendItems = pie
+    ? points.map((p, i) => ({ id: p.label, label: p.label, color: pieColors[i % pieColors.length] }))
+    : series.map(s => ({ id: s.id, label: s.label, color: s.color }));
+  const dotR = (i: number, base: number) => base + (i === hi ? 2 : 0);
+  const caption = pie
+    ? `Pie chart of ${series[0]?.label ?? 'values'} by ${xLabel}`
+    : `${mode === 'dual' ? 'Combo' : barMode?.name ?? mode} chart of ${shown.map(x => x.s.label).join(', ')} by ${xLabel}`;
+  const hiBand = Math.max(barW * columns, band * 0.9);
+  const zeroLine = !pie && scales.left.min < 0;
+  // Dense lines draw their points only under the cursor
+  const lineDots = points.length <= 1 || plotW / (points.length - 1) >= 4;
+
+  // Canvas path: bars and dots become one bitmap, mirrored into the SVG as an <image> so exports keep them
+  const dotSize = Math.max(3, Math.min(14, pointSize));
+  const raster = !pie && (bars.length + dots.length) * points.length > CANVAS_AT;
+  const rasterKey = raster
+    ? [drawId(points), mode, dotSize, scales.left.min, scales.left.max, scales.right.min, scales.right.max, ...shown.map(x => `${x.k}:${x.render}:${x.s.axis}:${x.s.color}`)].join('|')
+    : '';
+  const marksRef = useRef<SVGImageElement | null>(null);
+  const drawnKey = useRef('');
+  useEffect(() => {
+    const img = marksRef.current;
+    if (!img) { drawnKey.current = ''; return; }
+    if (drawnKey.current === rasterKey && img.getAttribute('href')) return;
+    const canvas = document.createElement('canvas');
+    canvas.width = width * RASTER_SCALE;
+    canvas.height = height * RASTER_SCALE;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.scale(RASTER_SCALE, RASTER_SCALE);
+    bars.forEach((x, j) => {
+      ctx.fillStyle = x.s.color;
+      for (const r of barRects[j]) ctx.fillRect(r.x, r.y, r.w, r.h);
+    });
+    ctx.globalAlpha = 0.85;
+    for (const x of dots) {
+      const y = yOf(axisOf(x.s));
+      ctx.fillStyle = x.s.color;
+      ctx.beginPath();
+      points.forEach((p, i) => {
+        const cx = xAt(i), cy = y(p.values[x.k]);
+        if (!isFinite(cy)) return;
+        ctx.moveTo(cx + dotSize, cy);
+        ctx.arc(cx, cy, dotSize, 0, Math.PI * 2);
+      });
+      ctx.fill();
+    }
+    img.setAttribute('href', canvas.toDataURL('image/png'));
+    drawnKey.current = rasterKey;
+  });
+
+  return (
+    <div className="rounded-2xl bg-white p-5 shadow border">
+      <div className="relative">
+        <svg
+          ref={svgRef}
+          viewBox={`0 0 ${width} ${height}`}
+          className="w-full h-[440px] rounded-xl outline-none focus-visible:ring-2 focus-visible:ring-emerald-400"
+          role="img"
+          aria-label={`${caption}. Use the arrow keys to step through ${pie ? 'slices' : 'points'}.`}
+          {...cursor.svgProps}
+        >
+          <rect x={0} y={0} width={width} height={height} rx={12} fill="white" data-export="background" />
+          {!pie && showGrid && (
+            <g stroke="#E5E7EB" strokeDasharray="4 6">
+              <line x1={padL} y1={height - padB} x2={width - padR} y2={height - padB} />
+              <line x1={padL} y1={padT} x2={padL} y2={height - padB} />
+              {horizontal
+                ? scales.left.ticks.slice(1).map((v, i) => <line key={i} x1={xv(v)} y1={padT} x2={xv(v)} y2={height - padB} />)
+                : scales.left.ticks.slice(1).map((v, i) => <line key={i} x1={padL} y1={yOf('left')(v)} x2={width - padR} y2={yOf('left')(v)} />)}
+            </g>
+          )}
+          {!pie && hi != null && (horizontal
+            ? <rect x={padL} y={rowAt(hi) - hiBand / 2} width={plotW} height={hiBand} fill="#F3F4F6" />
+            : bars.length
+            ? <rect x={xAt(hi) - hiBand / 2} y={padT} width={hiBand} height={plotH} fill="#F3F4F6" />
+            : <line x1={xAt(hi)} y1={padT} x2={xAt(hi)} y2={height - padB} stroke="#94A3B8" strokeDasharray="3 4" />)}
+
+          {!pie && !horizontal && (
+            <g fontSize={14} fill="#6B7280">
+              {ticks.map((t, i) => (
+                <g key={i}>
+                  <line x1={t.x} y1={height - padB} x2={t.x} y2={height - padB + 6} stroke="#CBD5E1" />
+                  <text x={t.x} y={height - padB + 24} textAnchor="middle">{t.label}</text>
+                </g>
+              ))}
+            </g>
+          )}
+          {!pie && !horizontal && (['left', 'right'] as SeriesAxis[]).filter(a => a === 'left' || dualAxis).map(axis => {
+            const fmt = tickFmt(axis), y = yOf(axis), left = axis === 'left';
+            const x0 = left ? padL : width - padR;
+            return (
+              <g key={axis} fontSize={14} fill="#6B7280">
+                {scales[axis].ticks.map((v, i) => (
+                  <g key={i}>
+                    <line x1={left ? x0 - 6 : x0} y1={y(v)} x2={left ? x0 : x0 + 6} y2={y(v)} stroke="#CBD5E1" />
+                    <text x={left ? x0 - 10 : x0 + 10} y={y(v) + 5} textAnchor={left ? 'end' : 'start'}>{fmt(v)}</text>
+                  </g>
+                ))}
+              </g>
+            );
+          })}
+          {horizontal && (
+            <g fontSize={14} fill="#6B7280">
+              {scales.left.ticks.map((v, i) => (
+                <g key={i}>
+                  <line x1={xv(v)} y1={height - padB} x2={xv(v)} y2={height - padB + 6} stroke="#CBD5E1" />
+                  <text x={xv(v)} y={height - padB + 24} textAnchor="middle">{tickFmt('left')(v)}</text>
+                </g>
+              ))}
+              {points.map((p, i) => i % rowStride === 0 && (
+                <text key={`c${i}`} x={padL - 10} y={rowAt(i) + 5} textAnchor="end">
+                  {p.label.length > 18 ? `${p.label.slice(0, 17)}…` : p.label}
+                  <title>{p.label}</title>
+                </text>
+              ))}
+            </g>
+          )}
+
+          {/* Draw order: area fills, bars, then lines and points on top */}
+          {shown.filter(x => x.render === 'area').map(x => (
+            <path key={`fill-${x.s.id}`} d={areaFor(x.k, yOf(axisOf(x.s)))} fill={x.s.color} opacity={0.12} />
+          ))}
+          {raster && <image ref={marksRef} x={0} y={0} width={width} height={height} preserveAspectRatio="none" data-export="marks" />}
+          {!raster && bars.map((x, j) => (
+            <g key={`bars-${x.s.id}`}>
+              {barRects[j].map((r, i) => (
+                <rect key={i} x={r.x} y={r.y} width={r.w} height={r.h} rx={stacked ? 0 : Math.min(8, barW / 2)} fill={x.s.color} opacity={hi == null || hi === i ? 1 : 0.7} stroke={stacked ? 'white' : undefined} strokeWidth={stacked ? 1 : 0} />
+              ))}
+            </g>
+          ))}
+          {zeroLine && (horizontal
+            ? <line x1={xv(0)} y1={padT} x2={xv(0)} y2={height - padB} stroke="#94A3B8" />
+            : <line x1={padL} y1={yOf('left')(0)} x2={width - padR} y2={yOf('left')(0)} stroke="#94A3B8" />)}
+          {barLabels.length > 0 && (
+            <g fontSize={12}>
+              {barLabels.map((l, i) => (
+                <text key={i} x={l.x} y={l.y} textAnchor={l.anchor} fill={l.inside ? 'white' : '#111827'}>{l.text}</text>
+              ))}
+            </g>
+          )}
+          {shown.filter(x => x.render === 'line' || x.render === 'area').map(x => {
+            const y = yOf(axisOf(x.s));
+            return (
+              <g key={`line-${x.s.id}`}>
+                <path d={lineFor(x.k, y)} fill="none" stroke={x.s.color} strokeWidth={3} />
+                <path d={gapsFor(x.k, y)} fill="none" stroke={x.s.color} strokeWidth={2} strokeDasharray="4 6" opacity={0.6} />
+                {points.map((p, i) => (lineDots || i === hi) && (
+                  <circle key={i} cx={xAt(i)} cy={y(p.values[x.k])} r={dotR(i, 4)} fill={x.s.color} stroke="white" strokeWidth={i === hi ? 2 : 0} />
+                ))}
+              </g>
+            );
+          })}
+          {dots.map(x => {
+            const y = yOf(axisOf(x.s));
+            return (
+              <g key={`dots-${x.s.id}`}>
+                {points.map((p, i) => (!raster || i === hi) && (
+                  <circle key={i} cx={xAt(i)} cy={y(p.values[x.k])} r={dotR(i, dotSize)} fill={x.s.color} opacity={0.85} stroke="white" strokeWidth={i === hi ? 2 : 0} />
+                ))}
+              </g>
+            );
+          })}
+
+          {pie && slices.map((s, k) => {
+            const p = points[s.i];
+            const [x1, y1] = polar(s.start, pieR), [x2, y2] = polar(s.end, pieR), [lx, ly] = polar((s.start + s.end) / 2, pieR * 0.62);
+            // A lone slice is a full circle, which a single arc can't draw
+            const d = slices.length === 1
+              ? `M ${pieCx - pieR} ${pieCy} A ${pieR} ${pieR} 0 1 1 ${pieCx + pieR} ${pieCy} A ${pieR} ${pieR} 0 1 1 ${pieCx - pieR} ${pieCy} Z`
+              : `M ${pieCx} ${pieCy} L ${x1} ${y1} A ${pieR} ${pieR} 0 ${s.end - s.start > 180 ? 1 : 0} 1 ${x2} ${y2} Z`;
+            return (
+              <g key={s.i}>
+                <path d={d} fill={pieColors[s.i % pieColors.length]} opacity={hi == null || hi === k ? 0.9 : 0.55} stroke="white" strokeWidth={hi === k ? 3 : 0} />
+                <text x={lx} y={ly} textAnchor="middle" fontSize={13} fill="#111827">{p.label} {Math.round(s.share * 100)}%</text>
+              </g>
+            );
+          })}
+
+          {!pie && (
+            <>
+              <text x={(padL + width - padR) / 2} y={height - 18} textAnchor="middle" fontSize={15} fill="#374151">{horizontal ? axisTitle('left') : xLabel}</text>
+              <text x={24} y={(padT + height - padB) / 2} textAnchor="middle" fontSize={15} fill="#374151" transform={`rotate(-90 24 ${(padT + height - padB) / 2})`}>{horizontal ? xLabel : axisTitle('left')}</text>
+              {dualAxis && (
+                <text x={width - 24} y={(padT + height - padB) / 2} textAnchor="middle" fontSize={15} fill="#374151" transform={`rotate(90 ${width - 24} ${(padT + height - padB) / 2})`}>{axisTitle('right')}</text>
+              )}
+            </>
+          )}
+        </svg>
+        {tooltip && <ChartTooltip {...tooltip} width={width} height={height} />}
+      </div>
+
+      {legendItems.length > 1 && <ChartLegend items={legendItems} hidden={hidden} onToggle={toggle} />}
+    </div>
+  );
+}
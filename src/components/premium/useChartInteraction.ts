@@ -0,0 +1,79 @@
+import { useCallback, useState } from 'react';
+
+/**
+ * Shared hover/keyboard layer for the SVG charts: a cursor index driven by the mouse or the
+ * arrow keys, and the set of series hidden from the legend. Rendering lives in ChartInteraction.
+ */
+
+export type TooltipRow = { color: string; label: string; value: string };
+
+type CursorOptions = {
+  count: number;
+  width: number;                                     // viewBox size, to map client pixels back to SVG units
+  height: number;
+  nearest: (x: number, y: number) => number | null;  // index of the item under an SVG coordinate
+};
+
+export function useChartCursor({ count, width, height, nearest }: CursorOptions) {
+  const [index, setIndex] = useState<number | null>(null);
+  const active = index != null && index < count ? index : null;
+
+  const onMouseMove = useCallback((e: React.MouseEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    if (!rect.width || !rect.height) return;
+    // The viewBox is scaled uniformly (xMidYMid meet), so one factor maps both axes
+    const k = Math.max(width / rect.width, height / rect.height);
+    const x = (e.clientX - rect.left - (rect.width - width / k) / 2) * k;
+    const y = (e.clientY - rect.top - (rect.height - height / k) / 2) * k;
+    setIndex(nearest(x, y));
+  }, [nearest, width, height]);
+
+  const onKeyDown = useCallback((e: React.KeyboardEvent<SVGSVGElement>) => {
+    if (!count) return;
+    const last = count - 1;
+    const next =
+      e.key === 'ArrowRight' || e.key === 'ArrowDown' ? (active == null ? 0 : Math.min(last, active + 1)) :
+      e.key === 'ArrowLeft' || e.key === 'ArrowUp' ? (active == null ? last : Math.max(0, active - 1)) :
+      e.key === 'Home' ? 0 :
+      e.key === 'End' ? last :
+      e.key === 'Escape' ? null : undefined;
+    if (next === undefined) return;
+    e.preventDefault();
+    setIndex(next);
+  }, [active, count]);
+
+  return {
+    index: active,
+    setIndex,
+    svgProps: {
+      tabIndex: 0,
+      onMouseMove,
+      onMouseLeave: () => setIndex(null),
+      onKeyDown,
+      onBlur: () => setIndex(null),
+    },
+  };
+}
+
+/** Nearest-point lookup over x positions that are sorted left to right. */
+export function nearestIndex(xs: number[], x: number): number | null {
+  if (!xs.length) return null;
+  let best = 0;
+  for (let i = 1; i < xs.length; i++) if (Math.abs(xs[i] - x) < Math.abs(xs[best] - x)) best = i;
+  return best;
+}
+
+/** Hidden-series set with a toggle that never hides the last visible series. */
+export function useHiddenSeries(ids: string[]) {
+  const [hidden, setHidden] = useState<Set<string>>(new Set());
+  const visible = new Set(ids.filter(id => !hidden.has(id)));
+  const toggle = useCallback((id: string) => {
+    setHidden(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else if (ids.some(other => other !== id && !prev.has(other))) next.add(id);
+      return next;
+    });
+  }, [ids]);
+  return { hidden, visible, toggle };
+}
@@ -0,0 +1,49 @@
+import { useRef } from 'react';
+import { PROJECT_EXTENSION } from '../../lib/project';
+import type { WorkspaceInfo } from '../../lib/workspaces';
+
+type WorkspaceBarProps = {
+  current: { id: string; name: string };
+  workspaces: WorkspaceInfo[];
+  status: string;           // save state, e.g. "Saved 14:02"
+  error?: string;
+  onRename: (name: string) => void;
+  onOpen: (id: string) => void;
+  onNew: () => void;
+  onDelete: (id: string) => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+};
+
+const savedTime = (iso: string) => new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+/** The open workspace's name and save state, switching between saved workspaces, and project file export/import. */
+export default function WorkspaceBar({ current, workspaces, status, error, onRename, onOpen, onNew, onDelete, onExport, onImport }: WorkspaceBarProps) {
+  const fileRef = useRef<HTMLInputElement | null>(null);
+  const others = workspaces.filter(w => w.id !== current.id);
+
+  return (
+    <div className="mb-6 rounded-2xl border bg-white px-4 py-3 shadow-sm text-xs">
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="inline-flex items-center gap-2 text-slate-600">Workspace
+          <input value={current.name} onChange={e => onRename(e.target.value)} aria-label="Workspace name" className="w-52 rounded-lg border px-2 py-1.5 text-sm font-semibold text-slate-900" />
+        </label>
+        <span className={error ? 'text-red-600' : 'text-slate-400'} role="status">{error ?? status}</span>
+        <div className="ml-auto flex flex-wrap items-center gap-2">
+          {others.length > 0 && (
+            <select value="" onChange={e => e.target.value && onOpen(e.target.value)} aria-label="Open workspace" className="rounded-lg border px-2 py-1.5 bg-white">
+              <option value="">Open…</option>
+              {others.map(w => (<option key={w.id} value={w.id}>{w.name} · {w.rows} rows · {savedTime(w.savedAt)}</option>))}
+            </select>
+          )}
+          <button type="button" onClick={onNew} className="rounded-lg border px-3 py-1.5 font-medium hover:bg-slate-50">New</button>
+          <button type="button" onClick={() => { if (window.confirm(`Delete "${current.name}"? This can't be undone.`)) onDelete(current.id); }} className="rounded-lg border px-3 py-1.5 font-medium text-red-600 hover:bg-red-50">Delete</button>
+          <button type="button" onClick={onExport} className="rounded-lg border px-3 py-1.5 font-medium hover:bg-slate-50">Save file</button>
+          <button type="button" onClick={() => fileRef.current?.click()} className="rounded-lg border px-3 py-1.5 font-medium hover:bg-slate-50">Open file</button>
+          <input ref={fileRef} type="file" accept={`${PROJECT_EXTENSION},.json,application/json`} className="hidden"
+            onChange={e => { const f = e.target.files?.[0]; e.target.value = ''; if (f) onImport(f); }} />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+/**
+ * Server side of Askura: answers a question by letting the model call the dataset tools
+ * (askuraTools.ts) over the full table, then phrase an answer that quotes the computed figures.
+ * The chat model is a function, so the loop doesn't depend on one provider's API (adapters
+ * are in askuraProviders.ts). Answers can stream: text is passed on as the model writes it.
+ * Follow-ups are read against the earlier turns, which the server summarizes once there are
+ * many (askuraConversation.ts).
+ */
+import type { ChartSpec } from './chartSpec';
+import { type Conversation, KEEP_TURNS, SUMMARIZE_AFTER, describeReferents, transcriptText } from './askuraConversation';
+import type { Dataset } from './dataset';
+import { ASKURA_TOOLS, type ToolSpec, describeDataset, runTool } from './askuraTools';
+import { sseEvent } from './sse';
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  args: string;         // JSON text, as the model wrote it
+}
+
+export type ChatMessage =
+  | { role: 'system' | 'user'; content: string }
+  | { role: 'assistant'; content: string; toolCalls?: ToolCall[] }
+  | { role: 'tool'; toolCallId: string; content: string };
+
+export interface ChatReply {
+  content: string;
+  toolCalls: ToolCall[];
+}
+
+export interface ChatOptions {
+  onToken?: (text: string) => void;   // streams the reply's text as it is written
+  signal?: AbortSignal;
+  answerNow?: boolean;                // the tools stay defined, since earlier turns call them, but may not be called
+}
+
+/** One model turn: the conversation so far and the tools it may call. */
+export type ChatModel = (messages: ChatMessage[], tools: ToolSpec[], opts?: ChatOptions) => Promise<ChatReply>;
+
+/** A question with what it refers to: the chart on screen and the conversation so far. */
+export interface AskuraQuestion {
+  question: string;
+  context?: unknown;
+  conversation?: Conversation;
+}
+
+export interface AskuraAnswer {
+  answer: string;
+  calls: { name: string; args: string; result: object }[];   // the computations behind the answer
+  chart?: ChartSpec;                                          // the last chart the model showed
+  memory?: { summary: string; folded: number };               // the new summary and how many of the sent turns it covers
+}
+
+/** Tool rounds before the model must answer with what it has. */
+const MAX_TOOL_ROUNDS = 5;
+
+function systemPrompt(ds: Dataset, context: unknown, conversation?: Conversation): string {
+  const referents = conversation?.referents && describeReferents(ds, conversation.referents);
+  return [
+    'You are Askura, a concise data analyst. Answer questions about the user\'s table.',
+    'Never estimate or do arithmetic yourself: compute every figure with the tools, which run over all rows.',
+    'Answer in 1–2 sentences and quote figures exactly as the tools format them. If a tool returns an error, fix the call and try again.',
+    'When the user asks to see, plot, chart or compare something, also call show_chart; the chart appears next to your answer.',
+    `The chart currently shows: ${JSON.stringify(context ?? {})}`,
+    ...(conversation?.summary ? [`Earlier in this conversation: ${conversation.summary}`] : []),
+    ...(referents ? [`Follow-ups ("it", "that year", "and in 2023?", "why?") refer to the last question's ${referents}, unless they name something else.`] : []),
+    describeDataset(ds),
+  ].join('\n\n');
+}
+
+/**
+ * Folds all but the latest turns into the summary once a conversation grows long. If the
+ * model can't summarize, the turns are kept as sent; they are bounded anyway.
+ */
+export async function compactConversation(model: ChatModel, conversation: Conversation, signal?: AbortSignal): Promise<{ conversation: Conversation; memory?: AskuraAnswer['memory'] }> {
+  const { turns } = conversation;
+  if (turns.length <= SUMMARIZE_AFTER) return { conversation };
+  const older = turns.slice(0, -KEEP_TURNS);
+  const prompt = [
+    ...(conversation.summary ? [`Summary so far: ${conversation.summary}`] : []),
+    transcriptText(older),
+  ].join('\n\n');
+  try {
+    const reply = await model([
+      { role: 'system', content: 'Summarize this conversation about a data table in at most 5 sentences. Keep every metric, period, category member and figure discussed, and what the user was trying to find out.' },
+      { role: 'user', content: prompt },
+    ], [], { signal });
+    const summary = reply.content.trim();
+    if (!summary) return { conversation };
+    return { conversation: { ...conversation, summary, turns: turns.slice(-KEEP_TURNS) }, memory: { summary, folded: older.length } };
+  } catch (e) {
+    if (signal?.aborted) throw e;
+    return { conversation };
+  }
+}
+
+/** Text streamed from a turn that ends up calling tools is a preamble; the final answer replaces it. */
+export async function answerWithTools(model: ChatModel, ask: AskuraQuestion, ds: Dataset, opts: ChatOptions = {}): Promise<AskuraAnswer> {
+  const { conversation, memory } = ask.conversation
+    ? await compactConversation(model, ask.conversation, opts.signal)
+    : { conversation: undefined, memory: undefined };
+  const messages: ChatMessage[] = [
+    { role: 'system', content: systemPrompt(ds, ask.context, conversation) },
+    ...(conversation?.turns ?? []).map((t): ChatMessage => ({ role: t.role === 'user' ? 'user' : 'assistant', content: t.text })),
+    { role: 'user', content: ask.question },
+  ];
+  const calls: AskuraAnswer['calls'] = [];
+  let chart: ChartSpec | undefined;
+  for (let round = 0; ; round++) {
+    const answerNow = round >= MAX_TOOL_ROUNDS;
+    const reply = await model(messages, ASKURA_TOOLS, { ...opts, answerNow });
+    if (!reply.toolCalls.length || answerNow) {
+      const answer = reply.content.trim();
+      if (!answer) throw new Error('No answer from the model.');
+      return { answer, calls, ...(chart ? { chart } : {}), ...(memory ? { memory } : {}) };
+    }
+    messages.push({ role: 'assistant', content: reply.content, toolCalls: reply.toolCalls });
+    for (const call of reply.toolCalls) {
+      const result = runTool(ds, call.name, call.args);
+      calls.push({ name: call.name, args: call.args, result });
+      if ('chart' in result) chart = result.chart as ChartSpec;
+      messages.push({ role: 'tool', toolCallId: call.id, content: JSON.stringify(result) });
+    }
+  }
+}
+
+/**
+ * The answer as server-sent events: `token` events carry text as it is written, `reset` drops
+ * text that turned out to be a preamble to tool calls, then `done` has the answer and the
+ * computations behind it, or `error` says why there is none.
+ */
+export async function streamAnswer(write: (chunk: string) => void, model: ChatModel, ask: AskuraQuestion, ds: Dataset, signal?: AbortSignal): Promise<void> {
+  const turn: ChatModel = async (messages, tools, opts) => {
+    const reply = await model(messages, tools, opts);
+    if (reply.toolCalls.length && reply.content) write(sseEvent('reset', {}));
+    return reply;
+  };
+  try {
+    const result = await answerWithTools(turn, ask, ds, { signal, onToken: text => write(sseEvent('token', { text })) });
+    write(sseEvent('done', result));
+  } catch (e) {
+    if (!signal?.aborted) write(sseEvent('error', { error: (e as Error).message || 'No answer from the model.' }));
+  }
+}
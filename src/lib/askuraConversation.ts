@@ -0,0 +1,81 @@
+/**
+ * The conversation a question belongs to, as the client sends it to the Askura server: the
+ * latest turns verbatim, a summary of older ones, and the referents the local engine resolved
+ * ("that year", "it") so the server reads follow-ups the way `answerLocal` does. Everything
+ * here comes from the request body, so it is read defensively and bounded.
+ */
+import { type Dataset, columnByKey, columnLabel } from './dataset';
+
+export interface Turn {
+  role: 'user' | 'ai';
+  text: string;
+}
+
+/** What earlier questions referred to; the client's Askura memory carries the same fields. */
+export interface Referents {
+  metric?: string;      // numeric column key
+  year?: string;        // period
+  years?: string[];     // periods compared
+  group?: string;       // category column key
+  member?: string;      // a value of `group`
+  value?: number;       // the last figure given
+}
+
+export interface Conversation {
+  summary?: string;     // older turns, summarized by the server
+  turns: Turn[];        // the latest turns, oldest first
+  referents?: Referents;
+}
+
+/** Turns a request may carry; older ones belong in the summary. */
+export const MAX_TURNS = 20;
+/** Turns kept verbatim once the server summarizes the rest. */
+export const KEEP_TURNS = 6;
+/** The server summarizes when more turns than this arrive. */
+export const SUMMARIZE_AFTER = 10;
+
+const MAX_TURN_LENGTH = 2000;
+const MAX_SUMMARY_LENGTH = 4000;
+
+const clip = (s: string, max: number) => s.length > max ? `${s.slice(0, max - 1)}…` : s;
+
+/** The conversation in a request body; anything malformed is left out. */
+export function readConversation(body: { history?: unknown; summary?: unknown; referents?: unknown }): Conversation {
+  const turns = (Array.isArray(body.history) ? body.history : [])
+    .filter((t): t is Turn => typeof t === 'object' && t != null && (t.role === 'user' || t.role === 'ai') && typeof t.text === 'string' && !!t.text.trim())
+    .slice(-MAX_TURNS)
+    .map(t => ({ role: t.role, text: clip(t.text.trim(), MAX_TURN_LENGTH) }));
+  const summary = typeof body.summary === 'string' && body.summary.trim() ? clip(body.summary.trim(), MAX_SUMMARY_LENGTH) : undefined;
+  const referents = readReferents(body.referents);
+  return { turns, ...(summary ? { summary } : {}), ...(referents ? { referents } : {}) };
+}
+
+function readReferents(raw: unknown): Referents | undefined {
+  if (typeof raw !== 'object' || raw == null) return undefined;
+  const v = raw as Record<string, unknown>;
+  const text = (x: unknown) => typeof x === 'string' && x.trim() ? clip(x.trim(), 200) : undefined;
+  const r: Referents = {
+    metric: text(v.metric), year: text(v.year), group: text(v.group), member: text(v.member),
+    years: Array.isArray(v.years) ? v.years.map(text).filter((y): y is string => !!y).slice(0, 4) : undefined,
+    value: typeof v.value === 'number' && isFinite(v.value) ? v.value : undefined,
+  };
+  const set = Object.fromEntries(Object.entries(r).filter(([, x]) => x !== undefined && !(Array.isArray(x) && !x.length)));
+  return Object.keys(set).length ? set : undefined;
+}
+
+/** Referents as a sentence for the model: "metric revenue (Sales (Revenue)), period 2024, Supplier Skyline". */
+export function describeReferents(ds: Dataset, r: Referents): string {
+  const parts: string[] = [];
+  if (r.metric) parts.push(`metric ${r.metric}${columnByKey(ds, r.metric) ? ` (${columnLabel(ds, r.metric)})` : ''}`);
+  if (r.years && r.years.length > 1) parts.push(`periods ${r.years.join(' and ')}`);
+  else if (r.year) parts.push(`period ${r.year}`);
+  if (r.group && r.member) parts.push(`${columnByKey(ds, r.group)?.label ?? r.group} ${r.member}`);
+  else if (r.group) parts.push(`grouped by ${r.group}`);
+  if (r.value !== undefined) parts.push(`last figure ${r.value}`);
+  return parts.join(', ');
+}
+
+/** The turns as plain text, for summarizing. */
+export function transcriptText(turns: Turn[]): string {
+  return turns.map(t => `${t.role === 'user' ? 'User' : 'Askura'}: ${t.text}`).join('\n');
+}
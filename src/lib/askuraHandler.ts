@@ -0,0 +1,79 @@
+/**
+ * The /api/askura endpoint, shared by the Vercel function (api/askura.ts) and the Next.js
+ * route (pages/api/askura.ts). Request and response are typed structurally, so the same code
+ * runs under both without either framework's types.
+ */
+import { type AskuraQuestion, answerWithTools, streamAnswer } from './askuraAgent';
+import { readConversation } from './askuraConversation';
+import { type Env, chatModelFromEnv } from './askuraProviders';
+import { readDataset } from './project';
+
+export interface AskuraRequest {
+  method?: string;
+  body?: unknown;
+  headers: { accept?: string };
+}
+
+export interface AskuraResponse {
+  status(code: number): { json(body: unknown): unknown };
+  setHeader(name: string, value: string): unknown;
+  write(chunk: string): unknown;
+  end(): unknown;
+  on(event: 'close', listener: () => void): unknown;
+}
+
+/** The server's environment, read without Node typings. */
+export function serverEnv(): Env {
+  return (globalThis as { process?: { env?: Env } }).process?.env ?? {};
+}
+
+export async function handleAskura(req: AskuraRequest, res: AskuraResponse, env: Env = serverEnv()): Promise<void> {
+  if (req.method !== 'POST') {
+    res.status(405).json({ error: 'Method Not Allowed. Use POST.' });
+    return;
+  }
+  try {
+    const { question, rows, columns, context, history, summary, referents } = (req.body ?? {}) as Record<string, unknown>;
+    if (!question || !Array.isArray(rows) || !context) {
+      res.status(400).json({ error: 'Bad Request: missing "question", "rows", or "context".' });
+      return;
+    }
+
+    let dataset;
+    try { dataset = readDataset({ columns, rows }); } catch (e) {
+      res.status(400).json({ error: `Bad Request: ${(e as Error).message}` });
+      return;
+    }
+
+    // A missing key or bad setting is the server's configuration, not the model failing
+    let model;
+    try { model = chatModelFromEnv(env); } catch (e) {
+      res.status(401).json({ error: (e as Error).message });
+      return;
+    }
+
+    // Earlier turns travel with the question, so follow-ups keep their context
+    const ask: AskuraQuestion = { question: String(question), context, conversation: readConversation({ history, summary, referents }) };
+
+    // The model computes figures with tools over every row rather than reading a sample.
+    // Clients that accept server-sent events get the answer as it is written.
+    if (String(req.headers.accept ?? '').includes('text/event-stream')) {
+      res.setHeader('Content-Type', 'text/event-stream');
+      res.setHeader('Cache-Control', 'no-cache, no-transform');
+      const abort = new AbortController();
+      res.on('close', () => abort.abort());
+      await streamAnswer(chunk => res.write(chunk), model, ask, dataset, abort.signal);
+      res.end();
+      return;
+    }
+
+    let result;
+    try { result = await answerWithTools(model, ask, dataset); } catch (e) {
+      res.status(502).json({ error: (e as Error).message || 'No answer from the model.' });
+      return;
+    }
+    res.status(200).json(result);
+  } catch (e) {
+    res.status(500).json({ error: (e as Error).message || 'Unknown server error' });
+  }
+}
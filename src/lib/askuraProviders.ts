@@ -0,0 +1,275 @@
+/**
+ * Chat model providers for Askura. Each adapter turns one provider's API into a ChatModel, so
+ * the tool loop in askuraAgent.ts runs unchanged on any of them. The server picks one from
+ * its environment:
+ *
+ *   ASKURA_PROVIDER     openai (default), anthropic, azure or mock
+ *   ASKURA_MODEL        model name; each provider has a default
+ *   ASKURA_TEMPERATURE  0–2, default 0.2
+ *   ASKURA_MOCK_ROUNDS  tool rounds the mock takes before answering, default 1
+ *   OPENAI_API_KEY, OPENAI_BASE_URL           any OpenAI-compatible endpoint, e.g. a local server
+ *   ANTHROPIC_API_KEY, ANTHROPIC_BASE_URL
+ *   AZURE_OPENAI_API_KEY, AZURE_OPENAI_ENDPOINT, AZURE_OPENAI_DEPLOYMENT, AZURE_OPENAI_API_VERSION
+ *
+ * The mock provider needs no network: it answers every question with one deterministic tool
+ * call, which is enough to exercise the endpoint offline (`npm run check:askura`).
+ */
+import type { ChatMessage, ChatModel, ChatReply, ToolCall } from './askuraAgent';
+import { readEvents } from './sse';
+
+export type ProviderId = 'openai' | 'anthropic' | 'azure' | 'mock';
+export const PROVIDERS: ProviderId[] = ['openai', 'anthropic', 'azure', 'mock'];
+
+export type Env = Record<string, string | undefined>;
+
+export interface ProviderConfig {
+  provider: ProviderId;
+  model: string;
+  temperature: number;
+}
+
+const DEFAULT_MODELS: Record<ProviderId, string> = {
+  openai: 'gpt-4o-mini',
+  anthropic: 'claude-3-5-haiku-latest',
+  azure: 'gpt-4o-mini',
+  mock: 'mock',
+};
+const DEFAULT_TEMPERATURE = 0.2;
+const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+const ANTHROPIC_BASE_URL = 'https://api.anthropic.com/v1';
+const ANTHROPIC_VERSION = '2023-06-01';
+const AZURE_API_VERSION = '2024-06-01';
+const MAX_TOKENS = 1024;
+
+/** The provider, model and temperature the environment asks for; throws when a setting is invalid. */
+export function providerConfig(env: Env): ProviderConfig {
+  const name = (env.ASKURA_PROVIDER || 'openai').trim().toLowerCase();
+  if (!PROVIDERS.includes(name as ProviderId)) throw new Error(`Unknown ASKURA_PROVIDER "${name}". Providers: ${PROVIDERS.join(', ')}.`);
+  const provider = name as ProviderId;
+  const t = env.ASKURA_TEMPERATURE?.trim() ? Number(env.ASKURA_TEMPERATURE) : DEFAULT_TEMPERATURE;
+  if (!isFinite(t) || t < 0 || t > 2) throw new Error(`ASKURA_TEMPERATURE must be a number from 0 to 2, not "${env.ASKURA_TEMPERATURE}".`);
+  return { provider, model: env.ASKURA_MODEL?.trim() || (provider === 'azure' && env.AZURE_OPENAI_DEPLOYMENT) || DEFAULT_MODELS[provider], temperature: t };
+}
+
+function required(env: Env, key: string): string {
+  const v = env[key]?.trim();
+  if (!v) throw new Error(`${key} is not set on the server.`);
+  return v;
+}
+
+const trimSlash = (url: string) => url.replace(/\/+$/, '');
+
+/** The ChatModel the environment asks for. Throws when the server isn't set up for it (a missing key, say); calls fail later. */
+export function chatModelFromEnv(env: Env): ChatModel {
+  const { provider, model, temperature } = providerConfig(env);
+  switch (provider) {
+    case 'openai': {
+      const baseUrl = trimSlash(env.OPENAI_BASE_URL?.trim() || OPENAI_BASE_URL);
+      // Local OpenAI-compatible servers usually take no key
+      const apiKey = baseUrl === OPENAI_BASE_URL ? required(env, 'OPENAI_API_KEY') : env.OPENAI_API_KEY?.trim();
+      return openAiCompatibleChat({ url: `${baseUrl}/chat/completions`, headers: apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}, model, temperature, label: 'OpenAI' });
+    }
+    case 'azure': {
+      const endpoint = trimSlash(required(env, 'AZURE_OPENAI_ENDPOINT'));
+      const deployment = env.AZURE_OPENAI_DEPLOYMENT?.trim() || model;
+      const version = env.AZURE_OPENAI_API_VERSION?.trim() || AZURE_API_VERSION;
+      return openAiCompatibleChat({
+        url: `${endpoint}/openai/deployments/${encodeURIComponent(deployment)}/chat/completions?api-version=${encodeURIComponent(version)}`,
+        headers: { 'api-key': required(env, 'AZURE_OPENAI_API_KEY') }, temperature, label: 'Azure OpenAI',
+      });
+    }
+    case 'anthropic':
+      return anthropicChat({ baseUrl: trimSlash(env.ANTHROPIC_BASE_URL?.trim() || ANTHROPIC_BASE_URL), apiKey: required(env, 'ANTHROPIC_API_KEY'), model, temperature });
+    case 'mock': {
+      const rounds = Number(env.ASKURA_MOCK_ROUNDS?.trim() || 1);
+      if (!Number.isInteger(rounds) || rounds < 0) throw new Error(`ASKURA_MOCK_ROUNDS must be a whole number, not "${env.ASKURA_MOCK_ROUNDS}".`);
+      return mockChat(rounds);
+    }
+  }
+}
+
+async function post(url: string, headers: Record<string, string>, body: object, label: string, signal?: AbortSignal): Promise<Response> {
+  const r = await fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json', ...headers }, body: JSON.stringify(body), signal });
+  if (!r.ok) throw new Error(`${label} error (${r.status}): ${await r.text()}`);
+  return r;
+}
+
+async function readJson<T>(r: Response, label: string): Promise<T> {
+  const text = await r.text();
+  try { return JSON.parse(text); } catch { throw new Error(`Invalid JSON from ${label}.`); }
+}
+
+/* OpenAI-compatible chat completions (OpenAI, Azure OpenAI, local servers) */
+
+type OpenAiToolCall = { id: string; function: { name: string; arguments: string } };
+
+/** Reads a streamed completion: text deltas go to `onToken`, tool calls arrive in pieces by index. */
+async function readOpenAiStream(body: ReadableStream<Uint8Array>, onToken: (text: string) => void): Promise<ChatReply> {
+  let content = '';
+  const calls: OpenAiToolCall[] = [];
+  await readEvents(body, ({ data }) => {
+    if (typeof data !== 'object' || data == null) return;     // "[DONE]"
+    const delta = (data as { choices?: { delta?: { content?: string | null; tool_calls?: { index: number; id?: string; function?: { name?: string; arguments?: string } }[] } }[] }).choices?.[0]?.delta;
+    if (delta?.content) {
+      content += delta.content;
+      onToken(delta.content);
+    }
+    for (const part of delta?.tool_calls ?? []) {
+      const call = calls[part.index] ??= { id: '', function: { name: '', arguments: '' } };
+      if (part.id) call.id = part.id;
+      if (part.function?.name) call.function.name += part.function.name;
+      if (part.function?.arguments) call.function.arguments += part.function.arguments;
+    }
+  });
+  return { content, toolCalls: calls.filter(Boolean).map(c => ({ id: c.id, name: c.function.name, args: c.function.arguments })) };
+}
+
+/** A ChatModel for any chat completions endpoint with function tools. Azure names the model in the URL, so `model` is optional. */
+export function openAiCompatibleChat(opts: { url: string; headers: Record<string, string>; model?: string; temperature: number; label: string }): ChatModel {
+  return async (messages, tools, chat = {}) => {
+    const body = {
+      ...(opts.model ? { model: opts.model } : {}),
+      temperature: opts.temperature,
+      ...(chat.onToken ? { stream: true } : {}),
+      messages: messages.map(m => {
+        if (m.role === 'tool') return { role: 'tool', tool_call_id: m.toolCallId, content: m.content };
+        if (m.role === 'assistant' && m.toolCalls?.length) {
+          return { role: 'assistant', content: m.content || null, tool_calls: m.toolCalls.map(c => ({ id: c.id, type: 'function', function: { name: c.name, arguments: c.args } })) };
+        }
+        return { role: m.role, content: m.content };
+      }),
+      ...(tools.length ? { tools: tools.map(t => ({ type: 'function', function: t })), ...(chat.answerNow ? { tool_choice: 'none' } : {}) } : {}),
+    };
+    const r = await post(opts.url, opts.headers, body, opts.label, chat.signal);
+    if (chat.onToken && r.body) return readOpenAiStream(r.body, chat.onToken);
+    const data = await readJson<{ choices?: { message?: { content?: string | null; tool_calls?: OpenAiToolCall[] } }[] }>(r, opts.label);
+    const message = data.choices?.[0]?.message;
+    if (!message) throw new Error(`No answer from ${opts.label}.`);
+    return {
+      content: message.content ?? '',
+      toolCalls: (message.tool_calls ?? []).map(c => ({ id: c.id, name: c.function.name, args: c.function.arguments })),
+    };
+  };
+}
+
+/* Anthropic-style messages */
+
+type AnthropicBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: unknown }
+  | { type: 'tool_result'; tool_use_id: string; content: string };
+type AnthropicMessage = { role: 'user' | 'assistant'; content: AnthropicBlock[] };
+
+/** System text goes apart; tool results are user turns, and consecutive turns of one role merge. */
+function anthropicMessages(messages: ChatMessage[]): { system: string; messages: AnthropicMessage[] } {
+  const system: string[] = [];
+  const out: AnthropicMessage[] = [];
+  const push = (role: AnthropicMessage['role'], blocks: AnthropicBlock[]) => {
+    const last = out[out.length - 1];
+    if (last?.role === role) last.content.push(...blocks);
+    else out.push({ role, content: blocks });
+  };
+  for (const m of messages) {
+    if (m.role === 'tool') push('user', [{ type: 'tool_result', tool_use_id: m.toolCallId, content: m.content }]);
+    else if (m.role !== 'assistant') {
+      if (m.role === 'system') system.push(m.content);
+      else push('user', [{ type: 'text', text: m.content }]);
+    } else {
+      push('assistant', [
+        ...(m.content ? [{ type: 'text' as const, text: m.content }] : []),
+        ...(m.toolCalls ?? []).map(c => ({ type: 'tool_use' as const, id: c.id, name: c.name, input: parseInput(c.args) })),
+      ]);
+    }
+  }
+  return { system: system.join('\n\n'), messages: out };
+}
+
+function parseInput(args: string): unknown {
+  try { return JSON.parse(args || '{}'); } catch { return {}; }
+}
+
+/** Reads a streamed message: text deltas go to `onToken`, tool input arrives as JSON pieces per block. */
+async function readAnthropicStream(body: ReadableStream<Uint8Array>, onToken: (text: string) => void): Promise<ChatReply> {
+  let content = '';
+  const calls: ToolCall[] = [];
+  const byBlock = new Map<number, ToolCall>();
+  await readEvents(body, ({ event, data }) => {
+    const d = data as { index?: number; content_block?: { type: string; id?: string; name?: string }; delta?: { type: string; text?: string; partial_json?: string }; error?: { message?: string } };
+    if (event === 'error') throw new Error(`Anthropic error: ${d.error?.message ?? 'stream failed'}`);
+    if (event === 'content_block_start' && d.content_block?.type === 'tool_use') {
+      const call = { id: d.content_block.id ?? '', name: d.content_block.name ?? '', args: '' };
+      byBlock.set(d.index ?? 0, call);
+      calls.push(call);
+    } else if (event === 'content_block_delta' && d.delta?.type === 'text_delta' && d.delta.text) {
+      content += d.delta.text;
+      onToken(d.delta.text);
+    } else if (event === 'content_block_delta' && d.delta?.type === 'input_json_delta') {
+      const call = byBlock.get(d.index ?? 0);
+      if (call) call.args += d.delta.partial_json ?? '';
+    }
+  });
+  return { content, toolCalls: calls.map(c => ({ ...c, args: c.args || '{}' })) };
+}
+
+/** A ChatModel for an Anthropic-style messages endpoint with tool use. */
+export function anthropicChat(opts: { baseUrl: string; apiKey: string; model: string; temperature: number }): ChatModel {
+  return async (messages, tools, chat = {}) => {
+    const { system, messages: turns } = anthropicMessages(messages);
+    const body = {
+      model: opts.model,
+      max_tokens: MAX_TOKENS,
+      temperature: Math.min(opts.temperature, 1),
+      ...(system ? { system } : {}),
+      ...(chat.onToken ? { stream: true } : {}),
+      messages: turns,
+      // Earlier tool_use blocks need their tools defined even when none may be called now
+      ...(tools.length ? {
+        tools: tools.map(t => ({ name: t.name, description: t.description, input_schema: t.parameters })),
+        ...(chat.answerNow ? { tool_choice: { type: 'none' } } : {}),
+      } : {}),
+    };
+    const headers = { 'x-api-key': opts.apiKey, 'anthropic-version': ANTHROPIC_VERSION };
+    const r = await post(`${opts.baseUrl}/messages`, headers, body, 'Anthropic', chat.signal);
+    if (chat.onToken && r.body) return readAnthropicStream(r.body, chat.onToken);
+    const data = await readJson<{ content?: AnthropicBlock[] }>(r, 'Anthropic');
+    if (!data.content) throw new Error('No answer from Anthropic.');
+    return {
+      content: data.content.map(b => b.type === 'text' ? b.text : '').join(''),
+      toolCalls: data.content.flatMap(b => b.type === 'tool_use' ? [{ id: b.id, name: b.name, args: JSON.stringify(b.input ?? {}) }] : []),
+    };
+  };
+}
+
+/* Mock */
+
+/**
+ * A deterministic offline model. Offered tools, it totals the first numeric column the system
+ * prompt lists, `rounds` times; then it quotes the result. Without tools (summaries) it answers
+ * from the conversation's length. Like the real APIs, it rejects tool results sent without
+ * the tools defined. Replies stream word by word like a real model.
+ */
+export function mockChat(rounds = 1): ChatModel {
+  return async (messages, tools, chat = {}) => {
+    if (!tools.length && messages.some(m => m.role === 'tool')) throw new Error('Mock error: tool results were sent without the tools defined.');
+    const reply = mockReply(messages, chat.answerNow ? [] : tools.map(t => t.name), rounds);
+    if (chat.onToken && reply.content) reply.content.split(/(?<= )/).forEach(chat.onToken);
+    return reply;
+  };
+}
+
+function mockReply(messages: ChatMessage[], tools: string[], rounds: number): ChatReply {
+  const asked = messages.map(m => m.role).lastIndexOf('user');
+  const results = messages.slice(asked + 1).filter(m => m.role === 'tool');
+  const system = messages.find(m => m.role === 'system')?.content ?? '';
+  const column = /^- (\S+) \("[^"]*", (?:number|currency|percent)/m.exec(system)?.[1];
+  if (tools.includes('aggregate') && column && results.length < rounds) {
+    return { content: '', toolCalls: [{ id: `mock-${results.length + 1}`, name: 'aggregate', args: JSON.stringify({ column }) }] };
+  }
+  const last = results[results.length - 1];
+  if (last) {
+    const result = parseInput(last.content) as { column?: string; formatted?: string; error?: string };
+    return { content: result.error ? `The mock could not compute that: ${result.error}` : `${result.column ?? 'The total'}: ${result.formatted ?? 'no figure'}.`, toolCalls: [] };
+  }
+  const turns = messages.filter(m => m.role === 'user' || m.role === 'assistant').length;
+  return { content: `Mock answer after ${turns} message${turns === 1 ? '' : 's'}.`, toolCalls: [] };
+}
@@ -0,0 +1,224 @@
+/**
+ * Dataset tools for Askura's model. Instead of reading a sample of rows, the model calls these
+ * to compute figures over the whole table: a single aggregate, matching rows, a group-by, a
+ * top-N ranking and a comparison of two periods. Every tool is deterministic and returns
+ * each figure both raw and formatted like the column, for the answer to quote. One more
+ * tool attaches a chart to the answer.
+ */
+import { SPEC_MODES, checkChartSpec } from './chartSpec';
+import { type Column, type Dataset, type Row, cellText, columnByKey, comparePeriods, defaultAggregation, isNumeric, periodColumn } from './dataset';
+import { columnFormatter } from './format';
+import { matchesFilter } from './grid';
+import { type Measure, type Summary, SUMMARIES, summarize, summarizeBy } from './pivot';
+import { addPeriods, grainRank, parsePeriod } from './time';
+
+/** A tool as offered to the model: JSON Schema parameters, as chat APIs expect them. */
+export interface ToolSpec {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+const MAX_GROUPS = 50;
+const MAX_ROWS = 20;
+
+const COLUMN = { type: 'string', description: 'Column key' };
+const SUMMARY = { type: 'string', enum: SUMMARIES.map(s => s.id), description: 'How values combine; defaults to the column\'s own aggregation' };
+const WEIGHT = { type: 'string', description: 'Weight column key, for summary "weighted"' };
+const WHERE = {
+  type: 'object',
+  additionalProperties: { type: 'string' },
+  description: 'Row filters by column key. Numbers: "> 100", "<= 0.9", "10..20", "<> 0". Text: contains the value, "=Acme" for an exact match. "=" alone matches empty cells.',
+};
+
+export const ASKURA_TOOLS: ToolSpec[] = [
+  {
+    name: 'aggregate',
+    description: 'One figure for a column over all (or the filtered) rows.',
+    parameters: { type: 'object', properties: { column: COLUMN, summary: SUMMARY, weight: WEIGHT, where: WHERE }, required: ['column'] },
+  },
+  {
+    name: 'filter_rows',
+    description: `Rows matching the filters: how many, and the first ${MAX_ROWS}.`,
+    parameters: { type: 'object', properties: { where: WHERE, columns: { type: 'array', items: COLUMN, description: 'Columns to return; all by default' } }, required: ['where'] },
+  },
+  {
+    name: 'group_by',
+    description: `A figure per group of one or two columns (e.g. revenue per supplier per period), up to ${MAX_GROUPS} groups.`,
+    parameters: { type: 'object', properties: { by: { type: 'array', items: COLUMN, minItems: 1, maxItems: 2 }, column: COLUMN, summary: SUMMARY, weight: WEIGHT, where: WHERE }, required: ['by', 'column'] },
+  },
+  {
+    name: 'top_n',
+    description: 'The groups of a column ranked by a figure, largest first unless order is "asc", with each one\'s share of the total.',
+    parameters: { type: 'object', properties: { by: COLUMN, column: COLUMN, summary: SUMMARY, weight: WEIGHT, n: { type: 'integer', minimum: 1, maximum: MAX_GROUPS }, order: { type: 'string', enum: ['desc', 'asc'] }, where: WHERE }, required: ['by', 'column'] },
+  },
+  {
+    name: 'compare_periods',
+    description: 'A figure in two periods and the change between them. A coarser period ("2024") covers the finer rows inside it ("2024-03").',
+    parameters: { type: 'object', properties: { column: COLUMN, from: { type: 'string' }, to: { type: 'string' }, summary: SUMMARY, weight: WEIGHT, where: WHERE }, required: ['column', 'from', 'to'] },
+  },
+  {
+    name: 'show_chart',
+    description: 'Attach a chart to the answer when the user asks to see, plot or compare something. Metrics are plotted by period; splitBy draws one series per category member (pie with splitBy: one slice per member).',
+    parameters: {
+      type: 'object',
+      properties: {
+        mode: { type: 'string', enum: SPEC_MODES, description: '"dual" combines lines and bars with two axes' },
+        metrics: { type: 'array', items: COLUMN, minItems: 1, description: 'Numeric column keys' },
+        splitBy: { ...COLUMN, description: 'Category column key' },
+        filters: WHERE,
+        title: { type: 'string' },
+      },
+      required: ['mode', 'metrics'],
+    },
+  },
+];
+
+const round = (v: number) => parseFloat(v.toPrecision(10));
+const percent = (v: number) => Math.round(v * 10) / 10;
+
+function columnOf(ds: Dataset, key: unknown): Column {
+  const col = typeof key === 'string' ? columnByKey(ds, key) : undefined;
+  if (!col) throw new Error(`Unknown column ${JSON.stringify(key)}. Columns: ${ds.columns.map(c => c.key).join(', ')}.`);
+  return col;
+}
+
+function rowsWhere(ds: Dataset, where: unknown): Row[] {
+  if (where == null) return ds.rows;
+  if (typeof where !== 'object') throw new Error('"where" must map column keys to filter text.');
+  const filters = Object.entries(where as Record<string, unknown>).map(([key, f]) => ({ col: columnOf(ds, key), f: String(f ?? '') }));
+  return ds.rows.filter(r => filters.every(({ col, f }) => matchesFilter(r[col.key], f, col)));
+}
+
+/** Text columns can only be counted; numbers take any summary. */
+function measureOf(ds: Dataset, col: Column, args: Record<string, unknown>): Measure {
+  const numeric = isNumeric(col);
+  const agg = (args.summary ?? (numeric ? defaultAggregation(col) : 'count')) as Summary;
+  if (!SUMMARIES.some(s => s.id === agg)) throw new Error(`Unknown summary "${agg}".`);
+  if (!numeric && agg !== 'count' && agg !== 'distinct') throw new Error(`"${col.key}" is not numeric; use summary "count" or "distinct".`);
+  if (agg === 'weighted') return { key: col.key, agg, weight: columnOf(ds, args.weight).key };
+  return { key: col.key, agg };
+}
+
+/** A computed value, raw and as the column displays it. Counts aren't in the column's units. */
+function figure(col: Column, m: Measure, v: number) {
+  if (!isFinite(v)) return { value: null, formatted: 'no data' };
+  const counted = m.agg === 'count' || m.agg === 'distinct';
+  return { value: round(v), formatted: counted ? v.toLocaleString('en-US') : columnFormatter(col)(v) };
+}
+
+/** Rows of the period column inside `label`: the same text, or a finer period that starts within it. */
+function rowsInPeriod(ds: Dataset, rows: Row[], label: string): Row[] {
+  const pc = periodColumn(ds);
+  if (!pc) throw new Error('The table has no period column.');
+  const want = label.trim().toLowerCase(), p = parsePeriod(label);
+  const end = p && addPeriods(p.start, p.grain, 1);
+  return rows.filter(r => {
+    const text = cellText(r, pc.key);
+    if (text.trim().toLowerCase() === want) return true;
+    const rp = p && parsePeriod(text);
+    return !!(p && rp && grainRank(rp.grain) <= grainRank(p.grain) && rp.start >= p.start && rp.start < end!);
+  });
+}
+
+function aggregateTool(ds: Dataset, args: Record<string, unknown>) {
+  const col = columnOf(ds, args.column), m = measureOf(ds, col, args), rows = rowsWhere(ds, args.where);
+  return { column: col.label, summary: m.agg, rows: rows.length, ...figure(col, m, summarize(rows, m)) };
+}
+
+function filterTool(ds: Dataset, args: Record<string, unknown>) {
+  const rows = rowsWhere(ds, args.where);
+  const cols = Array.isArray(args.columns) && args.columns.length ? args.columns.map(k => columnOf(ds, k)) : ds.columns;
+  return {
+    matched: rows.length,
+    rows: rows.slice(0, MAX_ROWS).map(r => Object.fromEntries(cols.map(c => [c.key, r[c.key]]))),
+    ...(rows.length > MAX_ROWS ? { truncated: true } : {}),
+  };
+}
+
+function groupTool(ds: Dataset, args: Record<string, unknown>) {
+  const by = (Array.isArray(args.by) ? args.by : [args.by]).slice(0, 2).map(k => columnOf(ds, k));
+  const col = columnOf(ds, args.column), m = measureOf(ds, col, args);
+  const groups = summarizeBy(rowsWhere(ds, args.where), by.map(c => c.key), [m]);
+  // Periods read best in time order, anything else largest first
+  if (by[0].type === 'date') groups.sort((a, b) => comparePeriods(a.keys[0], b.keys[0]) || comparePeriods(a.keys[1] ?? '', b.keys[1] ?? ''));
+  else groups.sort((a, b) => (isFinite(b.values[0]) ? b.values[0] : -Infinity) - (isFinite(a.values[0]) ? a.values[0] : -Infinity));
+  return {
+    by: by.map(c => c.label), column: col.label, summary: m.agg, groupCount: groups.length,
+    groups: groups.slice(0, MAX_GROUPS).map(g => ({ group: g.keys, rows: g.rows.length, ...figure(col, m, g.values[0]) })),
+  };
+}
+
+function topTool(ds: Dataset, args: Record<string, unknown>) {
+  const by = columnOf(ds, args.by), col = columnOf(ds, args.column), m = measureOf(ds, col, args);
+  const n = Math.max(1, Math.min(MAX_GROUPS, Math.round(Number(args.n) || 5)));
+  const asc = args.order === 'asc';
+  const rows = rowsWhere(ds, args.where);
+  const groups = summarizeBy(rows, [by.key], [m]).filter(g => g.keys[0] !== '' && isFinite(g.values[0]));
+  groups.sort((a, b) => (asc ? a.values[0] - b.values[0] : b.values[0] - a.values[0]));
+  // Shares only add up for sums and counts
+  const total = m.agg === 'sum' || m.agg === 'count' ? summarize(rows, m) : NaN;
+  return {
+    by: by.label, column: col.label, summary: m.agg, order: asc ? 'asc' : 'desc', groupCount: groups.length,
+    ...(isFinite(total) ? { total: figure(col, m, total) } : {}),
+    top: groups.slice(0, n).map((g, i) => ({
+      rank: i + 1, group: g.keys[0], ...figure(col, m, g.values[0]),
+      ...(isFinite(total) && total ? { sharePct: percent(g.values[0] / total * 100) } : {}),
+    })),
+  };
+}
+
+function compareTool(ds: Dataset, args: Record<string, unknown>) {
+  const col = columnOf(ds, args.column), m = measureOf(ds, col, args), rows = rowsWhere(ds, args.where);
+  const at = (label: unknown) => {
+    const inPeriod = rowsInPeriod(ds, rows, String(label ?? ''));
+    if (!inPeriod.length) throw new Error(`No rows in period "${label}".`);
+    return { period: String(label), rows: inPeriod.length, v: summarize(inPeriod, m) };
+  };
+  const a = at(args.from), b = at(args.to);
+  const change = b.v - a.v;
+  return {
+    column: col.label, summary: m.agg,
+    from: { period: a.period, rows: a.rows, ...figure(col, m, a.v) },
+    to: { period: b.period, rows: b.rows, ...figure(col, m, b.v) },
+    change: figure(col, m, change),
+    changePct: isFinite(change) && a.v ? percent(change / Math.abs(a.v) * 100) : null,
+  };
+}
+
+const RUNNERS: Record<string, (ds: Dataset, args: Record<string, unknown>) => object> = {
+  aggregate: aggregateTool, filter_rows: filterTool, group_by: groupTool, top_n: topTool, compare_periods: compareTool,
+  show_chart: (ds, args) => ({ shown: true, chart: checkChartSpec(ds, args) }),
+};
+
+/** Runs a tool call. Bad arguments come back as `{ error }` so the model can correct its call. */
+export function runTool(ds: Dataset, name: string, args: string | Record<string, unknown>): object {
+  const run = RUNNERS[name];
+  if (!run) return { error: `Unknown tool "${name}".` };
+  let parsed: unknown = args;
+  if (typeof args === 'string') {
+    try { parsed = args.trim() ? JSON.parse(args) : {}; } catch { return { error: 'The arguments are not valid JSON.' }; }
+  }
+  try {
+    return run(ds, parsed && typeof parsed === 'object' ? parsed as Record<string, unknown> : {});
+  } catch (e) {
+    return { error: (e as Error).message };
+  }
+}
+
+/** What the model needs to phrase calls: columns, row count, the period range and a few members of each category. */
+export function describeDataset(ds: Dataset): string {
+  const pc = periodColumn(ds);
+  const lines = [`${ds.rows.length} rows.`, 'Columns:'];
+  for (const c of ds.columns) {
+    const members = c.type === 'category' ? Array.from(new Set(ds.rows.map(r => cellText(r, c.key)).filter(Boolean))) : [];
+    const extra = isNumeric(c) ? `, default summary ${defaultAggregation(c)}`
+      : members.length ? `, values: ${members.slice(0, 12).join(', ')}${members.length > 12 ? ` (+${members.length - 12} more)` : ''}` : '';
+    lines.push(`- ${c.key} ("${c.label}", ${c.type}${extra})`);
+  }
+  if (pc && ds.rows.length) {
+    const periods = Array.from(new Set(ds.rows.map(r => cellText(r, pc.key)).filter(Boolean))).sort(comparePeriods);
+    if (periods.length) lines.push(`Periods (${pc.key}): ${periods[0]} to ${periods[periods.length - 1]}, ${periods.length} distinct.`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,82 @@
+/**
+ * Chart specs: a chart described by what it shows — mode, metrics, an optional split by
+ * category and row filters — rather than by drawn points. Askura answers carry them, so an
+ * answer can be drawn in the chat, applied to the main chart or pinned to the slides, and
+ * always reflects the current table.
+ */
+import { type Dataset, categoryColumns, columnByKey, isNumeric } from './dataset';
+import { matchesFilter } from './grid';
+
+export interface ChartSpec {
+  mode: string;                        // a chart mode, e.g. "line", "bar", "pie"
+  metrics: string[];                   // numeric column keys; the first leads
+  splitBy?: string;                    // category column key: one series per member
+  filters?: Record<string, string>;    // filter text by column key, as in the grid
+  title?: string;
+}
+
+/** The modes a spec may ask for (see PremiumChart's ChartMode). */
+export const SPEC_MODES = ['line', 'area', 'bar', 'stacked', 'stacked100', 'scatter', 'dual', 'pie', 'hbar', 'hstacked', 'hstacked100'];
+
+const MAX_METRICS = 6;
+
+/** Only the rows every filter matches; filters on unknown columns are ignored. */
+export function filterDataset(ds: Dataset, filters: Record<string, string> | undefined): Dataset {
+  const active = ds.columns.filter(c => filters?.[c.key]?.trim());
+  if (!active.length) return ds;
+  return { columns: ds.columns, rows: ds.rows.filter(r => active.every(c => matchesFilter(r[c.key], filters![c.key], c))) };
+}
+
+/** Filters as words for titles: "Year 2024, Supplier Skyline". Exact matches ("=Skyline") drop their "=". */
+export function describeFilters(ds: Dataset, filters: Record<string, string> | undefined): string {
+  return ds.columns.filter(c => filters?.[c.key]?.trim())
+    .map(c => `${c.label} ${filters![c.key].trim().replace(/^=(?!=)\s*/, '')}`).join(', ');
+}
+
+/**
+ * A spec that fits the table, or the reason it doesn't. Metrics must be numeric columns,
+ * the split a category column and filters real columns.
+ */
+export function checkChartSpec(ds: Dataset, raw: unknown): ChartSpec {
+  const v = (typeof raw === 'object' && raw != null ? raw : {}) as Record<string, unknown>;
+  const mode = typeof v.mode === 'string' ? v.mode : 'line';
+  if (!SPEC_MODES.includes(mode)) throw new Error(`Unknown chart mode "${mode}". Modes: ${SPEC_MODES.join(', ')}.`);
+  const metrics = (Array.isArray(v.metrics) ? v.metrics : [v.metrics]).filter((m): m is string => typeof m === 'string');
+  if (!metrics.length) throw new Error('Name at least one metric.');
+  for (const m of metrics) {
+    if (!isNumeric(columnByKey(ds, m))) throw new Error(`"${m}" is not a numeric column. Numeric columns: ${ds.columns.filter(isNumeric).map(c => c.key).join(', ')}.`);
+  }
+  const splitBy = typeof v.splitBy === 'string' && v.splitBy ? v.splitBy : undefined;
+  if (splitBy && !categoryColumns(ds).some(c => c.key === splitBy)) {
+    throw new Error(`"${splitBy}" is not a category column. Category columns: ${categoryColumns(ds).map(c => c.key).join(', ') || 'none'}.`);
+  }
+  const filters: Record<string, string> = {};
+  if (typeof v.filters === 'object' && v.filters != null) {
+    for (const [k, f] of Object.entries(v.filters)) {
+      if (!columnByKey(ds, k)) throw new Error(`Unknown filter column "${k}".`);
+      if (typeof f === 'string' && f.trim()) filters[k] = f;
+    }
+  }
+  const title = typeof v.title === 'string' && v.title.trim() ? v.title.trim() : undefined;
+  return {
+    mode, metrics: Array.from(new Set(metrics)).slice(0, MAX_METRICS),
+    ...(splitBy ? { splitBy } : {}), ...(Object.keys(filters).length ? { filters } : {}), ...(title ? { title } : {}),
+  };
+}
+
+/** A stored spec, read leniently: it is checked against the table when drawn. */
+export function readChartSpec(raw: unknown): ChartSpec | undefined {
+  if (typeof raw !== 'object' || raw == null) return undefined;
+  const v = raw as Record<string, unknown>;
+  const metrics = Array.isArray(v.metrics) ? v.metrics.filter((m): m is string => typeof m === 'string') : [];
+  if (typeof v.mode !== 'string' || !metrics.length) return undefined;
+  const filters = typeof v.filters === 'object' && v.filters != null
+    ? Object.fromEntries(Object.entries(v.filters).filter((e): e is [string, string] => typeof e[1] === 'string'))
+    : undefined;
+  return {
+    mode: v.mode, metrics,
+    ...(typeof v.splitBy === 'string' && v.splitBy ? { splitBy: v.splitBy } : {}),
+    ...(filters && Object.keys(filters).length ? { filters } : {}),
+    ...(typeof v.title === 'string' && v.title ? { title: v.title } : {}),
+  };
+}
@@ -0,0 +1,127 @@
+/**
+ * RFC 4180 CSV/TSV parsing with delimiter sniffing and encoding detection.
+ * Quoted fields may contain delimiters, doubled quotes ("") and line breaks.
+ */
+
+export interface ParseIssue {
+  line: number;     // 1-based line in the source text
+  message: string;
+}
+
+export interface ParsedText {
+  rows: string[][];
+  lines: number[];  // source line each row starts on
+  delimiter: string;
+  issues: ParseIssue[];
+}
+
+export const DELIMITERS = [',', ';', '\t', '|'];
+
+export function delimiterName(d: string): string {
+  return d === '\t' ? 'Tab' : d === ',' ? 'Comma' : d === ';' ? 'Semicolon' : d === '|' ? 'Pipe' : d;
+}
+
+/** Decodes file bytes, honouring a BOM; falls back to Windows-1252 when the bytes are not valid UTF-8. */
+export function decodeText(buf: ArrayBuffer): { text: string; encoding: string } {
+  const b = new Uint8Array(buf);
+  if (b[0] === 0xef && b[1] === 0xbb && b[2] === 0xbf) return { text: new TextDecoder('utf-8').decode(b.subarray(3)), encoding: 'utf-8' };
+  if (b[0] === 0xff && b[1] === 0xfe) return { text: new TextDecoder('utf-16le').decode(b.subarray(2)), encoding: 'utf-16le' };
+  if (b[0] === 0xfe && b[1] === 0xff) return { text: new TextDecoder('utf-16be').decode(b.subarray(2)), encoding: 'utf-16be' };
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(b), encoding: 'utf-8' };
+  } catch {
+    return { text: new TextDecoder('windows-1252').decode(b), encoding: 'windows-1252' };
+  }
+}
+
+/** Counts a delimiter per line outside quotes, over the first few lines. */
+function delimiterCounts(text: string, d: string, maxLines = 20): number[] {
+  const counts: number[] = [];
+  let n = 0, inQuotes = false;
+  for (let i = 0; i < text.length && counts.length < maxLines; i++) {
+    const ch = text[i];
+    if (ch === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && ch === d) n++;
+    else if (!inQuotes && (ch === '\n' || ch === '\r')) {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      counts.push(n); n = 0;
+    }
+  }
+  if (counts.length < maxLines && n > 0) counts.push(n);
+  return counts;
+}
+
+/** Picks the delimiter that splits lines into the most consistent, non-trivial number of fields. */
+export function sniffDelimiter(text: string): string {
+  let best = ',', bestScore = -Infinity;
+  for (const d of DELIMITERS) {
+    const counts = delimiterCounts(text, d);
+    if (!counts.length || counts[0] === 0) continue;
+    const mean = counts.reduce((s, c) => s + c, 0) / counts.length;
+    const consistent = counts.filter(c => c === counts[0]).length / counts.length;
+    const score = consistent * 10 + Math.min(mean, 10) / 10;
+    if (score > bestScore) { best = d; bestScore = score; }
+  }
+  return best;
+}
+
+export function parseDelimited(input: string, delimiter?: string): ParsedText {
+  const text = input.charCodeAt(0) === 0xfeff ? input.slice(1) : input;
+  const d = delimiter ?? sniffDelimiter(text);
+  const rows: string[][] = [];
+  const lines: number[] = [];
+  const issues: ParseIssue[] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false, quotedField = false;
+  let line = 1, rowLine = 1, quoteLine = 1;
+
+  const endField = () => { row.push(quotedField ? field : field.trim()); field = ''; quotedField = false; };
+  const endRow = () => {
+    endField();
+    if (row.length > 1 || row[0] !== '') { rows.push(row); lines.push(rowLine); }
+    row = []; rowLine = line;
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') { field += '"'; i++; }
+        else inQuotes = false;
+      } else {
+        if (ch === '\n') line++;
+        field += ch;
+      }
+      continue;
+    }
+    if (ch === '"') {
+      if (field.trim() === '') { field = ''; inQuotes = true; quotedField = true; quoteLine = line; }
+      else field += ch; // stray quote inside an unquoted field: keep it literally
+    } else if (ch === d) {
+      endField();
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      line++;
+      endRow();
+    } else if (quotedField) {
+      if (ch.trim() !== '') {
+        issues.push({ line: rowLine, message: `Unexpected text after closing quote in field ${row.length + 1}.` });
+        quotedField = false;
+        field += ch;
+      }
+    } else {
+      field += ch;
+    }
+  }
+  if (inQuotes) issues.push({ line: quoteLine, message: 'Unterminated quoted field; read to end of file.' });
+  if (field !== '' || row.length) endRow();
+
+  return { rows, lines, delimiter: d, issues };
+}
+
+/** Writes rows as delimited text, quoting fields that contain the delimiter, quotes or line breaks. */
+export function toDelimited(rows: string[][], delimiter = ','): string {
+  const quote = (v: string) => (v.includes(delimiter) || /["\r\n]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v);
+  return rows.map(r => r.map(quote).join(delimiter)).join('\r\n');
+}
@@ -0,0 +1,236 @@
+/**
+ * Schema-free dataset model.
+ * A dataset is a list of typed columns plus plain rows keyed by column key,
+ * so charts, the grid, KPIs and Askura can work on whatever was imported.
+ */
+import { type DecimalSeparator, detectDecimal, isMissing, normalizeNumber, normalizePeriod } from './normalize';
+import { addPeriods, parsePeriod, periodLabel } from './time';
+import type { NumberFormat } from './format';
+import type { ColumnRules } from './validate';
+
+export type ColumnType = 'number' | 'currency' | 'percent' | 'date' | 'category' | 'text';
+export type Aggregation = 'sum' | 'avg' | 'last';
+
+export const AGGREGATIONS: Aggregation[] = ['sum', 'avg', 'last'];
+
+export interface Column {
+  key: string;          // stable identifier used in rows, e.g. "costPrice"
+  label: string;        // display name, e.g. "Cost Price"
+  type: ColumnType;
+  agg?: Aggregation;    // how values combine when rows are grouped or rolled up (defaults by type/name)
+  format?: NumberFormat; // display format for numeric columns (defaults by type)
+  formula?: string;     // derived column: values are computed from this expression (see formula.ts)
+  rules?: ColumnRules;  // validation (see validate.ts)
+  decimal?: DecimalSeparator; // decimal mark typed values use, as detected on import; "." when omitted
+}
+
+export type CellValue = string | number | null;
+export type Row = Record<string, CellValue>;
+
+export interface Dataset {
+  columns: Column[];
+  rows: Row[];
+}
+
+export const COLUMN_TYPES: ColumnType[] = ['number', 'currency', 'percent', 'date', 'category', 'text'];
+export const NUMERIC_TYPES: ColumnType[] = ['number', 'currency', 'percent'];
+
+export function isNumeric(col: Column | undefined): boolean {
+  return !!col && NUMERIC_TYPES.includes(col.type);
+}
+
+export function numericColumns(ds: Dataset): Column[] {
+  return ds.columns.filter(isNumeric);
+}
+
+export function categoryColumns(ds: Dataset): Column[] {
+  return ds.columns.filter(c => c.type === 'category');
+}
+
+export function columnByKey(ds: Dataset, key: string | undefined): Column | undefined {
+  return key == null ? undefined : ds.columns.find(c => c.key === key);
+}
+
+export function columnLabel(ds: Dataset, key: string | undefined): string {
+  return columnByKey(ds, key)?.label ?? key ?? '';
+}
+
+/** The column rows are ordered and charted along: the first date column, else the first non-numeric one. */
+export function periodColumn(ds: Dataset): Column | undefined {
+  return ds.columns.find(c => c.type === 'date') ?? ds.columns.find(c => !isNumeric(c));
+}
+
+export function cellNumber(row: Row, key: string): number {
+  const v = row[key];
+  return typeof v === 'number' && isFinite(v) ? v : 0;
+}
+
+export function cellText(row: Row, key: string): string {
+  const v = row[key];
+  return v == null ? '' : String(v);
+}
+
+/** Lenient number parsing via the normalizer; anything unreadable becomes 0. */
+export function parseNumber(v: string | number, decimal: DecimalSeparator = '.'): number {
+  return normalizeNumber(v, decimal).value ?? 0;
+}
+
+/**
+ * The cell value for typed or pasted text. Numbers are read with the column's decimal mark;
+ * text whose separators don't fit it ("1.234,5" in a "." column) is kept as text to be flagged.
+ */
+export function coerceCell(type: ColumnType, raw: string | number | null | undefined, decimal: DecimalSeparator = '.'): CellValue {
+  if (raw == null) return null;
+  if (NUMERIC_TYPES.includes(type)) {
+    if (typeof raw === 'number') return isFinite(raw) ? raw : null;
+    // Unreadable text is kept rather than read as 0, so validation can flag it
+    if (raw.trim() === '') return null;
+    const n = normalizeNumber(raw, decimal);
+    return n.value ?? (n.rules.includes('missing marker') ? null : raw.trim());
+  }
+  return String(raw).trim();
+}
+
+/** "Staff Exp (USD)" -> "staffExpUsd" */
+export function toKey(header: string): string {
+  const words = header.trim().replace(/[^A-Za-z0-9]+/g, ' ').trim().split(' ').filter(Boolean);
+  if (!words.length) return 'column';
+  const key = words.map((w, i) => i === 0 ? w.charAt(0).toLowerCase() + w.slice(1) : w.charAt(0).toUpperCase() + w.slice(1).toLowerCase()).join('');
+  return /^[0-9]/.test(key) ? `c${key}` : key;
+}
+
+export function uniqueKey(base: string, taken: Iterable<string>): string {
+  const used = new Set(taken);
+  if (!used.has(base)) return base;
+  let i = 2;
+  while (used.has(`${base}${i}`)) i++;
+  return `${base}${i}`;
+}
+
+/** "staffExp" -> "Staff Exp" */
+export function toLabel(key: string): string {
+  const spaced = key.replace(/[_-]+/g, ' ').replace(/([a-z0-9])([A-Z])/g, '$1 $2').trim();
+  return spaced.charAt(0).toUpperCase() + spaced.slice(1);
+}
+
+const DATE_HEADER = /\b(period|date|year|month|quarter|week|day|fy|time)\b/i;
+const CURRENCY_HEADER = /(revenue|sales|price|cost|exp(ense)?s?\b|amount|spend|salary|profit|margin|income|budget|usd|eur|gbp)/i;
+const AVG_HEADER = /(price|rate|ratio|avg|average|mean|score|%|pct|percent)/i;
+const YEAR_VALUE = /^(19|20)\d{2}$/;
+
+export function isNumberLike(v: string, decimal: DecimalSeparator = '.'): boolean {
+  return normalizeNumber(v, decimal).value != null;
+}
+
+/** Infers a column type from its header and raw (string) values. */
+export function inferColumnType(header: string, values: string[]): ColumnType {
+  const vals = values.map(v => v.trim()).filter(v => v !== '' && !isMissing(v));
+  if (!vals.length) return DATE_HEADER.test(header) ? 'date' : 'text';
+
+  const share = (re: RegExp) => vals.filter(v => re.test(v)).length / vals.length;
+  const shareOf = (test: (v: string) => boolean) => vals.filter(test).length / vals.length;
+  const decimal = detectDecimal(vals);
+  const numericShare = shareOf(v => isNumberLike(v, decimal));
+  const periodShare = shareOf(v => normalizePeriod(v).value != null);
+
+  // Bare years only count as periods when the header says so; other period forms speak for themselves.
+  if (periodShare >= 0.8 && (DATE_HEADER.test(header) || share(YEAR_VALUE) < periodShare)) return 'date';
+
+  if (numericShare >= 0.8) {
+    if (share(/%\s*\)?$/) >= 0.5 || /(%|pct|percent)/i.test(header)) return 'percent';
+    if (share(/[$€£¥]/) >= 0.5 || CURRENCY_HEADER.test(header)) return 'currency';
+    return 'number';
+  }
+
+  const distinct = new Set(vals.map(v => v.toLowerCase())).size;
+  if (distinct <= Math.max(12, vals.length * 0.5) && vals.every(v => v.length <= 40)) return 'category';
+  return 'text';
+}
+
+export function defaultAggregation(col: Column): Aggregation {
+  if (col.agg) return col.agg;
+  return col.type === 'percent' || AVG_HEADER.test(col.key) || AVG_HEADER.test(col.label) ? 'avg' : 'sum';
+}
+
+/** Builds a typed dataset from a header row and string cells. */
+export function datasetFromTable(headers: string[], body: string[][]): Dataset {
+  const taken: string[] = [];
+  const columns: Column[] = headers.map((h, i) => {
+    const label = h.trim() || `Column ${i + 1}`;
+    const key = uniqueKey(toKey(label), taken);
+    taken.push(key);
+    const values = body.map(r => r[i] ?? '');
+    const col: Column = { key, label, type: inferColumnType(label, values) };
+    if (NUMERIC_TYPES.includes(col.type) && detectDecimal(values) === ',') col.decimal = ',';
+    return col;
+  });
+  const rows = body.map(cells => {
+    const row: Row = {};
+    columns.forEach((c, i) => { row[c.key] = coerceCell(c.type, cells[i] ?? '', c.decimal); });
+    return row;
+  });
+  return { columns, rows };
+}
+
+/** Orders period values: by time when both are periods, numerically when both are numbers, otherwise as text. */
+export function comparePeriods(a: string, b: string): number {
+  const pa = parsePeriod(a), pb = parsePeriod(b);
+  if (pa && pb && pa.start !== pb.start) return pa.start - pb.start;
+  const na = Number(a), nb = Number(b);
+  if (a.trim() !== '' && b.trim() !== '' && isFinite(na) && isFinite(nb)) return na - nb;
+  return a.localeCompare(b, undefined, { numeric: true });
+}
+
+/** Distinct values of a column in first-seen order. */
+export function distinctValues(ds: Dataset, key: string): string[] {
+  return Array.from(new Set(ds.rows.map(r => cellText(r, key)).filter(Boolean)));
+}
+
+/** Groups rows by the text value of a column, keeping first-seen group order. */
+export function groupRows(rows: Row[], key: string): Map<string, Row[]> {
+  const groups = new Map<string, Row[]>();
+  for (const r of rows) {
+    const g = cellText(r, key);
+    const list = groups.get(g);
+    if (list) list.push(r); else groups.set(g, [r]);
+  }
+  return groups;
+}
+
+/** A new row that continues the table: copies the last row and advances its period by one step. */
+export function nextRow(ds: Dataset): Row {
+  const last = ds.rows[ds.rows.length - 1];
+  const row: Row = {};
+  for (const c of ds.columns) row[c.key] = last ? last[c.key] : (isNumeric(c) ? 0 : '');
+  const pc = periodColumn(ds);
+  if (pc && last) {
+    const text = cellText(last, pc.key);
+    const p = parsePeriod(text);
+    const n = Number(text);
+    row[pc.key] = p ? periodLabel(addPeriods(p.start, p.grain, 1), p.grain, p.fiscal) : isFinite(n) && text !== '' ? String(n + 1) : '';
+  }
+  return row;
+}
+
+/** Demo data; its Margin formula column is filled in by applyFormulas. */
+export function sampleDataset(): Dataset {
+  return {
+    columns: [
+      { key: 'period', label: 'Year', type: 'date', rules: { required: true, unique: true } },
+      { key: 'revenue', label: 'Sales (Revenue)', type: 'currency' },
+      { key: 'units', label: 'Sales Units', type: 'number' },
+      { key: 'supplier', label: 'Supplier', type: 'category' },
+      { key: 'costPrice', label: 'Cost Price', type: 'currency', agg: 'avg' },
+      { key: 'staffExp', label: 'Staff Expenses', type: 'currency' },
+      { key: 'margin', label: 'Margin', type: 'currency', formula: 'revenue - costPrice * units - staffExp' },
+    ],
+    rows: [
+      { period: '2020', revenue: 300, units: 240, supplier: 'Northstar', costPrice: 0.88, staffExp: 40 },
+      { period: '2021', revenue: 350, units: 260, supplier: 'Northstar', costPrice: 0.90, staffExp: 44 },
+      { period: '2022', revenue: 400, units: 290, supplier: 'BluePeak',  costPrice: 0.91, staffExp: 48 },
+      { period: '2023', revenue: 460, units: 310, supplier: 'BluePeak',  costPrice: 0.93, staffExp: 50 },
+      { period: '2024', revenue: 520, units: 350, supplier: 'Skyline',   costPrice: 0.94, staffExp: 54 },
+      { period: '2025', revenue: 590, units: 380, supplier: 'Skyline',   costPrice: 0.96, staffExp: 58 },
+    ],
+  };
+}
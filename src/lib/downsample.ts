@@ -0,0 +1,51 @@
+/**
+ * Keeping big charts light: Largest-Triangle-Three-Buckets downsampling for lines, and
+ * label thinning for category axes that have more labels than room.
+ */
+
+/**
+ * Largest-Triangle-Three-Buckets: indices of about `threshold` points that keep the visual
+ * shape of the line (peaks and dips survive, flat stretches thin out). Always keeps the ends.
+ */
+export function lttb(xs: number[], ys: number[], threshold: number): number[] {
+  const n = xs.length;
+  if (threshold >= n || threshold < 3) return xs.map((_, i) => i);
+  const out = [0];
+  const every = (n - 2) / (threshold - 2);
+  let a = 0;
+  for (let b = 0; b < threshold - 2; b++) {
+    // Average of the next bucket is the third corner of the triangle
+    const nextStart = Math.floor((b + 1) * every) + 1, nextEnd = Math.min(n, Math.floor((b + 2) * every) + 1);
+    let ax = 0, ay = 0;
+    for (let i = nextStart; i < nextEnd; i++) { ax += xs[i]; ay += ys[i]; }
+    const count = Math.max(1, nextEnd - nextStart);
+    ax /= count; ay /= count;
+
+    const start = Math.floor(b * every) + 1, end = Math.floor((b + 1) * every) + 1;
+    let best = start, bestArea = -1;
+    for (let i = start; i < end; i++) {
+      const area = Math.abs((xs[a] - ax) * (ys[i] - ys[a]) - (xs[a] - xs[i]) * (ay - ys[a]));
+      if (area > bestArea) { bestArea = area; best = i; }
+    }
+    out.push(best);
+    a = best;
+  }
+  out.push(n - 1);
+  return out;
+}
+
+/**
+ * Indices to keep for several series sharing one x axis: the union of each series' LTTB
+ * picks, plus any index `keep` insists on (e.g. both sides of a gap).
+ */
+export function downsample(xs: number[], series: number[][], threshold: number, keep?: (i: number) => boolean): number[] {
+  const picked = new Set<number>();
+  for (const ys of series) lttb(xs, ys.map(v => (isFinite(v) ? v : 0)), threshold).forEach(i => picked.add(i));
+  if (keep) xs.forEach((_, i) => { if (keep(i)) picked.add(i); });
+  return Array.from(picked).sort((a, b) => a - b);
+}
+
+/** Show every n-th label so labels `size` wide never crowd slots `spacing` apart. */
+export function labelStride(spacing: number, size: number): number {
+  return spacing > 0 ? Math.max(1, Math.ceil(size / spacing)) : 1;
+}
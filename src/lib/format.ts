@@ -0,0 +1,95 @@
+/**
+ * Number formatting shared by chart axes, data labels, tooltips and KPI cards.
+ * A column's format comes from its type unless the user picked one explicitly.
+ */
+import type { Column } from './dataset';
+
+export interface NumberFormat {
+  style: 'number' | 'currency' | 'percent';
+  compact?: boolean;    // 1.2k, 3.4M, 5.6B
+  decimals?: number;    // fixed decimals; omitted = as many as the value needs, up to maxDecimals
+  maxDecimals?: number; // default 2 below 10, 1 below 100, else 0
+  currency?: string;    // symbol for currency style, default "$"
+}
+
+export type FormatPreset = 'number' | 'currency' | 'percent' | 'compact' | 'fixed2';
+
+export const FORMAT_PRESETS: { id: FormatPreset; label: string; format: NumberFormat }[] = [
+  { id: 'number', label: 'Number (1,234)', format: { style: 'number' } },
+  { id: 'currency', label: 'Currency ($1,234)', format: { style: 'currency' } },
+  { id: 'percent', label: 'Percent (12%)', format: { style: 'percent' } },
+  { id: 'compact', label: 'Compact (1.2k)', format: { style: 'number', compact: true } },
+  { id: 'fixed2', label: 'Two decimals (1,234.00)', format: { style: 'number', decimals: 2 } },
+];
+
+const COMPACT: [number, string][] = [[1e12, 'T'], [1e9, 'B'], [1e6, 'M'], [1e3, 'k']];
+
+/** Format implied by the column type, overridden by the column's own format. */
+export function columnFormat(col: Column | undefined): NumberFormat {
+  if (col?.format) return col.format;
+  return { style: col?.type === 'currency' ? 'currency' : col?.type === 'percent' ? 'percent' : 'number' };
+}
+
+export function presetOf(format: NumberFormat | undefined): FormatPreset | undefined {
+  if (!format) return undefined;
+  return FORMAT_PRESETS.find(p => JSON.stringify(p.format) === JSON.stringify(format))?.id;
+}
+
+function digits(v: number, decimals: number | undefined, maxDecimals: number | undefined): string {
+  if (decimals != null) return v.toLocaleString('en-US', { minimumFractionDigits: decimals, maximumFractionDigits: decimals });
+  const max = maxDecimals ?? (Math.abs(v) >= 100 ? 0 : Math.abs(v) >= 10 ? 1 : 2);
+  return v.toLocaleString('en-US', { maximumFractionDigits: max });
+}
+
+const compactUnit = (abs: number) => COMPACT.find(([n]) => abs >= n);
+const decimalPlaces = (v: number) => (String(parseFloat(v.toPrecision(10))).split('.')[1] ?? '').length;
+
+/** Percent values are stored in percent units: 12.5 means 12.5%. */
+export function formatNumber(v: number, f: NumberFormat): string {
+  if (!isFinite(v)) return '—';
+  const sign = v < 0 ? '-' : '';
+  const abs = Math.abs(v);
+  let body: string;
+  const unit = f.compact ? compactUnit(abs) : undefined;
+  if (unit) body = digits(abs / unit[0], f.decimals, f.maxDecimals ?? (abs / unit[0] >= 100 ? 0 : 1)) + unit[1];
+  else body = digits(abs, f.decimals, f.maxDecimals);
+  if (f.style === 'currency') return `${sign}${f.currency ?? '$'}${body}`;
+  if (f.style === 'percent') return `${sign}${body}%`;
+  return sign + body;
+}
+
+export type Formatter = (v: number) => string;
+
+export function formatter(f: NumberFormat): Formatter {
+  return v => formatNumber(v, f);
+}
+
+export function columnFormatter(col: Column | undefined): Formatter {
+  return formatter(columnFormat(col));
+}
+
+/**
+ * Format for a set of axis ticks: just enough decimals to tell neighbouring ticks apart,
+ * and compact units once values reach five digits (unless the format fixes decimals).
+ */
+export function tickFormat(base: NumberFormat, ticks: number[]): NumberFormat {
+  if (base.decimals != null || ticks.length < 2) return base;
+  const maxAbs = Math.max(...ticks.map(Math.abs));
+  if (base.compact || maxAbs >= 1e4) {
+    const maxDecimals = Math.min(2, Math.max(...ticks.map(t => decimalPlaces(Math.abs(t) / (compactUnit(Math.abs(t))?.[0] ?? 1)))));
+    return { ...base, compact: true, maxDecimals };
+  }
+  return { ...base, decimals: Math.min(6, decimalPlaces(Math.abs(ticks[1] - ticks[0]))) };
+}
+
+/**
+ * Excel/OOXML number-format code for a format, for charts embedded in exported documents.
+ * Without fixed decimals the value keeps its own precision (General); percent values stay in percent units.
+ */
+export function excelFormat(f: NumberFormat): string {
+  const prefix = f.style === 'currency' ? `"${f.currency ?? '$'}"` : '';
+  const suffix = f.style === 'percent' ? '"%"' : '';
+  const digits = f.decimals != null ? `#,##0${f.decimals ? `.${'0'.repeat(f.decimals)}` : ''}` : 'General';
+  if (f.compact) return `[>=1000000]${prefix}#,##0.0,,"M";[>=1000]${prefix}#,##0.0,"k";${prefix}${digits}${suffix}`;
+  return `${prefix}${digits}${suffix}`;
+}
@@ -0,0 +1,376 @@
+/**
+ * Formula columns: a small spreadsheet-style expression language evaluated row by row.
+ * Formulas are parsed into a tree (never eval'd), can only read other columns of the same
+ * row or aggregates over the table, and their results are written into the rows like any
+ * imported value, so derived columns chart, roll up and export like the rest.
+ *
+ *   revenue - costPrice * units - staffExp
+ *   IF([Sales Units] > 300, revenue * 0.95, revenue)
+ *   PCT(revenue, supplier)          share of the supplier's total, in percent
+ *   revenue / SUM(revenue, period)  share of the period's total, as a fraction
+ */
+import { type CellValue, type Column, type Dataset, type Row, cellText } from './dataset';
+
+export type BinaryOp = '+' | '-' | '*' | '/' | '^' | '=' | '<>' | '<' | '<=' | '>' | '>=';
+
+export type Expr =
+  | { kind: 'number'; value: number }
+  | { kind: 'text'; value: string }
+  | { kind: 'ref'; key: string }
+  | { kind: 'neg'; arg: Expr }
+  | { kind: 'binary'; op: BinaryOp; left: Expr; right: Expr }
+  | { kind: 'call'; fn: string; args: Expr[] };
+
+/** Function name -> [min, max] argument count. SUM, AVG and PCT take an optional group column. */
+const FUNCTIONS: Record<string, [number, number]> = {
+  IF: [3, 3],
+  AND: [1, Infinity],
+  OR: [1, Infinity],
+  NOT: [1, 1],
+  ABS: [1, 1],
+  ROUND: [1, 2],
+  MIN: [2, Infinity],
+  MAX: [2, Infinity],
+  SUM: [1, 2],
+  AVG: [1, 2],
+  PCT: [1, 2],
+};
+const GROUPED = new Set(['SUM', 'AVG', 'PCT']);
+const COMPARISONS = new Set<string>(['=', '<>', '<', '<=', '>', '>=']);
+
+export const FORMULA_HELP = 'Columns by name or [Label]; + - * / ^; = <> < > comparisons; IF(test, then, else), AND, OR, NOT, ABS, ROUND, MIN, MAX; '
+  + 'SUM(x) and AVG(x) over the table, or SUM(x, group) within each group; PCT(x[, group]) for percent of total.';
+
+// ---- Parsing
+
+type Token =
+  | { t: 'num'; v: number; at: number }
+  | { t: 'str'; v: string; at: number }
+  | { t: 'name'; v: string; at: number }
+  | { t: 'col'; v: string; at: number }
+  | { t: 'op'; v: string; at: number };
+
+function tokenize(src: string): Token[] {
+  const out: Token[] = [];
+  let i = 0;
+  while (i < src.length) {
+    const ch = src[i];
+    if (/\s/.test(ch)) { i++; continue; }
+    const num = /^(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i.exec(src.slice(i));
+    if (num) { out.push({ t: 'num', v: Number(num[0]), at: i }); i += num[0].length; continue; }
+    const name = /^[A-Za-z_][A-Za-z0-9_]*/.exec(src.slice(i));
+    if (name) { out.push({ t: 'name', v: name[0], at: i }); i += name[0].length; continue; }
+    if (ch === '"' || ch === '[') {
+      const close = ch === '"' ? '"' : ']';
+      const end = src.indexOf(close, i + 1);
+      if (end < 0) throw new Error(`Missing ${close} for the ${ch} at ${i + 1}`);
+      out.push({ t: ch === '"' ? 'str' : 'col', v: src.slice(i + 1, end), at: i });
+      i = end + 1;
+      continue;
+    }
+    const op = ['<>', '<=', '>=', '!=', '==', '×', '÷', '−', '+', '-', '*', '/', '^', '=', '<', '>', '(', ')', ','].find(o => src.startsWith(o, i));
+    if (!op) throw new Error(`Unexpected "${ch}" at ${i + 1}`);
+    const aliases: Record<string, string> = { '!=': '<>', '==': '=', '×': '*', '÷': '/', '−': '-' };
+    out.push({ t: 'op', v: aliases[op] ?? op, at: i });
+    i += op.length;
+  }
+  return out;
+}
+
+/** Resolves a column reference by key, then by label, ignoring case. */
+function resolveColumn(name: string, columns: Column[]): Column | undefined {
+  const n = name.trim().toLowerCase();
+  return columns.find(c => c.key === name.trim())
+    ?? columns.find(c => c.key.toLowerCase() === n)
+    ?? columns.find(c => c.label.trim().toLowerCase() === n);
+}
+
+/** Parses a formula, resolving column names against `columns`; throws with a readable message. */
+export function parseFormula(src: string, columns: Column[]): Expr {
+  const tokens = tokenize(src);
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const isOp = (v: string) => peek()?.t === 'op' && peek().v === v;
+  const where = () => (peek() ? `at ${peek().at + 1}` : 'at the end');
+  const expect = (v: string) => {
+    if (!isOp(v)) throw new Error(`Expected "${v}" ${where()}`);
+    pos++;
+  };
+
+  function compare(): Expr {
+    const left = additive();
+    const tok = peek();
+    if (tok?.t === 'op' && COMPARISONS.has(tok.v)) {
+      pos++;
+      return { kind: 'binary', op: tok.v as BinaryOp, left, right: additive() };
+    }
+    return left;
+  }
+  function additive(): Expr {
+    let left = term();
+    while (isOp('+') || isOp('-')) {
+      const op = tokens[pos++].v as BinaryOp;
+      left = { kind: 'binary', op, left, right: term() };
+    }
+    return left;
+  }
+  function term(): Expr {
+    let left = unary();
+    while (isOp('*') || isOp('/')) {
+      const op = tokens[pos++].v as BinaryOp;
+      left = { kind: 'binary', op, left, right: unary() };
+    }
+    return left;
+  }
+  // -2^2 is -4, as in math (Excel would say 4)
+  function unary(): Expr {
+    if (isOp('-')) { pos++; return { kind: 'neg', arg: unary() }; }
+    if (isOp('+')) { pos++; return unary(); }
+    return power();
+  }
+  function power(): Expr {
+    const base = primary();
+    if (isOp('^')) { pos++; return { kind: 'binary', op: '^', left: base, right: unary() }; }
+    return base;
+  }
+  function primary(): Expr {
+    const tok = peek();
+    if (!tok) throw new Error('The formula ends too early');
+    pos++;
+    if (tok.t === 'num') return { kind: 'number', value: tok.v };
+    if (tok.t === 'str') return { kind: 'text', value: tok.v };
+    if (tok.t === 'op' && tok.v === '(') {
+      const inner = compare();
+      expect(')');
+      return inner;
+    }
+    if (tok.t === 'name' && isOp('(')) {
+      const fn = tok.v.toUpperCase();
+      const arity = FUNCTIONS[fn];
+      if (!arity) throw new Error(`Unknown function ${tok.v}`);
+      pos++;
+      const args: Expr[] = [];
+      if (!isOp(')')) {
+        args.push(compare());
+        while (isOp(',')) { pos++; args.push(compare()); }
+      }
+      expect(')');
+      if (args.length < arity[0] || args.length > arity[1]) {
+        const want = arity[0] === arity[1] ? `${arity[0]}` : arity[1] === Infinity ? `at least ${arity[0]}` : `${arity[0]} or ${arity[1]}`;
+        throw new Error(`${fn} takes ${want} argument${want === '1' ? '' : 's'}`);
+      }
+      if (GROUPED.has(fn) && args[1] && args[1].kind !== 'ref') throw new Error(`The second argument of ${fn} must be a column to group by`);
+      return { kind: 'call', fn, args };
+    }
+    if (tok.t === 'name' || tok.t === 'col') {
+      const col = resolveColumn(tok.v, columns);
+      if (!col) throw new Error(`Unknown column "${tok.v}"`);
+      return { kind: 'ref', key: col.key };
+    }
+    throw new Error(`Unexpected "${tok.v}" at ${tok.at + 1}`);
+  }
+
+  if (!tokens.length) throw new Error('The formula is empty');
+  const expr = compare();
+  if (pos < tokens.length) throw new Error(`Unexpected "${String(peek().v)}" ${where()}`);
+  return expr;
+}
+
+/** Keys of the columns a formula reads. */
+export function formulaRefs(expr: Expr, into = new Set<string>()): Set<string> {
+  if (expr.kind === 'ref') into.add(expr.key);
+  else if (expr.kind === 'neg') formulaRefs(expr.arg, into);
+  else if (expr.kind === 'binary') { formulaRefs(expr.left, into); formulaRefs(expr.right, into); }
+  else if (expr.kind === 'call') expr.args.forEach(a => formulaRefs(a, into));
+  return into;
+}
+
+/**
+ * The top-level added and subtracted parts of a formula, e.g. revenue, -(costPrice * units)
+ * and -staffExp for a margin. Used to break a derived total into the steps of a bridge.
+ */
+export function additiveTerms(expr: Expr, sign: 1 | -1 = 1): { sign: 1 | -1; expr: Expr }[] {
+  if (expr.kind === 'binary' && (expr.op === '+' || expr.op === '-')) {
+    return [...additiveTerms(expr.left, sign), ...additiveTerms(expr.right, expr.op === '-' ? (-sign as 1 | -1) : sign)];
+  }
+  if (expr.kind === 'neg') return additiveTerms(expr.arg, -sign as 1 | -1);
+  return [{ sign, expr }];
+}
+
+const PRECEDENCE: Record<BinaryOp, number> = { '=': 1, '<>': 1, '<': 1, '<=': 1, '>': 1, '>=': 1, '+': 2, '-': 2, '*': 3, '/': 3, '^': 5 };
+
+/** Formula text with column labels and × ÷ signs, for legends and captions: "Cost Price × Sales Units". */
+export function describeFormula(expr: Expr, columns: Column[]): string {
+  const show = (e: Expr, outer = 0): string => {
+    switch (e.kind) {
+      case 'number': return String(e.value);
+      case 'text': return `"${e.value}"`;
+      case 'ref': return columns.find(c => c.key === e.key)?.label ?? e.key;
+      case 'neg': return `-${show(e.arg, 4)}`;
+      case 'call': return `${e.fn}(${e.args.map(a => show(a)).join(', ')})`;
+      case 'binary': {
+        const p = PRECEDENCE[e.op];
+        const op = e.op === '*' ? '×' : e.op === '/' ? '÷' : e.op;
+        const text = `${show(e.left, p)} ${op} ${show(e.right, p + 1)}`;
+        return p < outer ? `(${text})` : text;
+      }
+    }
+  };
+  return show(expr);
+}
+
+// ---- Evaluation
+
+type Value = number | string | null;
+
+const toNumber = (v: Value): number => {
+  if (v == null || v === '') return 0;
+  if (typeof v === 'number') return v;
+  const n = Number(v);
+  return isFinite(n) ? n : NaN;
+};
+const truthy = (v: Value) => (typeof v === 'string' ? v !== '' : toNumber(v) !== 0 && !isNaN(toNumber(v)));
+
+function compareValues(op: BinaryOp, a: Value, b: Value): boolean {
+  const numeric = typeof a !== 'string' && typeof b !== 'string';
+  const d = numeric ? toNumber(a) - toNumber(b) : String(a ?? '').toLowerCase().localeCompare(String(b ?? '').toLowerCase());
+  switch (op) {
+    case '=': return d === 0;
+    case '<>': return d !== 0;
+    case '<': return d < 0;
+    case '<=': return d <= 0;
+    case '>': return d > 0;
+    default: return d >= 0;
+  }
+}
+
+/** Values of a formula for every row; results that aren't finite numbers (e.g. division by zero) are empty. */
+export function evaluateFormula(expr: Expr, rows: Row[]): (number | null)[] {
+  // SUM/AVG/PCT totals, computed once per call site and group
+  const totals = new Map<Expr, Map<string, { sum: number; count: number }>>();
+  const groupTotal = (call: Extract<Expr, { kind: 'call' }>, i: number) => {
+    const by = call.args[1]?.kind === 'ref' ? call.args[1].key : undefined;
+    let byGroup = totals.get(call);
+    if (!byGroup) {
+      byGroup = new Map();
+      rows.forEach((r, j) => {
+        const v = toNumber(value(call.args[0], j));
+        if (!isFinite(v)) return;
+        const g = by ? cellText(r, by) : '';
+        const t = byGroup!.get(g) ?? { sum: 0, count: 0 };
+        t.sum += v;
+        t.count++;
+        byGroup!.set(g, t);
+      });
+      totals.set(call, byGroup);
+    }
+    return byGroup.get(by ? cellText(rows[i], by) : '') ?? { sum: 0, count: 0 };
+  };
+
+  function value(e: Expr, i: number): Value {
+    switch (e.kind) {
+      case 'number':
+      case 'text':
+        return e.value;
+      case 'ref': {
+        const v: CellValue = rows[i][e.key];
+        return v === undefined ? null : v;
+      }
+      case 'neg':
+        return -toNumber(value(e.arg, i));
+      case 'binary': {
+        const a = value(e.left, i), b = value(e.right, i);
+        if (COMPARISONS.has(e.op)) return compareValues(e.op, a, b) ? 1 : 0;
+        const x = toNumber(a), y = toNumber(b);
+        if (e.op === '+') return x + y;
+        if (e.op === '-') return x - y;
+        if (e.op === '*') return x * y;
+        if (e.op === '/') return x / y;
+        return Math.pow(x, y);
+      }
+      case 'call': {
+        const arg = (k: number) => value(e.args[k], i);
+        switch (e.fn) {
+          case 'IF': return truthy(arg(0)) ? arg(1) : arg(2);
+          case 'AND': return e.args.every((_, k) => truthy(arg(k))) ? 1 : 0;
+          case 'OR': return e.args.some((_, k) => truthy(arg(k))) ? 1 : 0;
+          case 'NOT': return truthy(arg(0)) ? 0 : 1;
+          case 'ABS': return Math.abs(toNumber(arg(0)));
+          case 'ROUND': {
+            const f = Math.pow(10, e.args[1] ? Math.round(toNumber(arg(1))) : 0);
+            return Math.round(toNumber(arg(0)) * f) / f;
+          }
+          case 'MIN': return Math.min(...e.args.map((_, k) => toNumber(arg(k))));
+          case 'MAX': return Math.max(...e.args.map((_, k) => toNumber(arg(k))));
+          case 'SUM': return groupTotal(e, i).sum;
+          case 'AVG': { const t = groupTotal(e, i); return t.count ? t.sum / t.count : NaN; }
+          default: return (toNumber(arg(0)) / groupTotal(e, i).sum) * 100; // PCT
+        }
+      }
+    }
+  }
+
+  // 12 significant digits drop float noise (300 - 0.88 * 240 - 40 = 48.80000000000001)
+  return rows.map((_, i) => {
+    const v = toNumber(value(expr, i));
+    return isFinite(v) ? Number(v.toPrecision(12)) : null;
+  });
+}
+
+// ---- Formula columns
+
+/** Keys a formula column reads; empty for plain columns and formulas that don't parse. */
+export function columnRefs(col: Column, columns: Column[]): Set<string> {
+  if (col.formula == null) return new Set();
+  try { return formulaRefs(parseFormula(col.formula, columns)); } catch { return new Set(); }
+}
+
+/** Formula columns in an order where each one comes after the formula columns it reads. */
+export function formulaOrder(columns: Column[]): Column[] {
+  const derived = new Map(columns.filter(c => c.formula != null).map(c => [c.key, c]));
+  const done = new Set<string>(), out: Column[] = [];
+  const visit = (col: Column, path: string[]) => {
+    if (done.has(col.key)) return;
+    if (path.includes(col.key)) {
+      const loop = [...path.slice(path.indexOf(col.key)), col.key].map(k => derived.get(k)!.label);
+      throw new Error(`Circular reference: ${loop.join(' → ')}`);
+    }
+    for (const k of columnRefs(col, columns)) {
+      const dep = derived.get(k);
+      if (dep) visit(dep, [...path, col.key]);
+    }
+    done.add(col.key);
+    out.push(col);
+  };
+  derived.forEach(c => visit(c, []));
+  return out;
+}
+
+/** Why a formula can't be used for column `key` (new or existing), or undefined when it can. */
+export function formulaError(columns: Column[], key: string, formula: string): string | undefined {
+  try {
+    const expr = parseFormula(formula, columns);
+    if (formulaRefs(expr).has(key)) return 'A formula can’t refer to its own column';
+    const others = columns.filter(c => c.key !== key);
+    formulaOrder([...others, { key, label: columns.find(c => c.key === key)?.label ?? key, type: 'number', formula }]);
+    return undefined;
+  } catch (e) {
+    return e instanceof Error ? e.message : String(e);
+  }
+}
+
+/**
+ * Recomputes every formula column. Rows whose derived values don't change keep their
+ * identity; a formula that no longer parses (e.g. its column was removed) leaves its column empty.
+ */
+export function applyFormulas(ds: Dataset): Dataset {
+  let order: Column[];
+  try { order = formulaOrder(ds.columns); } catch { return ds; }
+  let rows = ds.rows;
+  for (const col of order) {
+    let values: (number | null)[];
+    try { values = evaluateFormula(parseFormula(col.formula!, ds.columns), rows); } catch { values = rows.map(() => null); }
+    if (values.some((v, i) => rows[i][col.key] !== v)) rows = rows.map((r, i) => (r[col.key] === values[i] ? r : { ...r, [col.key]: values[i] }));
+  }
+  return rows === ds.rows ? ds : { ...ds, rows };
+}
@@ -0,0 +1,175 @@
+/**
+ * Spreadsheet mechanics for the data grid: the filtered and sorted view of the rows,
+ * rectangular selections, and reading/writing blocks of cells (copy, paste, fill-down).
+ * Everything works on row indices into the dataset, so the view never reorders the data.
+ */
+import { type CellValue, type Column, type Dataset, type Row, cellText, coerceCell, comparePeriods, isNumeric } from './dataset';
+
+export type SortDir = 'asc' | 'desc';
+
+export interface GridSort {
+  key: string;
+  dir: SortDir;
+}
+
+/** A cell in view coordinates: row within the visible rows, column within the dataset's columns. */
+export interface CellPos {
+  row: number;
+  col: number;
+}
+
+export interface CellRange {
+  top: number;
+  left: number;
+  bottom: number;
+  right: number;
+}
+
+export function rangeOf(a: CellPos, b: CellPos): CellRange {
+  return { top: Math.min(a.row, b.row), left: Math.min(a.col, b.col), bottom: Math.max(a.row, b.row), right: Math.max(a.col, b.col) };
+}
+
+export function inRange(r: CellRange, row: number, col: number): boolean {
+  return row >= r.top && row <= r.bottom && col >= r.left && col <= r.right;
+}
+
+/** The rows to render for a scroll position: those in the viewport plus `overscan` on either side. */
+export function rowWindow(scrollTop: number, viewport: number, rowHeight: number, count: number, overscan = 10): { start: number; end: number } {
+  const start = Math.min(count, Math.max(0, Math.floor(scrollTop / rowHeight) - overscan));
+  return { start, end: Math.max(start, Math.min(count, Math.ceil((scrollTop + viewport) / rowHeight) + overscan)) };
+}
+
+const FILTER_OP = /^\s*(>=|<=|<>|!=|>|<|=)\s*(.+)$/;
+
+/**
+ * Per-column filter text. Numeric columns understand comparisons ("> 100", "<= 0.9", "<> 0")
+ * and ranges ("10..20"); otherwise a cell matches when its text contains the filter, ignoring case.
+ * "=" alone matches empty cells.
+ */
+export function matchesFilter(value: CellValue, filter: string, col: Column): boolean {
+  const f = filter.trim();
+  if (!f) return true;
+  if (f === '=') return value == null || value === '';
+  const text = value == null ? '' : String(value);
+  if (isNumeric(col)) {
+    const n = typeof value === 'number' ? value : NaN;
+    const between = /^\s*(-?[\d.]+)\s*\.\.\s*(-?[\d.]+)\s*$/.exec(f);
+    if (between) return n >= Number(between[1]) && n <= Number(between[2]);
+    const op = FILTER_OP.exec(f);
+    if (op && isFinite(Number(op[2]))) {
+      const x = Number(op[2]);
+      switch (op[1]) {
+        case '>': return n > x;
+        case '>=': return n >= x;
+        case '<': return n < x;
+        case '<=': return n <= x;
+        case '=': return n === x;
+        default: return n !== x;
+      }
+    }
+  } else {
+    const op = FILTER_OP.exec(f);
+    if (op?.[1] === '=') return text.toLowerCase() === op[2].trim().toLowerCase();
+    if (op?.[1] === '<>' || op?.[1] === '!=') return text.toLowerCase() !== op[2].trim().toLowerCase();
+  }
+  return text.toLowerCase().includes(f.toLowerCase());
+}
+
+/** Empty cells sort last in either direction; dates by period, numbers numerically, the rest as text. */
+function compareCells(a: CellValue, b: CellValue, col: Column): number {
+  const ea = a == null || a === '', eb = b == null || b === '';
+  if (ea || eb) return ea === eb ? 0 : ea ? 1 : -1;
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  if (col.type === 'date') return comparePeriods(String(a), String(b));
+  return String(a).localeCompare(String(b), undefined, { numeric: true, sensitivity: 'base' });
+}
+
+/** Indices of the rows to show, filtered and then (stably) sorted. */
+export function gridView(ds: Dataset, filters: Record<string, string>, sort: GridSort | null): number[] {
+  const active = ds.columns.filter(c => filters[c.key]?.trim());
+  const view = ds.rows.map((_, i) => i).filter(i => active.every(c => matchesFilter(ds.rows[i][c.key], filters[c.key], c)));
+  const col = sort && ds.columns.find(c => c.key === sort.key);
+  if (!sort || !col) return view;
+  const sign = sort.dir === 'asc' ? 1 : -1;
+  return view.sort((i, j) => {
+    const a = ds.rows[i][col.key], b = ds.rows[j][col.key];
+    const empty = (a == null || a === '') !== (b == null || b === '');
+    return (empty ? compareCells(a, b, col) : sign * compareCells(a, b, col)) || i - j;
+  });
+}
+
+/** The next sort when a header is clicked: ascending, then descending, then off. */
+export function nextSort(sort: GridSort | null, key: string): GridSort | null {
+  if (sort?.key !== key) return { key, dir: 'asc' };
+  return sort.dir === 'asc' ? { key, dir: 'desc' } : null;
+}
+
+/** The text of a block of cells, as shown in the grid. */
+export function readBlock(ds: Dataset, view: number[], r: CellRange): string[][] {
+  const out: string[][] = [];
+  for (let i = r.top; i <= r.bottom; i++) {
+    const row = ds.rows[view[i]];
+    out.push(ds.columns.slice(r.left, r.right + 1).map(c => (row ? cellText(row, c.key) : '')));
+  }
+  return out;
+}
+
+/** What typing `text` into a cell of `col` stores. */
+export function cellInput(col: Column, text: string): CellValue {
+  return coerceCell(col.type, text, col.decimal);
+}
+
+/**
+ * Writes a block of text into the grid with its top-left corner at `at` (view coordinates).
+ * A single value fills the whole target range, as in spreadsheets. Rows past the end of the
+ * view are appended to the data with `blankRow`; columns past the last one and formula
+ * columns are skipped.
+ */
+export function writeBlock(ds: Dataset, view: number[], at: CellRange, block: string[][], blankRow: (ds: Dataset) => Row): Dataset {
+  if (!block.length) return ds;
+  const single = block.length === 1 && block[0].length === 1;
+  const height = single ? at.bottom - at.top + 1 : block.length;
+  const width = single ? at.right - at.left + 1 : block.reduce((w, b) => Math.max(w, b.length), 0);
+  const rows = ds.rows.slice();
+  const target = view.slice();
+  for (let i = 0; i < height; i++) {
+    let index = target[at.top + i];
+    if (index == null) {
+      rows.push(blankRow({ ...ds, rows }));
+      index = rows.length - 1;
+      target.push(index);
+    }
+    const next = { ...rows[index] };
+    for (let j = 0; j < width; j++) {
+      const col = ds.columns[at.left + j];
+      const text = single ? block[0][0] : block[i][j];
+      if (!col || col.formula != null || text === undefined) continue;
+      next[col.key] = cellInput(col, text);
+    }
+    rows[index] = next;
+  }
+  return { ...ds, rows };
+}
+
+/** Empties the editable cells of a range. */
+export function clearBlock(ds: Dataset, view: number[], r: CellRange): Dataset {
+  const block = Array.from({ length: r.bottom - r.top + 1 }, () => Array.from({ length: r.right - r.left + 1 }, () => ''));
+  return writeBlock(ds, view, r, block, () => ({}));
+}
+
+/**
+ * Copies the first row of the range down over the rest of it; with a single-row range,
+ * the row above is copied into it instead (Ctrl+D in spreadsheets).
+ */
+export function fillDown(ds: Dataset, view: number[], r: CellRange): Dataset {
+  const source = r.top === r.bottom ? r.top - 1 : r.top;
+  const from = ds.rows[view[source]];
+  if (source < 0 || !from) return ds;
+  const rows = ds.rows.slice();
+  for (let i = source + 1; i <= r.bottom; i++) {
+    const next = { ...rows[view[i]] };
+    for (const col of ds.columns.slice(r.left, r.right + 1)) if (col.formula == null) next[col.key] = from[col.key];
+    rows[view[i]] = next;
+  }
+  return { ...ds, rows };
+}
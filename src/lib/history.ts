@@ -0,0 +1,32 @@
+/**
+ * Undo/redo history: the present value with bounded stacks of earlier and undone ones.
+ * Values are kept whole (datasets are immutable and share unchanged rows), so undo is a swap.
+ */
+
+export interface History<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+export const HISTORY_LIMIT = 100;
+
+export function createHistory<T>(present: T): History<T> {
+  return { past: [], present, future: [] };
+}
+
+/** Makes `next` the present; the old present becomes undoable and the redo stack is cleared. */
+export function record<T>(h: History<T>, next: T, limit = HISTORY_LIMIT): History<T> {
+  if (next === h.present) return h;
+  return { past: [...h.past, h.present].slice(-limit), present: next, future: [] };
+}
+
+export function undo<T>(h: History<T>): History<T> {
+  if (!h.past.length) return h;
+  return { past: h.past.slice(0, -1), present: h.past[h.past.length - 1], future: [h.present, ...h.future] };
+}
+
+export function redo<T>(h: History<T>): History<T> {
+  if (!h.future.length) return h;
+  return { past: [...h.past, h.present], present: h.future[0], future: h.future.slice(1) };
+}
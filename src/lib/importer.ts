@@ -0,0 +1,113 @@
+/**
+ * Import pipeline shared by every file format:
+ * parsed table -> suggested column mapping -> (user edits mapping) -> typed dataset + per-row issues.
+ */
+import type { ParsedText } from './csv';
+import { type CellValue, type Column, type ColumnType, type Dataset, type Row, NUMERIC_TYPES, inferColumnType, toKey, uniqueKey } from './dataset';
+import { type Coercion, detectDecimal, detectPeriodOptions, normalizeNumber, normalizePeriod, notableRules } from './normalize';
+
+export interface ImportIssue {
+  row: number;        // source line (CSV) or sheet row number
+  column?: string;    // column label the issue refers to
+  message: string;
+}
+
+export interface RawTable {
+  name: string;       // file (and sheet) name, for display
+  headers: string[];
+  rows: string[][];
+  rowNumbers: number[];
+  issues: ImportIssue[];
+  meta?: string;      // e.g. "Semicolon-delimited, windows-1252"
+}
+
+export interface ColumnMapping {
+  source: number;       // index into RawTable.headers
+  key: string | null;   // target column key; null skips the source column
+  label: string;
+  type: ColumnType;
+}
+
+export function tableFromParsed(name: string, parsed: ParsedText, meta?: string): RawTable {
+  const [headerRow = [], ...body] = parsed.rows;
+  const issues: ImportIssue[] = parsed.issues.map(i => ({ row: i.line, message: i.message }));
+  body.forEach((cells, i) => {
+    if (cells.length !== headerRow.length) {
+      issues.push({ row: parsed.lines[i + 1], message: `Row has ${cells.length} fields, expected ${headerRow.length}.` });
+    }
+  });
+  return { name, headers: headerRow, rows: body, rowNumbers: parsed.lines.slice(1), issues, meta };
+}
+
+/** Reads one raw cell for a column: normalized value, the rules applied, and whether it was readable. */
+type CellReader = (raw: string) => { value: CellValue; rules: string[]; ok: boolean };
+
+const norm = (s: string) => toKey(s).toLowerCase();
+
+/** Maps source headers onto existing columns where names match; everything else becomes a new column. */
+export function suggestMapping(table: RawTable, current?: Dataset): ColumnMapping[] {
+  const used = new Set<string>();
+  return table.headers.map((h, source) => {
+    const label = h.trim() || `Column ${source + 1}`;
+    const existing = current?.columns.find(c => !used.has(c.key) && (norm(c.key) === norm(label) || norm(c.label) === norm(label)));
+    if (existing) {
+      used.add(existing.key);
+      return { source, key: existing.key, label: existing.label, type: existing.type };
+    }
+    const key = uniqueKey(toKey(label), [...used, ...(current?.columns.map(c => c.key) ?? [])]);
+    used.add(key);
+    return { source, key, label, type: inferColumnType(label, table.rows.map(r => r[source] ?? '')) };
+  });
+}
+
+export function applyMapping(table: RawTable, mappings: ColumnMapping[]): { dataset: Dataset; issues: ImportIssue[]; coercions: Coercion[] } {
+  const active = mappings.filter((m): m is ColumnMapping & { key: string } => m.key != null);
+  const seen = new Set<string>();
+  const columns: Column[] = [];
+  const slots: { m: ColumnMapping & { key: string }; col: Column; read: CellReader }[] = [];
+  for (const m of active) {
+    if (seen.has(m.key)) continue; // first source wins when two map onto the same column
+    seen.add(m.key);
+    const col: Column = { key: m.key, label: m.label, type: m.type };
+    const values = table.rows.map(r => r[m.source] ?? '');
+    let read: CellReader;
+    if (NUMERIC_TYPES.includes(col.type)) {
+      const decimal = detectDecimal(values);
+      if (decimal === ',') col.decimal = decimal;   // so later edits read "1.234,5" the same way
+      read = raw => { const n = normalizeNumber(raw, decimal); return { ...n, ok: n.value != null || !raw.trim() || n.rules.includes('missing marker') }; };
+    } else if (col.type === 'date') {
+      const opts = detectPeriodOptions(values);
+      read = raw => { const p = normalizePeriod(raw, opts); return p.value != null ? { ...p, ok: true } : { value: raw.trim(), rules: [], ok: !raw.trim() }; };
+    } else {
+      read = raw => ({ value: raw.trim(), rules: [], ok: true });
+    }
+    columns.push(col);
+    slots.push({ m, col, read });
+  }
+
+  const issues = table.issues.slice();
+  const coercions: Coercion[] = [];
+  const periodSlot = slots.find(s => s.col.type === 'date');
+  const rows: Row[] = [];
+  table.rows.forEach((cells, i) => {
+    const line = table.rowNumbers[i] ?? i + 2;
+    if (periodSlot && !(cells[periodSlot.m.source] ?? '').trim()) {
+      issues.push({ row: line, column: periodSlot.col.label, message: 'Missing period; row skipped.' });
+      return;
+    }
+    const row: Row = {};
+    for (const { m, col, read } of slots) {
+      const raw = cells[m.source] ?? '';
+      const res = read(raw);
+      row[col.key] = res.value;
+      if (!res.ok) {
+        issues.push({ row: line, column: col.label, message: col.type === 'date' ? `"${raw}" is not a recognised period; kept as text.` : `"${raw}" is not a number; left empty.` });
+      }
+      const rules = notableRules(res.rules, col.type);
+      if (rules.length) coercions.push({ row, rowNumber: line, column: col.key, raw, value: res.value, rules });
+    }
+    rows.push(row);
+  });
+
+  return { dataset: { columns, rows }, issues: issues.sort((a, b) => a.row - b.row), coercions };
+}
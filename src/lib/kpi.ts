@@ -0,0 +1,52 @@
+/**
+ * Headline KPIs for one metric: its total (or average/latest, per the column's roll-up),
+ * the best period and first-to-last growth. Shared by the KPI cards and exported decks.
+ */
+import { type Dataset, columnByKey, comparePeriods, defaultAggregation, groupRows, numericColumns, periodColumn } from './dataset';
+import { columnFormatter, formatNumber } from './format';
+import { columnMeasure, summarize } from './pivot';
+
+export interface Kpi {
+  label: string;
+  value: string;
+  hint: string;
+}
+
+function pct(a: number, b: number) {
+  if (!Number.isFinite(a) || a === 0) return 0;
+  return ((b - a) / a) * 100;
+}
+
+export function kpiCards(dataset: Dataset, metric?: string): Kpi[] {
+  const col = columnByKey(dataset, metric) ?? numericColumns(dataset)[0];
+  const pc = periodColumn(dataset);
+  const agg = col ? defaultAggregation(col) : 'sum';
+  // Same roll-up as the chart and Askura: empty cells are skipped, so a period with none has no value
+  const periods = col && pc
+    ? Array.from(groupRows(dataset.rows, pc.key).entries())
+        .sort((a, b) => comparePeriods(a[0], b[0]))
+        .map(([period, rs]) => ({ period, value: summarize(rs, columnMeasure(col)) }))
+        .filter(p => Number.isFinite(p.value))
+    : [];
+
+  const first = periods[0], last = periods[periods.length - 1];
+  const total = !col ? 0 : agg === 'last' && last ? last.value : summarize(dataset.rows, columnMeasure(col));
+  let bestYear = periods[0]?.period ?? '';
+  let bestVal = periods[0]?.value ?? -Infinity;
+  for (const p of periods) {
+    if (p.value > bestVal) { bestVal = p.value; bestYear = p.period; }
+  }
+  const growthPct = pct(first?.value ?? 0, last?.value ?? 0);
+  const label = col?.label ?? 'Value';
+  const fmt = columnFormatter(col);
+
+  return [
+    {
+      label: `${agg === 'avg' ? 'Average' : agg === 'last' ? 'Latest' : 'Total'} ${label}`,
+      value: fmt(total),
+      hint: agg === 'avg' ? 'mean of all values' : agg === 'last' ? `as of ${last?.period ?? '—'}` : 'sum of all periods',
+    },
+    { label: `Best ${pc?.label ?? 'Period'}`, value: String(bestYear), hint: `${fmt(bestVal)} ${label.toLowerCase()}` },
+    { label: 'Growth', value: formatNumber(growthPct, { style: 'percent', decimals: 1 }), hint: 'first → last' },
+  ];
+}
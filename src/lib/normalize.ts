@@ -0,0 +1,199 @@
+/**
+ * Messy-value normalization.
+ * Turns spreadsheet text such as "$ 300", "350.00?", "≈ 400", "(1,200)", "1.234,5", "2.5k",
+ * "two‑sixty" or "FY21" into clean numbers and period labels, and records every coercion
+ * so it can be reviewed before it is trusted.
+ */
+import type { CellValue, Row } from './dataset';
+
+export interface Normalized<T> {
+  value: T | null;
+  rules: string[];   // what had to change to get from the raw text to value; empty when it was already clean
+}
+
+export interface Coercion {
+  row: Row;          // row object in the dataset, so edits elsewhere don't shift it
+  rowNumber: number; // source line / sheet row, for display
+  column: string;    // column key
+  raw: string;
+  value: CellValue;
+  rules: string[];
+}
+
+export type DecimalSeparator = '.' | ',';
+
+const MISSING = /^(-+|—|–|n\/?a|null|none|nil|\?+|#n\/a|#value!|#div\/0!|#ref!|#num!)$/i;
+const APPROX = /^(≈|~|∼|approx\.?|approximately|about|around|circa|ca\.?|c\.)\s*/i;
+const CURRENCY = /[$€£¥₹]|\b(usd|eur|gbp|jpy|chf|aud|cad|inr)\b/gi;
+const SUFFIXES: [RegExp, number][] = [
+  [/\s*(k|thousand|thousands)$/i, 1e3],
+  [/\s*(m|mn|mm|mio|million|millions)$/i, 1e6],
+  [/\s*(b|bn|billion|billions)$/i, 1e9],
+];
+
+const SMALL: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9,
+  ten: 10, eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16,
+  seventeen: 17, eighteen: 18, nineteen: 19, twenty: 20, thirty: 30, forty: 40, fifty: 50,
+  sixty: 60, seventy: 70, eighty: 80, ninety: 90,
+};
+const SCALE: Record<string, number> = { thousand: 1e3, million: 1e6, billion: 1e9 };
+
+/** "two hundred and five" -> 205; colloquial "two-sixty" -> 260. */
+export function wordsToNumber(text: string): number | null {
+  const words = text.toLowerCase().split(/[\s‐-―-]+/).filter(w => w && w !== 'and' && w !== 'a');
+  if (!words.length || !words.every(w => w in SMALL || w in SCALE || w === 'hundred')) return null;
+  if (words.length === 2 && SMALL[words[0]] >= 1 && SMALL[words[0]] <= 9 && SMALL[words[1]] >= 10) {
+    return SMALL[words[0]] * 100 + SMALL[words[1]];
+  }
+  let total = 0, current = 0;
+  for (const w of words) {
+    if (w in SMALL) current += SMALL[w];
+    else if (w === 'hundred') current = (current || 1) * 100;
+    else { total += (current || 1) * SCALE[w]; current = 0; }
+  }
+  return total + current;
+}
+
+/** Guesses whether a column writes decimals as "1,234.5" or "1.234,5". */
+export function detectDecimal(values: string[]): DecimalSeparator {
+  let comma = 0, dot = 0;
+  for (const raw of values) {
+    const s = raw.replace(/[^\d.,]/g, '');
+    const lastComma = s.lastIndexOf(','), lastDot = s.lastIndexOf('.');
+    if (lastComma >= 0 && lastDot >= 0) { if (lastComma > lastDot) comma += 2; else dot += 2; }
+    else if (lastComma >= 0) { if (/,\d{1,2}$|,\d{4,}$/.test(s) || /^0,/.test(s)) comma++; else if (/^\d{1,3}(,\d{3})+$/.test(s)) dot += 0.5; }
+    else if (lastDot >= 0) { if (/^\d{1,3}(\.\d{3}){2,}$/.test(s)) comma++; else dot += 0.5; }
+  }
+  return comma > dot ? ',' : '.';
+}
+
+/** Placeholders such as "—", "n/a" or "#N/A" that mean "no value". */
+export function isMissing(raw: string): boolean {
+  return MISSING.test(raw.trim());
+}
+
+export function normalizeNumber(raw: string | number, decimal: DecimalSeparator = '.'): Normalized<number> {
+  if (typeof raw === 'number') return { value: isFinite(raw) ? raw : null, rules: [] };
+  const rules: string[] = [];
+  let s = raw.normalize('NFKC').replace(/[\u00a0\u202f]/g, ' ').trim();
+  if (!s) return { value: null, rules };
+  if (isMissing(s)) return { value: null, rules: ['missing marker'] };
+
+  if (APPROX.test(s)) { s = s.replace(APPROX, ''); rules.push('approximate'); }
+  if (/[?!*]+$/.test(s)) { s = s.replace(/\s*[?!*]+$/, ''); rules.push('stray punctuation'); }
+
+  let sign = 1;
+  if (/^\(.*\)$/.test(s)) { s = s.slice(1, -1).trim(); sign = -1; rules.push('accounting negative'); }
+  if (/^[^-]*\d\s*-$/.test(s)) { s = s.replace(/\s*-$/, ''); sign = -sign; rules.push('trailing minus'); }
+
+  const noCurrency = s.replace(CURRENCY, '').trim();
+  if (noCurrency !== s) { s = noCurrency; rules.push('currency symbol'); }
+  if (/%$/.test(s)) { s = s.replace(/\s*%$/, ''); rules.push('percent sign'); }
+  if (/^[-+]\s+/.test(s)) s = s.replace(/\s+/, '');
+
+  let scale = 1;
+  for (const [re, mult] of SUFFIXES) {
+    if (re.test(s) && /\d/.test(s)) { s = s.replace(re, ''); scale = mult; rules.push('magnitude suffix'); break; }
+  }
+
+  if (/^[a-z\s‐-―-]+$/i.test(s)) {
+    const n = wordsToNumber(s);
+    if (n == null) return { value: null, rules };
+    return { value: sign * n * scale, rules: [...rules, 'spelled-out number'] };
+  }
+
+  let body = s.replace(/[\s']/g, '');
+  // Grouping marks only go in the whole part, in threes: "1.234,5" read with "." would be off by 10³
+  const group = decimal === ',' ? '.' : ',';
+  const [whole, ...fraction] = body.split(decimal);
+  if (fraction.length > 1 || fraction.some(f => f.includes(group)) || (whole.includes(group) && !new RegExp(`^[-+]?\\d{1,3}(\\${group}\\d{3})+$`).test(whole))) {
+    return { value: null, rules: [...rules, 'ambiguous separators'] };
+  }
+  if (decimal === ',') {
+    if (/,/.test(body)) rules.push('decimal comma');
+    body = body.replace(/\./g, '').replace(',', '.');
+  } else {
+    body = body.replace(/,/g, '');
+  }
+  if (!/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(body)) return { value: null, rules };
+  const n = sign * parseFloat(body) * scale;
+  return { value: isFinite(n) ? parseFloat(n.toPrecision(15)) : null, rules };
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const pad = (n: number) => String(n).padStart(2, '0');
+const fullYear = (y: string) => y.length === 2 ? (Number(y) < 70 ? 2000 + Number(y) : 1900 + Number(y)) : Number(y);
+const monthOf = (name: string) => MONTHS.indexOf(name.slice(0, 3).toLowerCase()) + 1;
+
+export interface PeriodOptions {
+  dayFirst?: boolean;          // read 03/04/2024 as 3 April rather than March 4
+  fiscalAsCalendar?: boolean;  // write FY21 as 2021 (when the column is otherwise calendar years)
+}
+
+/**
+ * Canonical period labels: "2024", "FY2024", "2024-Q1", "2024-H2", "2024-03", "2024-03-31".
+ * Returns null when the text is not a recognisable period.
+ */
+export function normalizePeriod(raw: string, opts: PeriodOptions = {}): Normalized<string> {
+  const rules: string[] = [];
+  const s = raw.normalize('NFKC').replace(/\s+/g, ' ').trim();
+  if (s !== raw) rules.push('trimmed whitespace');
+  let m: RegExpMatchArray | null;
+  const done = (value: string, rule?: string) => ({ value, rules: rule && value !== s ? [...rules, rule] : rules });
+
+  if (/^(1[89]|20|21)\d{2}$/.test(s)) return done(s);
+  if ((m = s.match(/^fy\s*'?(\d{2}|\d{4})(?:\s*[-/]\s*'?(\d{2}|\d{4}))?$/i))) {
+    const y = fullYear(m[2] ?? m[1]);
+    return done(opts.fiscalAsCalendar ? String(y) : `FY${y}`, 'fiscal year');
+  }
+  if ((m = s.match(/^(\d{4})\s*[-/ ]?\s*([qh])([1-4])$/i)) || (m = s.match(/^([qh])([1-4])\s*[-/ ]?\s*'?(\d{2}|\d{4})$/i))) {
+    const [year, kind, n] = /^\d/.test(m[1]) ? [m[1], m[2], m[3]] : [m[3], m[1], m[2]];
+    if (kind.toLowerCase() === 'h' && Number(n) > 2) return { value: null, rules };
+    return done(`${fullYear(year)}-${kind.toUpperCase()}${n}`, kind.toLowerCase() === 'q' ? 'quarter' : 'half-year');
+  }
+  if ((m = s.match(/^([a-z]{3,9})\.?[-\s'/,]*(\d{2}|\d{4})$/i)) && monthOf(m[1]) > 0) {
+    return done(`${fullYear(m[2])}-${pad(monthOf(m[1]))}`, 'month name');
+  }
+  if ((m = s.match(/^(\d{4})\s*[-\s/,]\s*([a-z]{3,9})\.?$/i)) && monthOf(m[2]) > 0) {
+    return done(`${m[1]}-${pad(monthOf(m[2]))}`, 'month name');
+  }
+  if ((m = s.match(/^(\d{4})[-/.](\d{1,2})(?:[-/.](\d{1,2}))?(?:[T ][\d:.]+Z?)?$/))) {
+    const [, y, mo, d] = m;
+    if (Number(mo) < 1 || Number(mo) > 12) return { value: null, rules };
+    return done(d ? `${y}-${pad(Number(mo))}-${pad(Number(d))}` : `${y}-${pad(Number(mo))}`, 'date format');
+  }
+  if ((m = s.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})$/))) {
+    const [a, b] = [Number(m[1]), Number(m[2])];
+    const [d, mo] = (opts.dayFirst || a > 12) && b <= 12 ? [a, b] : [b, a];
+    if (mo < 1 || mo > 12 || d < 1 || d > 31) return { value: null, rules };
+    return done(`${fullYear(m[3])}-${pad(mo)}-${pad(d)}`, 'date format');
+  }
+  return { value: null, rules };
+}
+
+/** Column-level hints for period parsing, derived from all of the column's values. */
+export function detectPeriodOptions(values: string[]): PeriodOptions {
+  const trimmed = values.map(v => v.trim()).filter(Boolean);
+  const dayFirst = trimmed.some(v => { const m = v.match(/^(\d{1,2})[-/.](\d{1,2})[-/.]\d{2,4}$/); return !!m && Number(m[1]) > 12; });
+  const years = trimmed.filter(v => /^(1[89]|20|21)\d{2}$/.test(v)).length;
+  return { dayFirst, fiscalAsCalendar: years > 0 && years >= trimmed.length / 2 };
+}
+
+/** Rules that only restate the column's type (a "$" in a currency column) are not worth reviewing. */
+export function notableRules(rules: string[], type: string): string[] {
+  return rules.filter(r => !(r === 'currency symbol' && type === 'currency') && !(r === 'percent sign' && type === 'percent'));
+}
+
+/** Keeps pending coercions attached to their rows after a grid edit replaced row objects in place. */
+export function rebaseCoercions(coercions: Coercion[], prevRows: Row[], nextRows: Row[]): Coercion[] {
+  if (!coercions.length) return coercions;
+  const live = new Set(nextRows);
+  const sameShape = prevRows.length === nextRows.length;
+  return coercions.flatMap(c => {
+    if (live.has(c.row)) return [c];
+    const i = sameShape ? prevRows.indexOf(c.row) : -1;
+    const r = nextRows[i];
+    return r && r[c.column] === c.value ? [{ ...c, row: r }] : [];
+  });
+}
@@ -0,0 +1,402 @@
+/**
+ * Minimal PDF writer for reports built in the browser. Pages are drawn in a top-left,
+ * y-down coordinate system measured in points (1/72 in), the same as SVG, so chart
+ * geometry carries over unchanged. Text uses the built-in Helvetica faces with
+ * WinAnsi encoding; characters outside it are transliterated or replaced with "?".
+ */
+
+export type PageSize = 'a4' | 'letter' | 'legal' | 'a3';
+export type Orientation = 'portrait' | 'landscape';
+
+export const PAGE_SIZES: { id: PageSize; label: string; width: number; height: number }[] = [
+  { id: 'a4', label: 'A4', width: 595.28, height: 841.89 },
+  { id: 'letter', label: 'US Letter', width: 612, height: 792 },
+  { id: 'legal', label: 'US Legal', width: 612, height: 1008 },
+  { id: 'a3', label: 'A3', width: 841.89, height: 1190.55 },
+];
+
+/** Page width and height in points for a size and orientation. */
+export function pageDimensions(size: PageSize, orientation: Orientation): { width: number; height: number } {
+  const p = PAGE_SIZES.find(s => s.id === size) ?? PAGE_SIZES[0];
+  return orientation === 'landscape' ? { width: p.height, height: p.width } : { width: p.width, height: p.height };
+}
+
+export type PdfFont = 'regular' | 'bold';
+
+const FONT_NAMES: Record<PdfFont, string> = { regular: 'Helvetica', bold: 'Helvetica-Bold' };
+const FONT_RESOURCES: Record<PdfFont, string> = { regular: 'F1', bold: 'F2' };
+
+// Advance widths (per 1000 em) of Helvetica and Helvetica-Bold for codes 32..126
+const REGULAR_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+// Widths of the WinAnsi extras that reports actually use; other codes fall back to 556
+const EXTRA_WIDTHS: Record<number, [number, number]> = {
+  0x80: [556, 556], 0x85: [1000, 1000], 0x91: [222, 278], 0x92: [222, 278], 0x93: [333, 500], 0x94: [333, 500],
+  0x95: [350, 350], 0x96: [556, 556], 0x97: [1000, 1000], 0xa0: [278, 278], 0xb7: [278, 278], 0xd7: [584, 584],
+};
+
+// Unicode code points that WinAnsi places in 0x80..0x9f
+const WIN_ANSI: Record<number, number> = {
+  0x20ac: 0x80, 0x201a: 0x82, 0x0192: 0x83, 0x201e: 0x84, 0x2026: 0x85, 0x2020: 0x86, 0x2021: 0x87, 0x02c6: 0x88,
+  0x2030: 0x89, 0x0160: 0x8a, 0x2039: 0x8b, 0x0152: 0x8c, 0x017d: 0x8e, 0x2018: 0x91, 0x2019: 0x92, 0x201c: 0x93,
+  0x201d: 0x94, 0x2022: 0x95, 0x2013: 0x96, 0x2014: 0x97, 0x02dc: 0x98, 0x2122: 0x99, 0x0161: 0x9a, 0x203a: 0x9b,
+  0x0153: 0x9c, 0x017e: 0x9e, 0x0178: 0x9f,
+};
+// Common symbols with no WinAnsi code, written as the closest ASCII
+const TRANSLITERATE: Record<string, string> = { '→': '->', '←': '<-', '−': '-', '≈': '~', '≤': '<=', '≥': '>=', '✔': '', '✓': '' };
+
+/** Text as WinAnsi codes, one per output character. */
+function encode(text: string): number[] {
+  const codes: number[] = [];
+  for (const ch of text) {
+    const sub = TRANSLITERATE[ch];
+    if (sub != null) { for (const c of sub) codes.push(c.charCodeAt(0)); continue; }
+    const cp = ch.codePointAt(0) ?? 63;
+    if (cp === 9) codes.push(32);
+    else if ((cp >= 32 && cp < 127) || (cp >= 0xa0 && cp <= 0xff)) codes.push(cp);
+    else if (WIN_ANSI[cp]) codes.push(WIN_ANSI[cp]);
+    else if (cp >= 32) codes.push(63);
+  }
+  return codes;
+}
+
+/** Width of a line of text in points. */
+export function textWidth(text: string, size: number, font: PdfFont = 'regular'): number {
+  const table = font === 'bold' ? BOLD_WIDTHS : REGULAR_WIDTHS;
+  let units = 0;
+  for (const c of encode(text)) {
+    units += c >= 32 && c < 127 ? table[c - 32] : EXTRA_WIDTHS[c]?.[font === 'bold' ? 1 : 0] ?? 556;
+  }
+  return (units * size) / 1000;
+}
+
+/** Breaks text into lines no wider than maxWidth, at spaces where possible; newlines are kept. */
+export function wrapText(text: string, size: number, maxWidth: number, font: PdfFont = 'regular'): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = '';
+    for (const word of paragraph.split(/ +/)) {
+      const next = line ? `${line} ${word}` : word;
+      if (textWidth(next, size, font) <= maxWidth) { line = next; continue; }
+      if (line) lines.push(line);
+      // A single word wider than the line is split wherever it overflows
+      line = '';
+      for (const ch of word) {
+        if (line && textWidth(line + ch, size, font) > maxWidth) { lines.push(line); line = ''; }
+        line += ch;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+/** Shortens text with an ellipsis so it fits maxWidth. */
+export function fitText(text: string, size: number, maxWidth: number, font: PdfFont = 'regular'): string {
+  if (textWidth(text, size, font) <= maxWidth) return text;
+  let out = text;
+  while (out && textWidth(`${out}…`, size, font) > maxWidth) out = out.slice(0, -1);
+  return out ? `${out}…` : '';
+}
+
+const NAMED_COLORS: Record<string, [number, number, number]> = {
+  black: [0, 0, 0], white: [255, 255, 255], red: [255, 0, 0], green: [0, 128, 0], blue: [0, 0, 255],
+  gray: [128, 128, 128], grey: [128, 128, 128], orange: [255, 165, 0],
+};
+
+/** RGB (0..255) and alpha (0..1) of a CSS color; undefined for "none" and anything unreadable. */
+export function parseColor(color: string | undefined): { rgb: [number, number, number]; alpha: number } | undefined {
+  const c = color?.trim().toLowerCase();
+  if (!c || c === 'none' || c === 'transparent') return undefined;
+  if (NAMED_COLORS[c]) return { rgb: NAMED_COLORS[c], alpha: 1 };
+  let m = /^#([0-9a-f]{3,8})$/.exec(c);
+  if (m) {
+    const h = m[1].length < 6 ? m[1].split('').map(x => x + x).join('') : m[1];
+    const n = (i: number) => parseInt(h.slice(i, i + 2), 16);
+    return { rgb: [n(0), n(2), n(4)], alpha: h.length === 8 ? n(6) / 255 : 1 };
+  }
+  m = /^rgba?\(([^)]+)\)$/.exec(c);
+  if (m) {
+    const [r, g, b, a] = m[1].split(/[\s,/]+/).filter(Boolean).map(parseFloat);
+    return { rgb: [r, g, b], alpha: isFinite(a) ? a : 1 };
+  }
+  return undefined;
+}
+
+export type PathSegment =
+  | { op: 'M' | 'L'; x: number; y: number }
+  | { op: 'C'; x1: number; y1: number; x2: number; y2: number; x: number; y: number }
+  | { op: 'Z' };
+
+export interface PaintStyle {
+  fill?: string;
+  stroke?: string;
+  lineWidth?: number;
+  dash?: number[];
+  opacity?: number;                 // multiplies both fill and stroke alpha
+  lineCap?: 'butt' | 'round' | 'square';
+  lineJoin?: 'miter' | 'round' | 'bevel';
+}
+
+export interface TextStyle {
+  size: number;
+  font?: PdfFont;
+  color?: string;
+  align?: 'start' | 'middle' | 'end';
+  opacity?: number;
+}
+
+/** A baseline JPEG, embedded as-is. */
+export interface PdfImage {
+  data: Uint8Array;
+  width: number;        // pixels
+  height: number;
+}
+
+export interface PdfPage {
+  width: number;
+  height: number;
+  path(segments: PathSegment[], style: PaintStyle): void;
+  rect(x: number, y: number, w: number, h: number, style: PaintStyle, radius?: number): void;
+  line(x1: number, y1: number, x2: number, y2: number, style: PaintStyle): void;
+  circle(cx: number, cy: number, r: number, style: PaintStyle): void;
+  text(text: string, x: number, y: number, style: TextStyle): void;
+  /** Draws the image stretched over the rectangle. */
+  image(img: PdfImage, x: number, y: number, w: number, h: number): void;
+  /** Runs draw with the matrix [a b c d e f] applied on top of the current transform. */
+  transformed(matrix: number[], draw: () => void): void;
+  /** Runs draw with everything outside the rectangle clipped away. */
+  clipped(x: number, y: number, w: number, h: number, draw: () => void): void;
+}
+
+export interface PdfDocument {
+  pages: PdfPage[];
+  addPage(): PdfPage;
+  finish(): Uint8Array;
+}
+
+export interface PdfOptions {
+  width: number;
+  height: number;
+  title?: string;
+  author?: string;
+  date?: Date;
+}
+
+const num = (v: number) => {
+  const r = Math.round(v * 1000) / 1000;
+  return Object.is(r, -0) || !isFinite(r) ? '0' : String(r);
+};
+
+/** A string literal: WinAnsi bytes, with delimiters and non-ASCII bytes escaped. */
+function pdfString(text: string): string {
+  let out = '(';
+  for (const c of encode(text)) {
+    if (c === 0x28 || c === 0x29 || c === 0x5c) out += `\\${String.fromCharCode(c)}`;
+    else if (c < 32 || c > 126) out += `\\${c.toString(8).padStart(3, '0')}`;
+    else out += String.fromCharCode(c);
+  }
+  return `${out})`;
+}
+
+/** A text string outside content streams (document info): UTF-16BE with a byte order mark. */
+function pdfTextString(text: string): string {
+  let hex = 'FEFF';
+  for (let i = 0; i < text.length; i++) hex += text.charCodeAt(i).toString(16).padStart(4, '0').toUpperCase();
+  return `<${hex}>`;
+}
+
+function pdfDate(d: Date): string {
+  const p = (n: number) => String(n).padStart(2, '0');
+  return `(D:${d.getUTCFullYear()}${p(d.getUTCMonth() + 1)}${p(d.getUTCDate())}${p(d.getUTCHours())}${p(d.getUTCMinutes())}${p(d.getUTCSeconds())}Z)`;
+}
+
+const KAPPA = 0.5522847498;
+
+function roundedRect(x: number, y: number, w: number, h: number, r: number): PathSegment[] {
+  r = Math.max(0, Math.min(r, w / 2, h / 2));
+  if (!r) return [{ op: 'M', x, y }, { op: 'L', x: x + w, y }, { op: 'L', x: x + w, y: y + h }, { op: 'L', x, y: y + h }, { op: 'Z' }];
+  const k = r * KAPPA;
+  return [
+    { op: 'M', x: x + r, y },
+    { op: 'L', x: x + w - r, y },
+    { op: 'C', x1: x + w - r + k, y1: y, x2: x + w, y2: y + r - k, x: x + w, y: y + r },
+    { op: 'L', x: x + w, y: y + h - r },
+    { op: 'C', x1: x + w, y1: y + h - r + k, x2: x + w - r + k, y2: y + h, x: x + w - r, y: y + h },
+    { op: 'L', x: x + r, y: y + h },
+    { op: 'C', x1: x + r - k, y1: y + h, x2: x, y2: y + h - r + k, x, y: y + h - r },
+    { op: 'L', x, y: y + r },
+    { op: 'C', x1: x, y1: y + r - k, x2: x + r - k, y2: y, x: x + r, y },
+    { op: 'Z' },
+  ];
+}
+
+/** Four cubic arcs approximating an ellipse. */
+export function ellipsePath(cx: number, cy: number, rx: number, ry: number): PathSegment[] {
+  const kx = rx * KAPPA, ky = ry * KAPPA;
+  return [
+    { op: 'M', x: cx + rx, y: cy },
+    { op: 'C', x1: cx + rx, y1: cy + ky, x2: cx + kx, y2: cy + ry, x: cx, y: cy + ry },
+    { op: 'C', x1: cx - kx, y1: cy + ry, x2: cx - rx, y2: cy + ky, x: cx - rx, y: cy },
+    { op: 'C', x1: cx - rx, y1: cy - ky, x2: cx - kx, y2: cy - ry, x: cx, y: cy - ry },
+    { op: 'C', x1: cx + kx, y1: cy - ry, x2: cx + rx, y2: cy - ky, x: cx + rx, y: cy },
+    { op: 'Z' },
+  ];
+}
+
+/** Starts a document; pages are drawn through addPage() and serialized by finish(). */
+export function createPdf(opts: PdfOptions): PdfDocument {
+  const pages: PdfPage[] = [];
+  const streams: string[][] = [];
+  const alphas = new Map<string, string>();   // "fill/stroke" alpha pair -> ExtGState name
+  const images = new Map<PdfImage, string>();  // image -> XObject name
+
+  const alphaState = (fill: number, stroke: number) => {
+    const id = `${num(fill)}/${num(stroke)}`;
+    let name = alphas.get(id);
+    if (!name) { name = `GS${alphas.size + 1}`; alphas.set(id, name); }
+    return name;
+  };
+  const colorOps = (color: string | undefined, op: 'rg' | 'RG') => {
+    const c = parseColor(color);
+    return c ? { ops: `${c.rgb.map(v => num(v / 255)).join(' ')} ${op}`, alpha: c.alpha } : undefined;
+  };
+
+  function addPage(): PdfPage {
+    // Flip to a y-down system with the origin at the top-left corner
+    const ops: string[] = [`1 0 0 -1 0 ${num(opts.height)} cm`];
+    streams.push(ops);
+
+    const paint = (segments: PathSegment[], style: PaintStyle) => {
+      const fill = colorOps(style.fill, 'rg');
+      const width = style.lineWidth ?? 1;
+      const stroke = width > 0 ? colorOps(style.stroke, 'RG') : undefined;
+      if ((!fill && !stroke) || !segments.length) return;
+      const opacity = style.opacity ?? 1;
+      const out = ['q'];
+      const fa = (fill?.alpha ?? 1) * opacity, sa = (stroke?.alpha ?? 1) * opacity;
+      if (fa < 1 || sa < 1) out.push(`/${alphaState(fa, sa)} gs`);
+      if (fill) out.push(fill.ops);
+      if (stroke) {
+        out.push(stroke.ops, `${num(width)} w`);
+        if (style.dash?.length) out.push(`[${style.dash.map(num).join(' ')}] 0 d`);
+        if (style.lineCap) out.push(`${['butt', 'round', 'square'].indexOf(style.lineCap)} J`);
+        if (style.lineJoin) out.push(`${['miter', 'round', 'bevel'].indexOf(style.lineJoin)} j`);
+      }
+      for (const s of segments) {
+        if (s.op === 'Z') out.push('h');
+        else if (s.op === 'C') out.push(`${num(s.x1)} ${num(s.y1)} ${num(s.x2)} ${num(s.y2)} ${num(s.x)} ${num(s.y)} c`);
+        else out.push(`${num(s.x)} ${num(s.y)} ${s.op === 'M' ? 'm' : 'l'}`);
+      }
+      out.push(fill && stroke ? 'B' : fill ? 'f' : 'S', 'Q');
+      ops.push(out.join('\n'));
+    };
+
+    const page: PdfPage = {
+      width: opts.width,
+      height: opts.height,
+      path: paint,
+      rect: (x, y, w, h, style, radius = 0) => paint(roundedRect(x, y, w, h, radius), style),
+      line: (x1, y1, x2, y2, style) => paint([{ op: 'M', x: x1, y: y1 }, { op: 'L', x: x2, y: y2 }], { ...style, fill: undefined }),
+      circle: (cx, cy, r, style) => paint(ellipsePath(cx, cy, r, r), style),
+      text(text, x, y, style) {
+        const font = style.font ?? 'regular';
+        const color = colorOps(style.color ?? '#000000', 'rg');
+        if (!text || !color) return;
+        const w = style.align && style.align !== 'start' ? textWidth(text, style.size, font) : 0;
+        const left = style.align === 'middle' ? x - w / 2 : style.align === 'end' ? x - w : x;
+        const alpha = color.alpha * (style.opacity ?? 1);
+        // Glyphs are drawn y-up, so the text matrix flips them back upright
+        ops.push([
+          'q', alpha < 1 ? `/${alphaState(alpha, alpha)} gs` : '', color.ops,
+          `BT /${FONT_RESOURCES[font]} ${num(style.size)} Tf 1 0 0 -1 ${num(left)} ${num(y)} Tm ${pdfString(text)} Tj ET`, 'Q',
+        ].filter(Boolean).join('\n'));
+      },
+      image(img, x, y, w, h) {
+        let name = images.get(img);
+        if (!name) { name = `Im${images.size + 1}`; images.set(img, name); }
+        // Images fill the unit square y-up, so the matrix flips them back upright
+        ops.push(`q ${num(w)} 0 0 ${num(-h)} ${num(x)} ${num(y + h)} cm /${name} Do Q`);
+      },
+      transformed(matrix, draw) {
+        ops.push(`q ${matrix.map(num).join(' ')} cm`);
+        draw();
+        ops.push('Q');
+      },
+      clipped(x, y, w, h, draw) {
+        ops.push(`q ${num(x)} ${num(y)} ${num(w)} ${num(h)} re W n`);
+        draw();
+        ops.push('Q');
+      },
+    };
+    pages.push(page);
+    return page;
+  }
+
+  function finish(): Uint8Array {
+    // Fixed objects: 1 catalog, 2 page tree, 3 shared resources, 4 info; then page + content pairs, then images
+    const objects: string[] = [];
+    const pageId = (i: number) => 5 + i * 2;
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[2] = `<< /Type /Pages /Kids [${pages.map((_, i) => `${pageId(i)} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+    const fonts = (Object.keys(FONT_NAMES) as PdfFont[])
+      .map(f => `/${FONT_RESOURCES[f]} << /Type /Font /Subtype /Type1 /BaseFont /${FONT_NAMES[f]} /Encoding /WinAnsiEncoding >>`)
+      .join(' ');
+    const states = Array.from(alphas, ([id, name]) => {
+      const [ca, CA] = id.split('/');
+      return `/${name} << /Type /ExtGState /ca ${ca} /CA ${CA} >>`;
+    }).join(' ');
+    const imageId = (k: number) => pageId(pages.length) + k;
+    const xobjects = Array.from(images.values(), (name, k) => `/${name} ${imageId(k)} 0 R`).join(' ');
+    objects[3] = `<< /Font << ${fonts} >> /ExtGState << ${states} >>${xobjects ? ` /XObject << ${xobjects} >>` : ''} >>`;
+    const info = [
+      opts.title ? `/Title ${pdfTextString(opts.title)}` : '',
+      opts.author ? `/Author ${pdfTextString(opts.author)}` : '',
+      `/Producer ${pdfTextString('Chartura')}`,
+      `/CreationDate ${pdfDate(opts.date ?? new Date())}`,
+    ].filter(Boolean).join(' ');
+    objects[4] = `<< ${info} >>`;
+    streams.forEach((ops, i) => {
+      const content = ops.join('\n');
+      objects[pageId(i)] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(opts.width)} ${num(opts.height)}] /Resources 3 0 R /Contents ${pageId(i) + 1} 0 R >>`;
+      objects[pageId(i) + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+    });
+    Array.from(images.keys()).forEach((img, k) => {
+      let data = '';
+      for (let i = 0; i < img.data.length; i += 8192) data += String.fromCharCode(...img.data.subarray(i, i + 8192));
+      objects[imageId(k)] = `<< /Type /XObject /Subtype /Image /Width ${img.width} /Height ${img.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${data.length} >>\nstream\n${data}\nendstream`;
+    });
+
+    // Every character written is a single byte, so string offsets are byte offsets
+    let out = '%PDF-1.4\n%âãÏÓ\n';
+    const offsets: number[] = [];
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = out.length;
+      out += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+    const xref = out.length;
+    out += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) out += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+    out += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 4 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+    const bytes = new Uint8Array(out.length);
+    for (let i = 0; i < out.length; i++) bytes[i] = out.charCodeAt(i);
+    return bytes;
+  }
+
+  return { pages, addPage, finish };
+}
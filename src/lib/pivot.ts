@@ -0,0 +1,146 @@
+/**
+ * Group-by and pivot over dataset rows.
+ * A measure says how one column's values combine inside a group; pivoting spreads the
+ * members of a category column into separate series (e.g. revenue per period, split by supplier).
+ */
+import { type Aggregation, type Column, type Row, cellText, defaultAggregation } from './dataset';
+
+export type Summary = Aggregation | 'min' | 'max' | 'count' | 'distinct' | 'weighted';
+
+export const SUMMARIES: { id: Summary; label: string }[] = [
+  { id: 'sum', label: 'Sum' },
+  { id: 'avg', label: 'Average' },
+  { id: 'weighted', label: 'Weighted average' },
+  { id: 'min', label: 'Minimum' },
+  { id: 'max', label: 'Maximum' },
+  { id: 'count', label: 'Count' },
+  { id: 'distinct', label: 'Distinct count' },
+  { id: 'last', label: 'Last' },
+];
+
+export interface Measure {
+  key: string;
+  agg: Summary;
+  weight?: string;      // weight column for 'weighted', e.g. units for costPrice
+}
+
+/** The measure a column rolls up with by default. */
+export function columnMeasure(col: Column): Measure {
+  return { key: col.key, agg: defaultAggregation(col) };
+}
+
+const numberAt = (r: Row, key: string) => {
+  const v = r[key];
+  return typeof v === 'number' && isFinite(v) ? v : null;
+};
+
+/**
+ * Combines a measure over rows. Empty cells are skipped rather than read as 0, so
+ * averages and extremes only see real values; an empty group sums to 0 and has no
+ * average (NaN). Count and distinct work on any column type.
+ */
+export function summarize(rows: Row[], m: Measure): number {
+  if (m.agg === 'count') return rows.filter(r => cellText(r, m.key) !== '').length;
+  if (m.agg === 'distinct') return new Set(rows.map(r => cellText(r, m.key)).filter(Boolean)).size;
+  if (m.agg === 'weighted') {
+    let total = 0, weights = 0;
+    for (const r of rows) {
+      const v = numberAt(r, m.key), w = m.weight ? numberAt(r, m.weight) : 1;
+      if (v == null || w == null) continue;
+      total += v * w;
+      weights += w;
+    }
+    return weights ? total / weights : NaN;
+  }
+  const values = rows.map(r => numberAt(r, m.key)).filter((v): v is number => v != null);
+  if (m.agg === 'sum') return values.reduce((s, v) => s + v, 0);
+  if (!values.length) return NaN;
+  if (m.agg === 'avg') return values.reduce((s, v) => s + v, 0) / values.length;
+  if (m.agg === 'min') return values.reduce((a, v) => Math.min(a, v), Infinity);
+  if (m.agg === 'max') return values.reduce((a, v) => Math.max(a, v), -Infinity);
+  return values[values.length - 1];
+}
+
+export interface Group {
+  keys: string[];       // one text value per group-by column
+  rows: Row[];
+}
+
+/** Groups rows by the text values of one or more columns, in first-seen order. */
+export function groupBy(rows: Row[], keys: string[]): Group[] {
+  const groups = new Map<string, Group>();
+  for (const r of rows) {
+    const values = keys.map(k => cellText(r, k));
+    const id = JSON.stringify(values);
+    const g = groups.get(id);
+    if (g) g.rows.push(r); else groups.set(id, { keys: values, rows: [r] });
+  }
+  return Array.from(groups.values());
+}
+
+export interface SummaryRow {
+  keys: string[];
+  values: number[];     // one per measure
+  rows: Row[];
+}
+
+/** GROUP BY keys with one value per measure. */
+export function summarizeBy(rows: Row[], keys: string[], measures: Measure[]): SummaryRow[] {
+  return groupBy(rows, keys).map(g => ({ keys: g.keys, values: measures.map(m => summarize(g.rows, m)), rows: g.rows }));
+}
+
+export interface PivotOptions {
+  /** Member order: first seen, or largest total first (the default, so stacks put the biggest at the bottom). */
+  order?: 'first' | 'total';
+  /** Keep at most this many members; the rest are folded into an "Other" member (see OTHER_MEMBER). */
+  limit?: number;
+}
+
+export interface Pivot {
+  members: string[];                    // category values, one per output series
+  rowsOf: (member: string) => Row[];    // the rows behind a member ("Other" included)
+  split: (rows: Row[]) => number[];     // one value per member for a slice of rows
+  totals: number[];                     // per member over all rows
+}
+
+/**
+ * Name of the member that folded members go into. A real "Other" that is folded simply joins
+ * it; one that is kept keeps its name, and the bucket becomes "Other (3 more)" instead.
+ */
+export const OTHER_MEMBER = 'Other';
+
+/**
+ * Pivots the members of a category column into series: `split` turns any slice of rows
+ * (say, one period) into a value per member, with empty members reading as 0.
+ * The value is a measure or any function of a member's rows (e.g. a derived metric).
+ */
+export function pivot(rows: Row[], category: string, measure: Measure | ((rows: Row[]) => number), opts: PivotOptions = {}): Pivot {
+  const value = typeof measure === 'function' ? measure : (rs: Row[]) => summarize(rs, measure);
+  const of = (rs: Row[]) => { const v = value(rs); return isFinite(v) ? v : 0; };
+  const groups = groupBy(rows, [category]).filter(g => g.keys[0] !== '');
+  const ranked = groups.map(g => ({ member: g.keys[0], rows: g.rows, total: of(g.rows) }));
+  if ((opts.order ?? 'total') === 'total') ranked.sort((a, b) => b.total - a.total);
+
+  const limit = opts.limit ?? Infinity;
+  const kept = ranked.length > limit ? ranked.slice(0, Math.max(1, limit - 1)) : ranked;
+  const folded = new Set(ranked.slice(kept.length).map(r => r.member));
+  const members = kept.map(r => r.member);
+  const other = members.includes(OTHER_MEMBER) ? `${OTHER_MEMBER} (${folded.size} more)` : OTHER_MEMBER;
+  if (folded.size) members.push(other);
+
+  const memberOf = (r: Row) => {
+    const m = cellText(r, category);
+    return folded.has(m) ? other : m;
+  };
+  const bucket = (rs: Row[]) => {
+    const by = new Map<string, Row[]>(members.map(m => [m, []]));
+    for (const r of rs) by.get(memberOf(r))?.push(r);
+    return by;
+  };
+  const all = bucket(rows);
+  const split = (rs: Row[]) => {
+    const by = bucket(rs);
+    return members.map(m => of(by.get(m) ?? []));
+  };
+  return { members, rowsOf: m => all.get(m) ?? [], split, totals: split(rows) };
+}
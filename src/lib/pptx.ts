@@ -0,0 +1,427 @@
+/**
+ * PowerPoint (.pptx) writer. Builds a 16:9 deck in the browser from a list of slides:
+ * title, native chart, KPI cards and bullet columns, each with optional speaker notes.
+ * Charts are native chart parts with their values cached inline, so they stay editable
+ * (colors, type, labels) in PowerPoint without an embedded workbook.
+ */
+import { type NumberFormat, excelFormat } from './format';
+import type { Kpi } from './kpi';
+import { writeZip } from './zip';
+
+export interface DeckSeries {
+  name: string;
+  color: string;                    // #RRGGBB
+  values: number[];                 // one per category; non-finite values are left as gaps
+  render: 'line' | 'area' | 'bar' | 'scatter';
+  secondary?: boolean;              // plot against a right-hand value axis
+  colors?: string[];                // per-point bar colors, e.g. green rises and red falls
+  hidden?: boolean;                 // unfilled and left out of the legend (a waterfall's base)
+}
+
+export interface DeckChart {
+  categories: string[];
+  series: DeckSeries[];
+  pie?: boolean;                    // plots the first series, one slice per category
+  donut?: boolean;                  // a pie with a hole
+  labels?: boolean;                 // value labels on the bars
+  legend?: boolean;                 // defaults to shown when more than one series is visible
+  bars?: { layout: 'grouped' | 'stacked' | 'percent'; horizontal: boolean };
+  format?: NumberFormat;            // primary value axis
+  secondaryFormat?: NumberFormat;
+  xTitle?: string;
+  yTitle?: string;
+  y2Title?: string;
+}
+
+export type DeckSlide =
+  | { kind: 'title'; title: string; subtitle?: string; notes?: string }
+  | { kind: 'chart'; title: string; chart: DeckChart; caption?: string; notes?: string }
+  | { kind: 'kpis'; title: string; kpis: Kpi[]; caption?: string; notes?: string }
+  | { kind: 'bullets'; title: string; columns: { heading: string; items: string[] }[]; notes?: string };
+
+export interface DeckOptions {
+  title: string;
+  accent?: string;                  // #RRGGBB used for title bars and headings
+  date?: Date;
+}
+
+const NS_A = 'http://schemas.openxmlformats.org/drawingml/2006/main';
+const NS_R = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const NS_P = 'http://schemas.openxmlformats.org/presentationml/2006/main';
+const NS_C = 'http://schemas.openxmlformats.org/drawingml/2006/chart';
+const REL = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const CT = 'application/vnd.openxmlformats-officedocument';
+const XML_HEAD = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const P_NS = `xmlns:a="${NS_A}" xmlns:r="${NS_R}" xmlns:p="${NS_P}"`;
+
+const SLIDE_W = 12192000, SLIDE_H = 6858000;   // 13.33 × 7.5 in
+const PIE_COLORS = ['6366F1', 'F59E0B', '0EA5E9', 'EF4444', '22C55E', 'A855F7', '14B8A6', '334155'];
+
+const emu = (inches: number) => Math.round(inches * 914400);
+const hex = (color: string) => color.replace('#', '').toUpperCase().slice(0, 6).padEnd(6, '0');
+
+// Control characters other than tab and newlines are not allowed anywhere in XML 1.0
+const xmlSafe = (ch: string) => ch >= ' ' || ch === '\t' || ch === '\n' || ch === '\r';
+
+function esc(s: string): string {
+  return Array.from(s).filter(xmlSafe).join('')
+    .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/* ---------- Text shapes ---------- */
+
+interface Para {
+  text: string;
+  size: number;                     // points
+  bold?: boolean;
+  color?: string;
+  bullet?: boolean;
+  align?: 'l' | 'ctr' | 'r';
+}
+
+type Box = [x: number, y: number, w: number, h: number];   // inches
+
+function paraXml(p: Para): string {
+  const pPr = p.bullet
+    ? `<a:pPr marL="285750" indent="-285750" algn="${p.align ?? 'l'}"><a:spcAft><a:spcPts val="600"/></a:spcAft><a:buFont typeface="Arial"/><a:buChar char="•"/></a:pPr>`
+    : `<a:pPr algn="${p.align ?? 'l'}"><a:buNone/></a:pPr>`;
+  const rPr = `<a:rPr lang="en-US" sz="${Math.round(p.size * 100)}"${p.bold ? ' b="1"' : ''} dirty="0"><a:solidFill><a:srgbClr val="${hex(p.color ?? '#111827')}"/></a:solidFill></a:rPr>`;
+  return `<a:p>${pPr}<a:r>${rPr}<a:t>${esc(p.text)}</a:t></a:r></a:p>`;
+}
+
+function shapeXml(id: number, name: string, [x, y, w, h]: Box, paras: Para[], opts: { fill?: string; line?: string; round?: boolean; anchor?: 't' | 'ctr' | 'b' } = {}): string {
+  const fill = opts.fill ? `<a:solidFill><a:srgbClr val="${hex(opts.fill)}"/></a:solidFill>` : '<a:noFill/>';
+  const line = opts.line ? `<a:ln w="9525"><a:solidFill><a:srgbClr val="${hex(opts.line)}"/></a:solidFill></a:ln>` : '<a:ln><a:noFill/></a:ln>';
+  const inset = opts.fill ? emu(0.2) : 0;
+  const body = paras.length ? paras.map(paraXml).join('') : '<a:p><a:endParaRPr lang="en-US"/></a:p>';
+  return `<p:sp><p:nvSpPr><p:cNvPr id="${id}" name="${esc(name)}"/><p:cNvSpPr${opts.fill ? '' : ' txBox="1"'}/><p:nvPr/></p:nvSpPr>`
+    + `<p:spPr><a:xfrm><a:off x="${emu(x)}" y="${emu(y)}"/><a:ext cx="${emu(w)}" cy="${emu(h)}"/></a:xfrm>`
+    + `<a:prstGeom prst="${opts.round ? 'roundRect' : 'rect'}"><a:avLst/></a:prstGeom>${fill}${line}</p:spPr>`
+    + `<p:txBody><a:bodyPr wrap="square" lIns="${inset}" tIns="${inset}" rIns="${inset}" bIns="${inset}" anchor="${opts.anchor ?? 't'}"><a:normAutofit/></a:bodyPr><a:lstStyle/>${body}</p:txBody></p:sp>`;
+}
+
+function chartFrameXml(id: number, relId: string, [x, y, w, h]: Box): string {
+  return `<p:graphicFrame><p:nvGraphicFramePr><p:cNvPr id="${id}" name="Chart ${id}"/><p:cNvGraphicFramePr/><p:nvPr/></p:nvGraphicFramePr>`
+    + `<p:xfrm><a:off x="${emu(x)}" y="${emu(y)}"/><a:ext cx="${emu(w)}" cy="${emu(h)}"/></p:xfrm>`
+    + `<a:graphic><a:graphicData uri="${NS_C}"><c:chart xmlns:c="${NS_C}" r:id="${relId}"/></a:graphicData></a:graphic></p:graphicFrame>`;
+}
+
+const GROUP_HEAD = '<p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr>'
+  + '<p:grpSpPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="0" cy="0"/><a:chOff x="0" y="0"/><a:chExt cx="0" cy="0"/></a:xfrm></p:grpSpPr>';
+
+function slideXml(shapes: string[], background?: string): string {
+  const bg = background ? `<p:bg><p:bgPr><a:solidFill><a:srgbClr val="${hex(background)}"/></a:solidFill><a:effectLst/></p:bgPr></p:bg>` : '';
+  return `${XML_HEAD}<p:sld ${P_NS}><p:cSld>${bg}<p:spTree>${GROUP_HEAD}${shapes.join('')}</p:spTree></p:cSld>`
+    + '<p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sld>';
+}
+
+function notesXml(text: string): string {
+  const paras = text.split('\n').map(line => `<a:p><a:r><a:rPr lang="en-US" dirty="0"/><a:t>${esc(line)}</a:t></a:r></a:p>`).join('');
+  return `${XML_HEAD}<p:notes ${P_NS}><p:cSld><p:spTree>${GROUP_HEAD}`
+    + '<p:sp><p:nvSpPr><p:cNvPr id="2" name="Slide Image Placeholder 1"/><p:cNvSpPr><a:spLocks noGrp="1" noRot="1" noChangeAspect="1"/></p:cNvSpPr><p:nvPr><p:ph type="sldImg"/></p:nvPr></p:nvSpPr><p:spPr/></p:sp>'
+    + '<p:sp><p:nvSpPr><p:cNvPr id="3" name="Notes Placeholder 2"/><p:cNvSpPr><a:spLocks noGrp="1"/></p:cNvSpPr><p:nvPr><p:ph type="body" idx="1"/></p:nvPr></p:nvSpPr>'
+    + `<p:spPr/><p:txBody><a:bodyPr/><a:lstStyle/>${paras}</p:txBody></p:sp>`
+    + '</p:spTree></p:cSld><p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:notes>';
+}
+
+/* ---------- Slide layouts ---------- */
+
+function titleShape(id: number, title: string, accent: string): string[] {
+  return [
+    shapeXml(id, 'Accent', [0.6, 0.45, 0.12, 0.7], [], { fill: accent }),
+    shapeXml(id + 1, 'Title', [0.9, 0.35, 11.8, 0.9], [{ text: title, size: 28, bold: true }], { anchor: 'ctr' }),
+  ];
+}
+
+function renderSlide(slide: DeckSlide, accent: string, chartRel: string | undefined): string {
+  switch (slide.kind) {
+    case 'title':
+      return slideXml([
+        shapeXml(2, 'Accent', [0.8, 2.3, 1.2, 0.08], [], { fill: accent }),
+        shapeXml(3, 'Title', [0.8, 2.5, 11.7, 1.6], [{ text: slide.title, size: 40, bold: true, color: '#FFFFFF' }], { anchor: 'b' }),
+        shapeXml(4, 'Subtitle', [0.8, 4.2, 11.7, 1.0], slide.subtitle ? [{ text: slide.subtitle, size: 20, color: '#CBD5E1' }] : []),
+        shapeXml(5, 'Footer', [0.8, 6.7, 6, 0.4], [{ text: 'Chartura', size: 12, color: '#94A3B8' }]),
+      ], '#0B0D12');
+    case 'chart':
+      return slideXml([
+        ...titleShape(2, slide.title, accent),
+        chartFrameXml(4, chartRel ?? '', [0.6, 1.4, 12.1, 5.2]),
+        shapeXml(5, 'Caption', [0.6, 6.7, 12.1, 0.5], slide.caption ? [{ text: slide.caption, size: 12, color: '#6B7280' }] : []),
+      ]);
+    case 'kpis': {
+      const n = Math.max(1, slide.kpis.length), gap = 0.3, w = (12.1 - gap * (n - 1)) / n;
+      return slideXml([
+        ...titleShape(2, slide.title, accent),
+        ...slide.kpis.map((k, i) => shapeXml(4 + i, `KPI ${i + 1}`, [0.6 + i * (w + gap), 2.2, w, 2.8], [
+          { text: k.label.toUpperCase(), size: 14, color: '#6B7280' },
+          { text: k.value, size: 40, bold: true },
+          { text: k.hint, size: 14, color: '#6B7280' },
+        ], { fill: '#F8FAFC', line: '#E2E8F0', round: true, anchor: 'ctr' })),
+        shapeXml(4 + slide.kpis.length, 'Caption', [0.6, 5.4, 12.1, 0.8], slide.caption ? [{ text: slide.caption, size: 16, color: '#374151' }] : []),
+      ]);
+    }
+    case 'bullets': {
+      const n = Math.max(1, slide.columns.length), gap = 0.3, w = (12.1 - gap * (n - 1)) / n;
+      return slideXml([
+        ...titleShape(2, slide.title, accent),
+        ...slide.columns.map((c, i) => shapeXml(4 + i, c.heading, [0.6 + i * (w + gap), 1.6, w, 5.0], [
+          { text: c.heading, size: 18, bold: true, color: accent },
+          ...(c.items.length ? c.items : ['—']).map(t => ({ text: t, size: 14, bullet: true, color: '#374151' })),
+        ], { fill: '#F8FAFC', line: '#E2E8F0', round: true })),
+      ]);
+    }
+  }
+}
+
+/* ---------- Native charts ---------- */
+
+function richText(text: string, size: number, rotate = false): string {
+  return `<c:tx><c:rich><a:bodyPr${rotate ? ' rot="-5400000" vert="horz"' : ''}/><a:lstStyle/><a:p><a:pPr><a:defRPr sz="${size * 100}" b="0"/></a:pPr>`
+    + `<a:r><a:rPr lang="en-US" sz="${size * 100}" b="0"/><a:t>${esc(text)}</a:t></a:r></a:p></c:rich></c:tx>`;
+}
+
+function axisTitle(text: string | undefined, rotate: boolean): string {
+  return text ? `<c:title>${richText(text, 12, rotate)}<c:overlay val="0"/></c:title>` : '';
+}
+
+function catData(categories: string[]): string {
+  return `<c:cat><c:strLit><c:ptCount val="${categories.length}"/>${categories.map((c, i) => `<c:pt idx="${i}"><c:v>${esc(c)}</c:v></c:pt>`).join('')}</c:strLit></c:cat>`;
+}
+
+function valData(values: number[], format: string): string {
+  const pts = values.map((v, i) => (isFinite(v) ? `<c:pt idx="${i}"><c:v>${v}</c:v></c:pt>` : '')).join('');
+  return `<c:val><c:numLit><c:formatCode>${esc(format)}</c:formatCode><c:ptCount val="${values.length}"/>${pts}</c:numLit></c:val>`;
+}
+
+const solid = (color: string, alpha?: number) =>
+  `<a:solidFill><a:srgbClr val="${hex(color)}">${alpha != null ? `<a:alpha val="${alpha * 1000}"/>` : ''}</a:srgbClr></a:solidFill>`;
+
+const NO_FILL = '<a:noFill/><a:ln><a:noFill/></a:ln>';
+
+function valueLabels(format: string): string {
+  return `<c:dLbls><c:numFmt formatCode="${esc(format)}" sourceLinked="0"/><c:spPr>${NO_FILL}</c:spPr>`
+    + '<c:showLegendKey val="0"/><c:showVal val="1"/><c:showCatName val="0"/><c:showSerName val="0"/><c:showPercent val="0"/><c:showBubbleSize val="0"/></c:dLbls>';
+}
+
+function seriesXml(s: DeckSeries, i: number, categories: string[], format: string, labels = false): string {
+  const head = `<c:ser><c:idx val="${i}"/><c:order val="${i}"/><c:tx><c:v>${esc(s.name)}</c:v></c:tx>`;
+  const data = catData(categories) + valData(s.values, format);
+  if (s.render === 'bar') {
+    const fill = s.hidden ? NO_FILL : solid(s.color);
+    const points = s.hidden ? '' : (s.colors ?? []).map((c, p) => `<c:dPt><c:idx val="${p}"/><c:invertIfNegative val="0"/><c:bubble3D val="0"/><c:spPr>${solid(c)}</c:spPr></c:dPt>`).join('');
+    return `${head}<c:spPr>${fill}</c:spPr><c:invertIfNegative val="0"/>${points}${labels && !s.hidden ? valueLabels(format) : ''}${data}</c:ser>`;
+  }
+  if (s.render === 'area') return `${head}<c:spPr>${solid(s.color, 35)}<a:ln w="19050">${solid(s.color)}</a:ln></c:spPr>${data}</c:ser>`;
+  const dots = s.render === 'scatter';
+  const line = dots ? '<a:ln><a:noFill/></a:ln>' : `<a:ln w="28575" cap="rnd">${solid(s.color)}<a:round/></a:ln>`;
+  const marker = `<c:marker><c:symbol val="circle"/><c:size val="${dots ? 8 : 5}"/><c:spPr>${solid(s.color)}<a:ln><a:noFill/></a:ln></c:spPr></c:marker>`;
+  return `${head}<c:spPr>${line}</c:spPr>${marker}${data}<c:smooth val="0"/></c:ser>`;
+}
+
+const AXIS_LINE = `<c:spPr><a:ln w="9525">${solid('#CBD5E1')}</a:ln></c:spPr>`;
+const GRID = `<c:majorGridlines><c:spPr><a:ln w="9525">${solid('#E5E7EB')}<a:prstDash val="dash"/></a:ln></c:spPr></c:majorGridlines>`;
+
+function catAxXml(id: number, cross: number, pos: 'b' | 'l', title: string | undefined, hidden = false): string {
+  return `<c:catAx><c:axId val="${id}"/><c:scaling><c:orientation val="minMax"/></c:scaling><c:delete val="${hidden ? 1 : 0}"/>`
+    + `<c:axPos val="${pos}"/>${axisTitle(title, pos === 'l')}<c:numFmt formatCode="General" sourceLinked="0"/>`
+    + `<c:majorTickMark val="none"/><c:minorTickMark val="none"/><c:tickLblPos val="low"/>${AXIS_LINE}`
+    + `<c:crossAx val="${cross}"/><c:crosses val="autoZero"/><c:auto val="1"/><c:lblAlgn val="ctr"/><c:lblOffset val="100"/><c:noMultiLvlLbl val="0"/></c:catAx>`;
+}
+
+function valAxXml(id: number, cross: number, pos: 'l' | 'r' | 'b', title: string | undefined, format: string, secondary = false): string {
+  return `<c:valAx><c:axId val="${id}"/><c:scaling><c:orientation val="minMax"/></c:scaling><c:delete val="0"/>`
+    + `<c:axPos val="${pos}"/>${secondary ? '' : GRID}${axisTitle(title, pos !== 'b')}<c:numFmt formatCode="${esc(format)}" sourceLinked="0"/>`
+    + `<c:majorTickMark val="none"/><c:minorTickMark val="none"/><c:tickLblPos val="nextTo"/>${AXIS_LINE}`
+    + `<c:crossAx val="${cross}"/><c:crosses val="${secondary ? 'max' : 'autoZero'}"/><c:crossBetween val="between"/></c:valAx>`;
+}
+
+/** Slice colors of a pie or donut: the series color first, then the palette. */
+export function sliceColors(ch: DeckChart): string[] {
+  const first = ch.series[0] && `#${hex(ch.series[0].color)}`;
+  return [...(first ? [first] : []), ...PIE_COLORS.map(c => `#${c}`).filter(c => c !== first)];
+}
+
+/** Chart part XML: one chart group per render type and axis, in back-to-front order (areas, bars, lines). */
+export function chartXml(ch: DeckChart): string {
+  const fmt = excelFormat(ch.format ?? { style: 'number' });
+  const fmt2 = excelFormat(ch.secondaryFormat ?? ch.format ?? { style: 'number' });
+  let plot: string;
+  let legend = ch.legend ?? ch.series.filter(s => !s.hidden).length > 1;
+
+  if (ch.pie || ch.donut) {
+    const s = ch.series[0];
+    const colors = sliceColors(ch).map(hex);
+    const dPts = ch.categories.map((_, i) => `<c:dPt><c:idx val="${i}"/><c:bubble3D val="0"/><c:spPr><a:solidFill><a:srgbClr val="${colors[i % colors.length]}"/></a:solidFill><a:ln w="19050">${solid('#FFFFFF')}</a:ln></c:spPr></c:dPt>`).join('');
+    const labels = '<c:dLbls><c:showLegendKey val="0"/><c:showVal val="0"/><c:showCatName val="1"/><c:showSerName val="0"/><c:showPercent val="1"/><c:showBubbleSize val="0"/><c:showLeaderLines val="1"/></c:dLbls>';
+    const tag = ch.donut ? 'c:doughnutChart' : 'c:pieChart';
+    plot = s
+      ? `<${tag}><c:varyColors val="1"/><c:ser><c:idx val="0"/><c:order val="0"/><c:tx><c:v>${esc(s.name)}</c:v></c:tx>${dPts}${labels}${catData(ch.categories)}${valData(s.values, fmt)}</c:ser>`
+        + `<c:firstSliceAng val="0"/>${ch.donut ? '<c:holeSize val="55"/>' : ''}</${tag}>`
+      : '';
+    legend = ch.legend ?? true;
+  } else {
+    const horizontal = !!ch.bars?.horizontal;
+    const secondary = !ch.bars && ch.series.some(s => s.secondary) && ch.series.some(s => !s.secondary);
+    const groups: string[] = [];
+    const group = (render: DeckSeries['render'][], onRight: boolean) =>
+      ch.series.map((s, i) => ({ s, i })).filter(({ s }) => render.includes(ch.bars ? 'bar' : s.render) && (secondary && s.secondary) === onRight);
+    for (const onRight of secondary ? [false, true] : [false]) {
+      const ids = onRight ? '<c:axId val="3"/><c:axId val="4"/>' : '<c:axId val="1"/><c:axId val="2"/>';
+      const f = onRight ? fmt2 : fmt;
+      const ser = (list: { s: DeckSeries; i: number }[], asBar = false) =>
+        list.map(({ s, i }) => seriesXml(asBar ? { ...s, render: 'bar' } : s, i, ch.categories, f, ch.labels)).join('');
+      const areas = group(['area'], onRight), bars = group(['bar'], onRight), lines = group(['line', 'scatter'], onRight);
+      if (areas.length) groups.push(`<c:areaChart><c:grouping val="standard"/><c:varyColors val="0"/>${ser(areas)}${ids}</c:areaChart>`);
+      if (bars.length) {
+        const layout = ch.bars?.layout ?? 'grouped';
+        const grouping = layout === 'percent' ? 'percentStacked' : layout === 'stacked' ? 'stacked' : 'clustered';
+        groups.push(`<c:barChart><c:barDir val="${horizontal ? 'bar' : 'col'}"/><c:grouping val="${grouping}"/><c:varyColors val="0"/>${ser(bars, true)}`
+          + `<c:gapWidth val="60"/>${layout === 'grouped' ? '' : '<c:overlap val="100"/>'}${ids}</c:barChart>`);
+      }
+      if (lines.length) groups.push(`<c:lineChart><c:grouping val="standard"/><c:varyColors val="0"/>${ser(lines)}<c:marker val="1"/>${ids}</c:lineChart>`);
+    }
+    const valFormat = ch.bars?.layout === 'percent' ? '0%' : fmt;
+    const axes = horizontal
+      ? catAxXml(1, 2, 'l', ch.xTitle) + valAxXml(2, 1, 'b', ch.yTitle, valFormat)
+      : catAxXml(1, 2, 'b', ch.xTitle) + valAxXml(2, 1, 'l', ch.yTitle, valFormat)
+        + (secondary ? catAxXml(3, 4, 'b', undefined, true) + valAxXml(4, 3, 'r', ch.y2Title, fmt2, true) : '');
+    plot = groups.join('') + axes;
+  }
+
+  return `${XML_HEAD}<c:chartSpace xmlns:c="${NS_C}" xmlns:a="${NS_A}" xmlns:r="${NS_R}"><c:roundedCorners val="0"/>`
+    + `<c:chart><c:autoTitleDeleted val="1"/><c:plotArea><c:layout/>${plot}</c:plotArea>`
+    + (legend ? '<c:legend><c:legendPos val="b"/><c:overlay val="0"/></c:legend>' : '')
+    + '<c:plotVisOnly val="1"/><c:dispBlanksAs val="gap"/></c:chart>'
+    + `<c:txPr><a:bodyPr/><a:lstStyle/><a:p><a:pPr><a:defRPr sz="1200">${solid('#4B5563')}</a:defRPr></a:pPr><a:endParaRPr lang="en-US"/></a:p></c:txPr>`
+    + '</c:chartSpace>';
+}
+
+/* ---------- Package parts ---------- */
+
+function themeXml(accent: string): string {
+  const accents = [hex(accent), '1ABC9C', 'F59E0B', '0EA5E9', 'EF4444', 'A855F7'];
+  const phFill = '<a:solidFill><a:schemeClr val="phClr"/></a:solidFill>';
+  const font = '<a:latin typeface="Calibri"/><a:ea typeface=""/><a:cs typeface=""/>';
+  return `${XML_HEAD}<a:theme xmlns:a="${NS_A}" name="Chartura"><a:themeElements>`
+    + '<a:clrScheme name="Chartura"><a:dk1><a:srgbClr val="111827"/></a:dk1><a:lt1><a:srgbClr val="FFFFFF"/></a:lt1>'
+    + '<a:dk2><a:srgbClr val="0B0D12"/></a:dk2><a:lt2><a:srgbClr val="F3F4F6"/></a:lt2>'
+    + accents.map((c, i) => `<a:accent${i + 1}><a:srgbClr val="${c}"/></a:accent${i + 1}>`).join('')
+    + '<a:hlink><a:srgbClr val="2563EB"/></a:hlink><a:folHlink><a:srgbClr val="7C3AED"/></a:folHlink></a:clrScheme>'
+    + `<a:fontScheme name="Chartura"><a:majorFont>${font}</a:majorFont><a:minorFont>${font}</a:minorFont></a:fontScheme>`
+    + `<a:fmtScheme name="Chartura"><a:fillStyleLst>${phFill.repeat(3)}</a:fillStyleLst>`
+    + `<a:lnStyleLst>${`<a:ln w="9525">${phFill}</a:ln>`.repeat(3)}</a:lnStyleLst>`
+    + `<a:effectStyleLst>${'<a:effectStyle><a:effectLst/></a:effectStyle>'.repeat(3)}</a:effectStyleLst>`
+    + `<a:bgFillStyleLst>${phFill.repeat(3)}</a:bgFillStyleLst></a:fmtScheme>`
+    + '</a:themeElements><a:objectDefaults/><a:extraClrSchemeLst/></a:theme>';
+}
+
+const CLR_MAP = '<p:clrMap bg1="lt1" tx1="dk1" bg2="lt2" tx2="dk2" accent1="accent1" accent2="accent2" accent3="accent3" accent4="accent4" accent5="accent5" accent6="accent6" hlink="hlink" folHlink="folHlink"/>';
+
+const MASTER = `${XML_HEAD}<p:sldMaster ${P_NS}><p:cSld><p:bg><p:bgRef idx="1001"><a:schemeClr val="bg1"/></p:bgRef></p:bg><p:spTree>${GROUP_HEAD}</p:spTree></p:cSld>${CLR_MAP}`
+  + '<p:sldLayoutIdLst><p:sldLayoutId id="2147483649" r:id="rId1"/></p:sldLayoutIdLst>'
+  + '<p:txStyles><p:titleStyle><a:lvl1pPr><a:defRPr sz="3200"/></a:lvl1pPr></p:titleStyle><p:bodyStyle><a:lvl1pPr><a:defRPr sz="1800"/></a:lvl1pPr></p:bodyStyle>'
+  + '<p:otherStyle><a:lvl1pPr><a:defRPr sz="1800"/></a:lvl1pPr></p:otherStyle></p:txStyles></p:sldMaster>';
+
+const LAYOUT = `${XML_HEAD}<p:sldLayout ${P_NS} type="blank" preserve="1"><p:cSld name="Blank"><p:spTree>${GROUP_HEAD}</p:spTree></p:cSld>`
+  + '<p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sldLayout>';
+
+// Notes pages place the slide thumbnail above the speaker notes
+const NOTES_MASTER = `${XML_HEAD}<p:notesMaster ${P_NS}><p:cSld><p:spTree>${GROUP_HEAD}`
+  + '<p:sp><p:nvSpPr><p:cNvPr id="2" name="Slide Image Placeholder 1"/><p:cNvSpPr><a:spLocks noGrp="1" noRot="1" noChangeAspect="1"/></p:cNvSpPr><p:nvPr><p:ph type="sldImg" idx="2"/></p:nvPr></p:nvSpPr>'
+  + `<p:spPr><a:xfrm><a:off x="${emu(0.5)}" y="${emu(0.75)}"/><a:ext cx="${emu(6.5)}" cy="${emu(3.656)}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom><a:noFill/><a:ln w="12700"><a:solidFill><a:srgbClr val="000000"/></a:solidFill></a:ln></p:spPr></p:sp>`
+  + '<p:sp><p:nvSpPr><p:cNvPr id="3" name="Notes Placeholder 2"/><p:cNvSpPr><a:spLocks noGrp="1"/></p:cNvSpPr><p:nvPr><p:ph type="body" sz="quarter" idx="3"/></p:nvPr></p:nvSpPr>'
+  + `<p:spPr><a:xfrm><a:off x="${emu(0.75)}" y="${emu(4.75)}"/><a:ext cx="${emu(6)}" cy="${emu(4.5)}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></p:spPr>`
+  + '<p:txBody><a:bodyPr/><a:lstStyle/><a:p><a:endParaRPr lang="en-US"/></a:p></p:txBody></p:sp>'
+  + `</p:spTree></p:cSld>${CLR_MAP}<p:notesStyle><a:lvl1pPr marL="0" algn="l"><a:defRPr sz="1200"><a:solidFill><a:schemeClr val="tx1"/></a:solidFill></a:defRPr></a:lvl1pPr></p:notesStyle></p:notesMaster>`;
+
+function rels(items: [id: string, type: string, target: string][]): string {
+  return `${XML_HEAD}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+    + items.map(([id, type, target]) => `<Relationship Id="${id}" Type="${type.startsWith('http') ? type : `${REL}/${type}`}" Target="${target}"/>`).join('')
+    + '</Relationships>';
+}
+
+/** Builds the .pptx package bytes for the slides, in order. */
+export function buildPptx(slides: DeckSlide[], opts: DeckOptions): Uint8Array {
+  const accent = opts.accent ?? '#1ABC9C';
+  const date = opts.date ?? new Date();
+  const files: { name: string; data: string }[] = [];
+  const overrides: [part: string, type: string][] = [
+    ['/ppt/presentation.xml', `${CT}.presentationml.presentation.main+xml`],
+    ['/ppt/slideMasters/slideMaster1.xml', `${CT}.presentationml.slideMaster+xml`],
+    ['/ppt/slideLayouts/slideLayout1.xml', `${CT}.presentationml.slideLayout+xml`],
+    ['/ppt/notesMasters/notesMaster1.xml', `${CT}.presentationml.notesMaster+xml`],
+    ['/ppt/theme/theme1.xml', `${CT}.theme+xml`],
+    ['/ppt/theme/theme2.xml', `${CT}.theme+xml`],
+    ['/ppt/presProps.xml', `${CT}.presentationml.presProps+xml`],
+    ['/ppt/viewProps.xml', `${CT}.presentationml.viewProps+xml`],
+    ['/ppt/tableStyles.xml', `${CT}.presentationml.tableStyles+xml`],
+    ['/docProps/core.xml', 'application/vnd.openxmlformats-package.core-properties+xml'],
+    ['/docProps/app.xml', `${CT}.extended-properties+xml`],
+  ];
+
+  let charts = 0;
+  slides.forEach((slide, i) => {
+    const n = i + 1;
+    const slideRels: [string, string, string][] = [['rId1', 'slideLayout', '../slideLayouts/slideLayout1.xml']];
+    let chartRel: string | undefined;
+    if (slide.kind === 'chart') {
+      charts++;
+      chartRel = `rId${slideRels.length + 1}`;
+      slideRels.push([chartRel, 'chart', `../charts/chart${charts}.xml`]);
+      files.push({ name: `ppt/charts/chart${charts}.xml`, data: chartXml(slide.chart) });
+      overrides.push([`/ppt/charts/chart${charts}.xml`, `${CT}.drawingml.chart+xml`]);
+    }
+    if (slide.notes) {
+      slideRels.push([`rId${slideRels.length + 1}`, 'notesSlide', `../notesSlides/notesSlide${n}.xml`]);
+      files.push({ name: `ppt/notesSlides/notesSlide${n}.xml`, data: notesXml(slide.notes) });
+      files.push({ name: `ppt/notesSlides/_rels/notesSlide${n}.xml.rels`, data: rels([['rId1', 'notesMaster', '../notesMasters/notesMaster1.xml'], ['rId2', 'slide', `../slides/slide${n}.xml`]]) });
+      overrides.push([`/ppt/notesSlides/notesSlide${n}.xml`, `${CT}.presentationml.notesSlide+xml`]);
+    }
+    files.push({ name: `ppt/slides/slide${n}.xml`, data: renderSlide(slide, accent, chartRel) });
+    files.push({ name: `ppt/slides/_rels/slide${n}.xml.rels`, data: rels(slideRels) });
+    overrides.push([`/ppt/slides/slide${n}.xml`, `${CT}.presentationml.slide+xml`]);
+  });
+
+  const slideIds = slides.map((_, i) => `<p:sldId id="${256 + i}" r:id="rId${i + 7}"/>`).join('');
+  files.push(
+    { name: 'ppt/presentation.xml', data: `${XML_HEAD}<p:presentation ${P_NS} saveSubsetFonts="1">`
+      + '<p:sldMasterIdLst><p:sldMasterId id="2147483648" r:id="rId1"/></p:sldMasterIdLst>'
+      + '<p:notesMasterIdLst><p:notesMasterId r:id="rId2"/></p:notesMasterIdLst>'
+      + `<p:sldIdLst>${slideIds}</p:sldIdLst><p:sldSz cx="${SLIDE_W}" cy="${SLIDE_H}"/><p:notesSz cx="6858000" cy="9144000"/></p:presentation>` },
+    { name: 'ppt/_rels/presentation.xml.rels', data: rels([
+      ['rId1', 'slideMaster', 'slideMasters/slideMaster1.xml'],
+      ['rId2', 'notesMaster', 'notesMasters/notesMaster1.xml'],
+      ['rId3', 'theme', 'theme/theme1.xml'],
+      ['rId4', 'presProps', 'presProps.xml'],
+      ['rId5', 'viewProps', 'viewProps.xml'],
+      ['rId6', 'tableStyles', 'tableStyles.xml'],
+      ...slides.map((_, i) => [`rId${i + 7}`, 'slide', `slides/slide${i + 1}.xml`] as [string, string, string]),
+    ]) },
+    { name: 'ppt/slideMasters/slideMaster1.xml', data: MASTER },
+    { name: 'ppt/slideMasters/_rels/slideMaster1.xml.rels', data: rels([['rId1', 'slideLayout', '../slideLayouts/slideLayout1.xml'], ['rId2', 'theme', '../theme/theme1.xml']]) },
+    { name: 'ppt/slideLayouts/slideLayout1.xml', data: LAYOUT },
+    { name: 'ppt/slideLayouts/_rels/slideLayout1.xml.rels', data: rels([['rId1', 'slideMaster', '../slideMasters/slideMaster1.xml']]) },
+    { name: 'ppt/notesMasters/notesMaster1.xml', data: NOTES_MASTER },
+    { name: 'ppt/notesMasters/_rels/notesMaster1.xml.rels', data: rels([['rId1', 'theme', '../theme/theme2.xml']]) },
+    { name: 'ppt/theme/theme1.xml', data: themeXml(accent) },
+    { name: 'ppt/theme/theme2.xml', data: themeXml(accent) },
+    { name: 'ppt/presProps.xml', data: `${XML_HEAD}<p:presentationPr ${P_NS}/>` },
+    { name: 'ppt/viewProps.xml', data: `${XML_HEAD}<p:viewPr ${P_NS}/>` },
+    { name: 'ppt/tableStyles.xml', data: `${XML_HEAD}<a:tblStyleLst xmlns:a="${NS_A}" def="{5C22544A-7EE6-4342-B048-85BDC9FD1C3A}"/>` },
+    { name: 'docProps/core.xml', data: `${XML_HEAD}<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">`
+      + `<dc:title>${esc(opts.title)}</dc:title><dc:creator>Chartura</dc:creator><dcterms:created xsi:type="dcterms:W3CDTF">${date.toISOString().replace(/\.\d+Z$/, 'Z')}</dcterms:created></cp:coreProperties>` },
+    { name: 'docProps/app.xml', data: `${XML_HEAD}<Properties xmlns="http://schemas.openxmlformats.org/officeDocument/2006/extended-properties"><Application>Chartura</Application><Slides>${slides.length}</Slides><Notes>${slides.filter(s => s.notes).length}</Notes></Properties>` },
+  );
+
+  const contentTypes = `${XML_HEAD}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">`
+    + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/>'
+    + overrides.map(([part, type]) => `<Override PartName="${part}" ContentType="${type}"/>`).join('')
+    + '</Types>';
+  const packageRels = rels([
+    ['rId1', 'officeDocument', 'ppt/presentation.xml'],
+    ['rId2', 'http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties', 'docProps/core.xml'],
+    ['rId3', 'extended-properties', 'docProps/app.xml'],
+  ]);
+
+  return writeZip([{ name: '[Content_Types].xml', data: contentTypes }, { name: '_rels/.rels', data: packageRels }, ...files], date);
+}
@@ -0,0 +1,196 @@
+/**
+ * Project files (`.chartura.json`): a saved analysis — the table, chart settings, storyboard
+ * and Askura transcript — in a versioned envelope. Reading a file migrates it step by step to
+ * the current version and checks its shape, so old files and hand-edited ones load or fail
+ * with a clear message. Workspaces in the browser are stored in the same format.
+ */
+import { type ChartSpec, readChartSpec } from './chartSpec';
+import { AGGREGATIONS, COLUMN_TYPES, type Aggregation, type CellValue, type Column, type Dataset, type Row } from './dataset';
+import type { NumberFormat } from './format';
+import type { TranscriptEntry } from './report';
+import { cleanRules } from './validate';
+
+export const PROJECT_VERSION = 1;
+export const PROJECT_EXTENSION = '.chartura.json';
+
+export interface ProjectSeries {
+  metric: string;
+  color: string;
+  axis: 'left' | 'right';
+  render: 'line' | 'area' | 'bar' | 'scatter';
+}
+
+/** Chart controls; modes and grains are checked against what the page offers when applied. */
+export interface ProjectChart {
+  mode: string;
+  series: ProjectSeries[];
+  showGrid: boolean;
+  pointSize: number;
+  grain: string;          // a granularity or "auto"
+  tickCount: number;
+  splitBy: string;        // category column key, '' for none
+  filters?: Record<string, string>;   // rows the chart is limited to, filter text by column key
+}
+
+/** A chart pinned to the slides from an Askura answer. */
+export interface PinnedChart {
+  id: string;
+  spec: ChartSpec;
+  caption?: string;
+}
+
+export interface Project {
+  name: string;
+  dataset: Dataset;
+  chart: ProjectChart;
+  story: { order: string[]; dropped: string[]; pinned?: PinnedChart[] };
+  transcript: TranscriptEntry[];
+}
+
+export interface ProjectFile extends Project {
+  format: 'chartura';
+  version: number;
+  savedAt: string;        // ISO timestamp
+}
+
+type Json = Record<string, unknown>;
+
+const isObject = (v: unknown): v is Json => typeof v === 'object' && v != null && !Array.isArray(v);
+
+/**
+ * Upgrades from each version to the next, keyed by the version they read: when the format
+ * changes, bump PROJECT_VERSION and add a step here. Version 1 is the first saved format.
+ */
+const MIGRATIONS: Record<number, (file: Json) => Json> = {};
+
+const strings = (v: unknown) => (Array.isArray(v) ? v.filter((x): x is string => typeof x === 'string') : []);
+const finite = (v: unknown) => (typeof v === 'number' && isFinite(v) ? v : undefined);
+const cell = (v: unknown): CellValue => (typeof v === 'number' ? (isFinite(v) ? v : null) : typeof v === 'string' ? v : null);
+
+const FORMAT_STYLES: NumberFormat['style'][] = ['number', 'currency', 'percent'];
+// A three-letter code ("CHF") or a short symbol ("$", "kr"); it is written into Excel format codes, so no quotes
+const CURRENCY = /^(?:[A-Z]{3}|[^\s\d"\\]{1,2})$/;
+
+/**
+ * A stored number format, or undefined when it isn't one. Decimals are clamped to what
+ * toLocaleString accepts (0–20), since a bad value would throw while the chart renders.
+ */
+function readFormat(v: Json): NumberFormat | undefined {
+  if (!FORMAT_STYLES.includes(v.style as NumberFormat['style'])) return undefined;
+  if (v.currency !== undefined && (typeof v.currency !== 'string' || !CURRENCY.test(v.currency))) return undefined;
+  const places = (x: unknown) => { const n = finite(x); return n === undefined ? undefined : Math.max(0, Math.min(20, Math.round(n))); };
+  const decimals = places(v.decimals), maxDecimals = places(v.maxDecimals);
+  return {
+    style: v.style as NumberFormat['style'],
+    ...(v.compact === true ? { compact: true } : {}),
+    ...(decimals !== undefined ? { decimals } : {}),
+    ...(maxDecimals !== undefined ? { maxDecimals } : {}),
+    ...(typeof v.currency === 'string' ? { currency: v.currency } : {}),
+  };
+}
+
+/** Checks a stored data table, keeping only known column settings and plain cell values. */
+export function readDataset(v: unknown): Dataset {
+  if (!isObject(v) || !Array.isArray(v.columns) || !Array.isArray(v.rows)) throw new Error('The project has no data table.');
+  const columns: Column[] = v.columns.map((c, i) => {
+    if (!isObject(c) || typeof c.key !== 'string' || !c.key || !COLUMN_TYPES.includes(c.type as Column['type'])) {
+      throw new Error(`Column ${i + 1} of the data table is not valid.`);
+    }
+    const col: Column = { key: c.key, label: typeof c.label === 'string' ? c.label : c.key, type: c.type as Column['type'] };
+    if (AGGREGATIONS.includes(c.agg as Aggregation)) col.agg = c.agg as Aggregation;
+    const format = isObject(c.format) ? readFormat(c.format) : undefined;
+    if (format) col.format = format;
+    if (typeof c.formula === 'string') col.formula = c.formula;
+    if (c.decimal === ',') col.decimal = ',';
+    if (isObject(c.rules)) {
+      const r = c.rules;
+      const rules = cleanRules({ required: !!r.required, unique: !!r.unique, min: finite(r.min), max: finite(r.max), allowed: strings(r.allowed) });
+      if (rules) col.rules = rules;
+    }
+    return col;
+  });
+  if (new Set(columns.map(c => c.key)).size !== columns.length) throw new Error('The data table has two columns with the same key.');
+  const rows: Row[] = v.rows.filter(isObject).map(r => {
+    const row: Row = {};
+    for (const c of columns) row[c.key] = cell(r[c.key]);
+    return row;
+  });
+  return { columns, rows };
+}
+
+/** Chart settings with defaults for anything missing or mistyped. */
+export function readChart(v: unknown): ProjectChart {
+  const c = isObject(v) ? v : {};
+  const filters = isObject(c.filters) ? Object.fromEntries(Object.entries(c.filters).filter((e): e is [string, string] => typeof e[1] === 'string')) : undefined;
+  const series = (Array.isArray(c.series) ? c.series : []).filter(isObject).map(s => ({
+    metric: String(s.metric ?? ''),
+    color: typeof s.color === 'string' ? s.color : '#6B7280',
+    axis: s.axis === 'right' ? 'right' : 'left',
+    render: ['line', 'area', 'bar', 'scatter'].includes(s.render as string) ? s.render : 'line',
+  }) as ProjectSeries);
+  return {
+    mode: typeof c.mode === 'string' ? c.mode : 'line',
+    series,
+    showGrid: c.showGrid !== false,
+    pointSize: finite(c.pointSize) ?? 6,
+    grain: typeof c.grain === 'string' ? c.grain : 'auto',
+    tickCount: finite(c.tickCount) ?? 5,
+    splitBy: typeof c.splitBy === 'string' ? c.splitBy : '',
+    ...(filters && Object.keys(filters).length ? { filters } : {}),
+  };
+}
+
+function readPinned(v: unknown): PinnedChart[] {
+  return (Array.isArray(v) ? v : []).filter(isObject).flatMap(p => {
+    const spec = readChartSpec(p.spec);
+    if (typeof p.id !== 'string' || !spec) return [];
+    return [{ id: p.id, spec, ...(typeof p.caption === 'string' ? { caption: p.caption } : {}) }];
+  });
+}
+
+/** Migrates a parsed project (file or stored workspace) to the current version and checks it. */
+export function readProject(raw: unknown): ProjectFile {
+  if (!isObject(raw) || raw.format !== 'chartura' || typeof raw.version !== 'number') throw new Error('This is not a Chartura project file.');
+  if (raw.version > PROJECT_VERSION) throw new Error(`This project was saved by a newer version of Chartura (format ${raw.version}).`);
+  let file = raw;
+  for (let v = raw.version; v < PROJECT_VERSION; v++) {
+    const migrate = MIGRATIONS[v];
+    if (!migrate) throw new Error(`Projects in format ${raw.version} can't be opened.`);
+    file = migrate(file);
+  }
+  const story = isObject(file.story) ? file.story : {};
+  return {
+    format: 'chartura',
+    version: PROJECT_VERSION,
+    savedAt: typeof file.savedAt === 'string' ? file.savedAt : new Date().toISOString(),
+    name: typeof file.name === 'string' && file.name.trim() ? file.name : 'Untitled workspace',
+    dataset: readDataset(file.dataset),
+    chart: readChart(file.chart),
+    story: { order: strings(story.order), dropped: strings(story.dropped), pinned: readPinned(story.pinned) },
+    transcript: (Array.isArray(file.transcript) ? file.transcript : []).filter(isObject)
+      .filter(m => (m.role === 'user' || m.role === 'ai') && typeof m.text === 'string')
+      .map(m => {
+        const chart = readChartSpec(m.chart);
+        return { role: m.role, text: m.text, ...(chart ? { chart } : {}) } as TranscriptEntry;
+      }),
+  };
+}
+
+/** A project in the current format, stamped now. */
+export function projectFile(project: Project, savedAt = new Date()): ProjectFile {
+  return { format: 'chartura', version: PROJECT_VERSION, savedAt: savedAt.toISOString(), ...project };
+}
+
+export function serializeProject(project: Project): string {
+  return JSON.stringify(projectFile(project), null, 2);
+}
+
+export function parseProject(text: string): ProjectFile {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('This is not a Chartura project file.');
+  }
+  return readProject(raw);
+}
@@ -0,0 +1,245 @@
+/**
+ * Branded PDF report: a cover with contents, the current chart drawn as vectors (or as an
+ * image when its marks were painted on a canvas), the
+ * KPI cards, the full data table (paginated, with the header repeated on every page and
+ * wide tables split into column groups) and the Askura Q&A transcript.
+ */
+import type { ChartSpec } from './chartSpec';
+import { type Dataset, type Row, cellText, comparePeriods, groupRows, isNumeric, periodColumn } from './dataset';
+import { columnFormatter } from './format';
+import type { Kpi } from './kpi';
+import { type Orientation, type PageSize, type PdfFont, type PdfImage, type PdfPage, createPdf, fitText, pageDimensions, textWidth, wrapText } from './pdf';
+import { type SvgNode, drawSvg } from './svgPdf';
+
+export interface TranscriptEntry {
+  role: 'user' | 'ai';
+  text: string;
+  chart?: ChartSpec;                // a chart the answer showed; the report keeps the text
+}
+
+export interface ReportInput {
+  title: string;
+  subtitle?: string;
+  dataset: Dataset;
+  chart?: SvgNode;                  // the rendered chart <svg>
+  chartImage?: PdfImage;            // drawn instead of `chart` when set
+  chartTitle?: string;
+  kpis: Kpi[];
+  transcript: TranscriptEntry[];
+}
+
+export interface ReportOptions {
+  size: PageSize;
+  orientation: Orientation;
+  accent?: string;                  // brand color for the cover band, headings and rules
+  date?: Date;
+}
+
+const MARGIN = 48;
+const INK = '#111827', MUTED = '#6B7280', RULE = '#E5E7EB', SHADE = '#F3F4F6';
+
+// Table metrics
+const CELL_SIZE = 8, ROW_H = 16, CELL_PAD = 5, MIN_COL = 36, MAX_COL = 200, SAMPLE_ROWS = 200;
+
+/** Splits columns into groups that fit the width; later groups repeat the first column so rows stay identifiable. */
+function columnGroups(widths: number[], available: number): number[][] {
+  const groups: number[][] = [];
+  let current: number[] = [], used = 0;
+  widths.forEach((w, i) => {
+    if (current.length > (groups.length ? 1 : 0) && used + w > available) {
+      groups.push(current);
+      current = [0]; used = widths[0];
+    }
+    current.push(i); used += w;
+  });
+  if (current.length) groups.push(current);
+  return groups;
+}
+
+export function buildReport(input: ReportInput, opts: ReportOptions): Uint8Array {
+  const { width, height } = pageDimensions(opts.size, opts.orientation);
+  const accent = opts.accent ?? '#1ABC9C';
+  const date = opts.date ?? new Date();
+  const dateText = date.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+  const pdf = createPdf({ width, height, title: input.title, author: 'Chartura', date });
+  const contentW = width - MARGIN * 2;
+  const top = MARGIN + 24, bottom = height - MARGIN - 8;
+
+  const { dataset } = input;
+  const pc = periodColumn(dataset);
+  const periods = pc ? Array.from(groupRows(dataset.rows, pc.key).keys()).sort(comparePeriods) : [];
+  const span = periods.length > 1 ? `${periods[0]}–${periods[periods.length - 1]}` : periods[0] ?? '—';
+
+  // ---- Cover (contents are filled in once the other pages are laid out)
+  const cover = pdf.addPage();
+  cover.rect(0, 0, 14, height, { fill: accent });
+  cover.text('Chartura', MARGIN, MARGIN + 10, { size: 12, font: 'bold', color: accent });
+  cover.text('Data report', MARGIN, MARGIN + 26, { size: 10, color: MUTED });
+  let cy = height * 0.3;
+  for (const line of wrapText(input.title, 30, contentW, 'bold')) {
+    cover.text(line, MARGIN, cy, { size: 30, font: 'bold', color: INK });
+    cy += 36;
+  }
+  if (input.subtitle) {
+    for (const line of wrapText(input.subtitle, 13, contentW)) {
+      cover.text(line, MARGIN, cy, { size: 13, color: MUTED });
+      cy += 18;
+    }
+  }
+  cover.text(dateText, MARGIN, cy + 4, { size: 11, color: MUTED });
+  cy += 36;
+  const facts: [string, string][] = [['Rows', dataset.rows.length.toLocaleString('en-US')], ['Columns', String(dataset.columns.length)], [pc?.label ?? 'Period', span]];
+  const factW = contentW / facts.length;
+  facts.forEach(([label, value], i) => {
+    const x = MARGIN + i * factW;
+    cover.rect(x, cy, factW - 10, 54, { fill: SHADE }, 6);
+    cover.text(label.toUpperCase(), x + 12, cy + 20, { size: 8, color: MUTED });
+    cover.text(fitText(value, 16, factW - 34, 'bold'), x + 12, cy + 40, { size: 16, font: 'bold', color: INK });
+  });
+  const contentsY = cy + 100;
+
+  // ---- Flowing content
+  const contents: { label: string; page: number }[] = [];
+  let page: PdfPage = cover, y = bottom;
+  const newPage = () => { page = pdf.addPage(); y = top; };
+  const ensure = (h: number) => { if (y + h > bottom) newPage(); };
+  const write = (text: string, x: number, size: number, font: PdfFont = 'regular', color = INK, maxW = contentW) =>
+    page.text(fitText(text, size, maxW, font), x, y, { size, font, color });
+  const section = (title: string, note?: string) => {
+    newPage();
+    contents.push({ label: title, page: pdf.pages.length });
+    y += 14;
+    write(title, MARGIN, 18, 'bold');
+    page.rect(MARGIN, y + 8, 36, 3, { fill: accent });
+    y += 30;
+    if (note) { write(note, MARGIN, 10, 'regular', MUTED); y += 18; }
+  };
+
+  // Chart
+  if (input.chart || input.chartImage) {
+    section('Chart', input.chartTitle);
+    const img = input.chartImage;
+    const vb = (input.chart?.getAttribute('viewBox') ?? '').split(/[\s,]+/).map(Number);
+    const aspect = img ? img.height / img.width : vb.length === 4 && vb[2] > 0 && vb[3] > 0 ? vb[3] / vb[2] : 0.5;
+    const h = Math.min(contentW * aspect, bottom - y);
+    if (img) page.image(img, MARGIN + (contentW - h / aspect) / 2, y, h / aspect, h);
+    else drawSvg(page, input.chart!, { x: MARGIN, y, width: contentW, height: h });
+    y += h + 24;
+  }
+
+  // KPI cards, under the chart when they fit
+  if (input.kpis.length) {
+    const cols = Math.min(input.kpis.length, opts.orientation === 'landscape' ? 4 : 3);
+    const cardW = (contentW - (cols - 1) * 12) / cols, cardH = 66;
+    const rows = Math.ceil(input.kpis.length / cols);
+    if (!input.chart || y + 48 + rows * (cardH + 12) > bottom) section('Key numbers');
+    else {
+      contents.push({ label: 'Key numbers', page: pdf.pages.length });
+      write('Key numbers', MARGIN, 14, 'bold');
+      y += 16;
+    }
+    input.kpis.forEach((k, i) => {
+      if (i % cols === 0 && i) y += cardH + 12;
+      ensure(cardH);
+      const x = MARGIN + (i % cols) * (cardW + 12);
+      page.rect(x, y, cardW, cardH, { fill: '#FFFFFF', stroke: RULE }, 8);
+      page.rect(x, y + 10, 3, cardH - 20, { fill: accent });
+      page.text(fitText(k.label.toUpperCase(), 8, cardW - 28), x + 14, y + 18, { size: 8, color: MUTED });
+      page.text(fitText(k.value, 18, cardW - 28, 'bold'), x + 14, y + 40, { size: 18, font: 'bold', color: INK });
+      page.text(fitText(k.hint, 8, cardW - 28), x + 14, y + 56, { size: 8, color: MUTED });
+    });
+    y += cardH + 24;
+  }
+
+  // Data table
+  const columns = dataset.columns;
+  section('Data', `${dataset.rows.length.toLocaleString('en-US')} rows · ${columns.length} columns`);
+  if (!dataset.rows.length || !columns.length) write('No rows to show.', MARGIN, 10, 'regular', MUTED);
+  else {
+    const formats = columns.map(c => (isNumeric(c) ? columnFormatter(c) : undefined));
+    const display = (i: number, r: Row) => {
+      const v = r[columns[i].key], f = formats[i];
+      return typeof v === 'number' && f ? f(v) : cellText(r, columns[i].key);
+    };
+    const sample = dataset.rows.slice(0, SAMPLE_ROWS);
+    const natural = columns.map((c, i) => {
+      const widest = Math.max(textWidth(c.label, CELL_SIZE, 'bold'), ...sample.map(r => textWidth(display(i, r), CELL_SIZE)));
+      return Math.min(MAX_COL, Math.max(MIN_COL, widest + CELL_PAD * 2));
+    });
+    const groups = columnGroups(natural, contentW);
+    groups.forEach((group, g) => {
+      if (g) newPage();
+      // Columns share out any spare width in proportion to their natural size
+      const total = group.reduce((s, i) => s + natural[i], 0);
+      const widths = group.map(i => (natural[i] * contentW) / total);
+      const header = () => {
+        if (groups.length > 1) {
+          const first = group[g ? 1 : 0] + 1, last = group[group.length - 1] + 1;
+          write(`Columns ${first}–${last} of ${columns.length}`, MARGIN, 8, 'regular', MUTED);
+          y += 10;
+        }
+        page.rect(MARGIN, y, contentW, ROW_H, { fill: SHADE });
+        let x = MARGIN;
+        group.forEach((ci, j) => {
+          const c = columns[ci], w = widths[j];
+          const label = fitText(c.label, CELL_SIZE, w - CELL_PAD * 2, 'bold');
+          page.text(label, formats[ci] ? x + w - CELL_PAD : x + CELL_PAD, y + 11, { size: CELL_SIZE, font: 'bold', color: INK, align: formats[ci] ? 'end' : 'start' });
+          x += w;
+        });
+        y += ROW_H;
+      };
+      header();
+      dataset.rows.forEach((r, ri) => {
+        if (y + ROW_H > bottom) { newPage(); header(); }
+        if (ri % 2) page.rect(MARGIN, y, contentW, ROW_H, { fill: '#FAFAFA' });
+        let x = MARGIN;
+        group.forEach((ci, j) => {
+          const w = widths[j];
+          const text = fitText(display(ci, r), CELL_SIZE, w - CELL_PAD * 2);
+          page.text(text, formats[ci] ? x + w - CELL_PAD : x + CELL_PAD, y + 11, { size: CELL_SIZE, color: INK, align: formats[ci] ? 'end' : 'start' });
+          x += w;
+        });
+        page.line(MARGIN, y + ROW_H, MARGIN + contentW, y + ROW_H, { stroke: RULE, lineWidth: 0.5 });
+        y += ROW_H;
+      });
+    });
+  }
+
+  // Askura transcript
+  section('Askura Q&A', input.transcript.length ? `${input.transcript.filter(m => m.role === 'user').length} questions` : undefined);
+  if (!input.transcript.length) write('No questions asked yet.', MARGIN, 10, 'regular', MUTED);
+  for (const m of input.transcript) {
+    const user = m.role === 'user';
+    const font: PdfFont = user ? 'bold' : 'regular';
+    const lines = wrapText(m.text, 10, contentW - 14, font);
+    ensure(12 + 14 * Math.min(lines.length, 2));
+    write(user ? 'QUESTION' : 'ASKURA', MARGIN + 14, 7, 'bold', user ? MUTED : accent);
+    y += 14;
+    for (const line of lines) {
+      ensure(14);
+      if (!user) page.rect(MARGIN, y - 10, 2, 14, { fill: accent });
+      write(line, MARGIN + 14, 10, font, user ? INK : '#374151');
+      y += 14;
+    }
+    y += 10;
+  }
+
+  // ---- Contents on the cover, then a running header and footer on every later page
+  cover.text('CONTENTS', MARGIN, contentsY, { size: 8, font: 'bold', color: MUTED });
+  contents.forEach((c, i) => {
+    const ly = contentsY + 22 + i * 20;
+    cover.text(c.label, MARGIN, ly, { size: 11, color: INK });
+    cover.text(String(c.page), MARGIN + contentW, ly, { size: 11, color: MUTED, align: 'end' });
+    cover.line(MARGIN, ly + 6, MARGIN + contentW, ly + 6, { stroke: RULE, lineWidth: 0.5 });
+  });
+  const total = pdf.pages.length;
+  pdf.pages.forEach((p, i) => {
+    if (!i) return;
+    p.text('Chartura', MARGIN, MARGIN - 8, { size: 8, font: 'bold', color: accent });
+    p.text(fitText(input.title, 8, contentW / 2), MARGIN + contentW, MARGIN - 8, { size: 8, color: MUTED, align: 'end' });
+    p.line(MARGIN, MARGIN, MARGIN + contentW, MARGIN, { stroke: RULE, lineWidth: 0.5 });
+    p.text(dateText, MARGIN, height - MARGIN + 20, { size: 8, color: MUTED });
+    p.text(`Page ${i + 1} of ${total}`, MARGIN + contentW, height - MARGIN + 20, { size: 8, color: MUTED, align: 'end' });
+  });
+  return pdf.finish();
+}
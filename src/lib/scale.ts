@@ -0,0 +1,45 @@
+/**
+ * Linear scales with "nice" tick steps (1, 2, 2.5, 5 × 10ⁿ), so axes read 0, 0.25, 0.5 …
+ * or 0, 20k, 40k … instead of arbitrary fractions of the data range.
+ */
+
+export interface NiceScale {
+  min: number;          // domain rounded outwards to whole steps
+  max: number;
+  step: number;
+  ticks: number[];
+}
+
+const STEPS = [1, 2, 2.5, 5, 10];
+
+/** Smallest nice step that covers `span` in at most `count` intervals. */
+export function niceStep(span: number, count: number): number {
+  const raw = span / Math.max(1, count);
+  if (!(raw > 0) || !isFinite(raw)) return 1;
+  const mag = Math.pow(10, Math.floor(Math.log10(raw)));
+  const step = STEPS.find(s => s * mag >= raw * (1 - 1e-9)) ?? 10;
+  return step * mag;
+}
+
+/** Nice ticks for [min, max] with roughly `count` intervals; a flat range is widened around its value. */
+export function niceTicks(min: number, max: number, count = 5): NiceScale {
+  if (!isFinite(min) || !isFinite(max)) { min = 0; max = 1; }
+  if (min > max) [min, max] = [max, min];
+  if (min === max) {
+    const pad = min === 0 ? 1 : Math.abs(min) / 2;
+    min = min >= 0 && min - pad < 0 ? 0 : min - pad;
+    max = max + pad;
+  }
+  const step = niceStep(max - min, count);
+  const lo = Math.floor(min / step + 1e-9) * step;
+  const hi = Math.ceil(max / step - 1e-9) * step;
+  const ticks: number[] = [];
+  // Rounding through toPrecision keeps 0.1 + 0.2 style noise out of tick labels
+  for (let v = lo; v <= hi + step / 2; v += step) ticks.push(parseFloat(v.toPrecision(12)));
+  return { min: ticks[0], max: ticks[ticks.length - 1], step, ticks };
+}
+
+export function scaleLinear(domainMin: number, domainMax: number, rangeMin: number, rangeMax: number): (v: number) => number {
+  const d = domainMax - domainMin || 1;
+  return v => rangeMin + ((v - domainMin) / d) * (rangeMax - rangeMin);
+}
@@ -0,0 +1,61 @@
+/**
+ * Share links: the chart settings and grid filters, and optionally the table itself, packed
+ * into the URL hash as deflated JSON in base64url. Opening the link restores them. Payloads
+ * are read with the same checks as project files, so a hand-edited link can't break the page.
+ */
+import type { Dataset } from './dataset';
+import { type ProjectChart, readChart, readDataset } from './project';
+
+export const SHARE_VERSION = 1;
+const HASH_KEY = '#chart=';
+/** Longest hash we hand out; browsers and chat apps start truncating links not far past this. */
+export const MAX_SHARE_LENGTH = 32000;
+
+export interface ShareState {
+  chart: ProjectChart;
+  filters: Record<string, string>;   // grid filter text by column key
+  dataset?: Dataset;
+}
+
+async function pipe(bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  return new Uint8Array(await new Response(new Blob([bytes as BlobPart]).stream().pipeThrough(stream)).arrayBuffer());
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let bin = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) bin += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(bin).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const bin = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(bin, c => c.charCodeAt(0));
+}
+
+/** The URL hash for the state, `#chart=…`. Throws when it would be too long to share. */
+export async function encodeShare(state: ShareState): Promise<string> {
+  const filters = Object.fromEntries(Object.entries(state.filters).filter(([, v]) => v.trim()));
+  const json = JSON.stringify({ v: SHARE_VERSION, chart: state.chart, filters, ...(state.dataset ? { dataset: state.dataset } : {}) });
+  const hash = HASH_KEY + toBase64Url(await pipe(new TextEncoder().encode(json), new CompressionStream('deflate-raw')));
+  if (hash.length > MAX_SHARE_LENGTH) throw new Error('The table is too large for a link. Share the chart without data, or save a project file.');
+  return hash;
+}
+
+/** The state in a URL hash; undefined when the hash isn't a share link. */
+export async function decodeShare(hash: string): Promise<ShareState | undefined> {
+  if (!hash.startsWith(HASH_KEY)) return undefined;
+  let raw: unknown;
+  try {
+    raw = JSON.parse(new TextDecoder().decode(await pipe(fromBase64Url(hash.slice(HASH_KEY.length)), new DecompressionStream('deflate-raw'))));
+  } catch {
+    throw new Error('This link is damaged or incomplete.');
+  }
+  if (typeof raw !== 'object' || raw == null || typeof (raw as { v?: unknown }).v !== 'number') throw new Error('This link is damaged or incomplete.');
+  const { v, chart, filters, dataset } = raw as Record<string, unknown>;
+  if ((v as number) > SHARE_VERSION) throw new Error('This link was made by a newer version of Chartura.');
+  const filterText: Record<string, string> = {};
+  if (typeof filters === 'object' && filters != null) {
+    for (const [k, f] of Object.entries(filters)) if (typeof f === 'string') filterText[k] = f;
+  }
+  return { chart: readChart(chart), filters: filterText, ...(dataset != null ? { dataset: readDataset(dataset) } : {}) };
+}
@@ -0,0 +1,57 @@
+/**
+ * Server-sent events over fetch. The server writes named events with JSON data; readers
+ * take them off a response body as they arrive. EventSource can't POST, and the same reader
+ * handles OpenAI's streamed completions.
+ */
+
+export interface SseEvent {
+  event: string;        // "message" when the server names none
+  data: unknown;        // parsed JSON, or the raw text when it isn't JSON (e.g. "[DONE]")
+}
+
+export function sseEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+function parseEvent(block: string): SseEvent | undefined {
+  let event = 'message';
+  const data: string[] = [];
+  for (const line of block.split(/\r?\n/)) {
+    const colon = line.indexOf(':');
+    if (colon === 0) continue;          // comment / keep-alive
+    const field = colon < 0 ? line : line.slice(0, colon);
+    const value = colon < 0 ? '' : line.slice(colon + 1).replace(/^ /, '');
+    if (field === 'event') event = value;
+    else if (field === 'data') data.push(value);
+  }
+  if (!data.length) return undefined;
+  const text = data.join('\n');
+  try {
+    return { event, data: JSON.parse(text) };
+  } catch {
+    return { event, data: text };
+  }
+}
+
+/** Calls `onEvent` for each event until the stream ends; an exception from `onEvent` stops reading. */
+export async function readEvents(body: ReadableStream<Uint8Array>, onEvent: (e: SseEvent) => void): Promise<void> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  try {
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += value;
+      let end: RegExpExecArray | null;
+      while ((end = /\r?\n\r?\n/.exec(buffer))) {
+        const e = parseEvent(buffer.slice(0, end.index));
+        buffer = buffer.slice(end.index + end[0].length);
+        if (e) onEvent(e);
+      }
+    }
+    const last = parseEvent(buffer);
+    if (last) onEvent(last);
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * Stacking for bar charts. Positive values pile up from zero and negative values pile
+ * down from it (a diverging stack), so mixed signs never draw over each other.
+ */
+
+export interface Segment {
+  from: number;         // baseline the segment starts at
+  to: number;           // far end; from + value
+  value: number;        // the plotted value (a share in percent for 100% stacks)
+}
+
+/**
+ * Stacks values[i][j] (point i, series j) into segments. With `percent`, each value is first
+ * turned into its share of the point's absolute total, so a column spans at most ±100.
+ */
+export function stack(values: number[][], percent = false): Segment[][] {
+  return values.map(row => {
+    const abs = row.reduce((s, v) => s + (isFinite(v) ? Math.abs(v) : 0), 0);
+    let up = 0, down = 0;
+    return row.map(raw => {
+      const v = !isFinite(raw) ? 0 : percent ? (abs ? (raw / abs) * 100 : 0) : raw;
+      if (v < 0) { const seg = { from: down, to: down + v, value: v }; down += v; return seg; }
+      const seg = { from: up, to: up + v, value: v };
+      up += v;
+      return seg;
+    });
+  });
+}
+
+/** Lowest and highest ends over all segments, always including zero. */
+export function stackExtent(stacks: Segment[][]): [number, number] {
+  let lo = 0, hi = 0;
+  for (const row of stacks) for (const s of row) { lo = Math.min(lo, s.to); hi = Math.max(hi, s.to); }
+  return [lo, hi];
+}
+
+export interface WaterfallStep {
+  label: string;
+  value: number;        // a change, or the running total itself for total steps
+  total?: boolean;      // drawn from zero, e.g. revenue at the start and margin at the end
+}
+
+export interface WaterfallBar {
+  label: string;
+  from: number;         // running total before the step
+  to: number;           // running total after it
+  kind: 'total' | 'up' | 'down';
+  base: number;         // invisible stacked segment under the bar
+  height: number;       // visible stacked segment; base + height = the far end
+  cross: number;        // visible part on the other side of zero when the step crosses it, else 0
+}
+
+/**
+ * Lays out a waterfall as stacked bars: each step floats from the running total before it
+ * to the total after it. A step that crosses zero can't float in a stack, so it is drawn
+ * as two segments diverging from zero: `height` to where it ends and `cross` back to where it started.
+ */
+export function waterfall(steps: WaterfallStep[]): WaterfallBar[] {
+  let running = 0;
+  return steps.map(s => {
+    const from = s.total ? 0 : running;
+    const to = s.total ? s.value : running + s.value;
+    running = to;
+    const kind = s.total ? 'total' : s.value < 0 ? 'down' : 'up';
+    if (from >= 0 && to >= 0) return { label: s.label, from, to, kind, base: Math.min(from, to), height: Math.abs(to - from), cross: 0 };
+    if (from <= 0 && to <= 0) return { label: s.label, from, to, kind, base: Math.max(from, to), height: -Math.abs(to - from), cross: 0 };
+    return { label: s.label, from, to, kind, base: 0, height: to, cross: from };
+  });
+}
@@ -0,0 +1,253 @@
+/**
+ * Standalone chart exports. The live <svg> relies on page CSS (Tailwind classes, the Inter
+ * web font), so exports copy each element's computed presentation styles onto it, embed the
+ * @font-face rules for the fonts its text uses as data URLs, and give it an explicit size.
+ * The result renders the same in any viewer and is what PNG export rasterizes.
+ */
+
+export interface SvgExportOptions {
+  /** Leave the background out; otherwise the chart's own background is kept, or white added. */
+  transparent?: boolean;
+}
+
+export interface PngExportOptions extends SvgExportOptions {
+  scale?: number;       // output pixels per viewBox unit (1, 2 or 4 in the UI)
+}
+
+export const PNG_SCALES = [1, 2, 4];
+
+/** Marks an element as the chart background, e.g. `<rect data-export="background" …/>`. */
+export const BACKGROUND_ATTR = 'data-export';
+
+/** True when part of the chart is a bitmap (`<image data-export="marks">`), which vector PDF output can't redraw. */
+export function hasRasterMarks(svg: SVGSVGElement): boolean {
+  return !!svg.querySelector(`[${BACKGROUND_ATTR}="marks"]`);
+}
+
+/** A file name (without extension) from a chart title: "Revenue over time" -> "revenue-over-time". */
+export function exportName(title: string | undefined, fallback = 'chart'): string {
+  const slug = (title ?? '').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return slug || fallback;
+}
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+// Presentation properties that CSS can set on SVG content, with the values that need no inlining
+const PRESENTATION: Record<string, string> = {
+  fill: 'rgb(0, 0, 0)',
+  'fill-opacity': '1',
+  stroke: 'none',
+  'stroke-width': '1px',
+  'stroke-opacity': '1',
+  'stroke-dasharray': 'none',
+  'stroke-linecap': 'butt',
+  'stroke-linejoin': 'miter',
+  opacity: '1',
+  visibility: 'visible',
+  'stop-color': 'rgb(0, 0, 0)',
+  'stop-opacity': '1',
+};
+const TEXT_STYLE: Record<string, string> = {
+  'font-family': '',
+  'font-size': '',
+  'font-weight': '400',
+  'font-style': 'normal',
+  'letter-spacing': 'normal',
+  'text-anchor': 'start',
+  'dominant-baseline': 'auto',
+};
+const TEXT_TAGS = new Set(['text', 'tspan', 'textPath']);
+
+function viewBoxSize(svg: SVGSVGElement): { width: number; height: number } {
+  const vb = svg.viewBox.baseVal;
+  if (vb && vb.width && vb.height) return { width: vb.width, height: vb.height };
+  const r = svg.getBoundingClientRect();
+  return { width: r.width || 300, height: r.height || 150 };
+}
+
+/** Copies computed styles onto the clone as inline style, element by element. */
+function inlineStyles(source: SVGSVGElement, clone: SVGSVGElement) {
+  const from = [source, ...Array.from(source.querySelectorAll('*'))];
+  const to = [clone, ...Array.from(clone.querySelectorAll('*'))];
+  from.forEach((el, i) => {
+    const target = to[i];
+    if (!target) return;
+    const computed = getComputedStyle(el);
+    const props = TEXT_TAGS.has(el.tagName) || el === source ? { ...PRESENTATION, ...TEXT_STYLE } : PRESENTATION;
+    const decls: string[] = [];
+    for (const [prop, plain] of Object.entries(props)) {
+      const v = computed.getPropertyValue(prop);
+      if (v && v !== plain) decls.push(`${prop}:${v}`);
+    }
+    if (computed.display === 'none') decls.push('display:none');
+    target.removeAttribute('class');
+    if (decls.length) target.setAttribute('style', decls.join(';')); else target.removeAttribute('style');
+  });
+}
+
+// ---- Fonts
+
+const fontCache = new Map<string, Promise<string | undefined>>();
+
+function dataUrl(url: string): Promise<string | undefined> {
+  let hit = fontCache.get(url);
+  if (!hit) {
+    hit = fetch(url)
+      .then(r => (r.ok ? r.blob() : undefined))
+      .then(blob => blob && new Promise<string>((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(String(reader.result));
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+      }))
+      .catch(() => undefined);
+    fontCache.set(url, hit);
+  }
+  return hit;
+}
+
+interface FaceRule {
+  css: string;          // the whole rule body
+  family: string;
+  weights: [number, number];
+  ranges: [number, number][];
+  base: string;         // stylesheet URL that relative src URLs resolve against
+}
+
+const unquote = (v: string) => v.trim().replace(/^["']|["']$/g, '');
+
+function parseFaces(cssText: string, base: string): FaceRule[] {
+  const faces: FaceRule[] = [];
+  for (const [, body] of cssText.matchAll(/@font-face\s*{([^}]*)}/g)) {
+    const prop = (name: string) => new RegExp(`(?:^|;)\\s*${name}\\s*:\\s*([^;]+)`, 'i').exec(body)?.[1].trim();
+    const family = prop('font-family');
+    if (!family) continue;
+    const w = (prop('font-weight') ?? '400').split(/\s+/).map(v => (v === 'bold' ? 700 : v === 'normal' ? 400 : Number(v)));
+    const ranges = (prop('unicode-range') ?? 'U+0-10FFFF').split(',').map(r => {
+      const [lo, hi] = r.trim().replace(/^U\+/i, '').split('-');
+      if (lo.includes('?')) return [parseInt(lo.replace(/\?/g, '0'), 16), parseInt(lo.replace(/\?/g, 'F'), 16)] as [number, number];
+      return [parseInt(lo, 16), parseInt(hi ?? lo, 16)] as [number, number];
+    });
+    faces.push({ css: body, family: unquote(family), weights: [w[0], w[1] ?? w[0]], ranges, base });
+  }
+  return faces;
+}
+
+/** Every @font-face on the page. Cross-origin sheets (e.g. Google Fonts) can't be read through CSSOM, so they are fetched. */
+async function pageFontFaces(): Promise<FaceRule[]> {
+  const faces: FaceRule[] = [];
+  for (const sheet of Array.from(document.styleSheets)) {
+    const base = sheet.href ?? document.baseURI;
+    try {
+      const rules = Array.from(sheet.cssRules).filter(r => r instanceof CSSFontFaceRule);
+      faces.push(...parseFaces(rules.map(r => r.cssText).join('\n'), base));
+    } catch {
+      if (!sheet.href) continue;
+      const text = await fetch(sheet.href).then(r => (r.ok ? r.text() : ''), () => '');
+      faces.push(...parseFaces(text, base));
+    }
+  }
+  return faces;
+}
+
+/** @font-face rules, with sources inlined, for the fonts, weights and characters the text uses. */
+async function embeddedFonts(svg: SVGSVGElement): Promise<string> {
+  const used = new Map<string, { weights: Set<number>; chars: Set<number> }>();
+  for (const el of Array.from(svg.querySelectorAll('text'))) {
+    const cs = getComputedStyle(el);
+    const family = unquote(cs.fontFamily.split(',')[0] ?? '').toLowerCase();
+    if (!family) continue;
+    const u = used.get(family) ?? { weights: new Set(), chars: new Set() };
+    u.weights.add(Number(cs.fontWeight) || 400);
+    for (const ch of el.textContent ?? '') u.chars.add(ch.codePointAt(0)!);
+    used.set(family, u);
+  }
+  if (!used.size) return '';
+
+  const rules = await Promise.all((await pageFontFaces()).map(async face => {
+    const u = used.get(face.family.toLowerCase());
+    if (!u) return '';
+    if (!Array.from(u.weights).some(w => w >= face.weights[0] && w <= face.weights[1])) return '';
+    if (!Array.from(u.chars).some(c => face.ranges.some(([lo, hi]) => c >= lo && c <= hi))) return '';
+    // Keep one source, preferring woff2, and swap its URL for the file's contents
+    const sources = Array.from(face.css.matchAll(/url\(\s*(['"]?)([^'")]+)\1\s*\)\s*(?:format\(\s*['"]?([\w-]+)['"]?\s*\))?/g));
+    const src = sources.find(s => s[3] === 'woff2') ?? sources[0];
+    if (!src) return '';
+    const inlined = src[2].startsWith('data:') ? src[2] : await dataUrl(new URL(src[2], face.base).href);
+    if (!inlined) return '';
+    const rest = face.css.replace(/(?:^|;)\s*src\s*:[^;]+/i, '').trim().replace(/^;/, '');
+    return `@font-face{${rest};src:url(${inlined})${src[3] ? ` format('${src[3]}')` : ''}}`;
+  }));
+  return rules.filter(Boolean).join('\n');
+}
+
+// ---- Export
+
+/** The chart as a self-contained SVG document. */
+export async function standaloneSvg(svg: SVGSVGElement, opts: SvgExportOptions = {}): Promise<string> {
+  const { width, height } = viewBoxSize(svg);
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  inlineStyles(svg, clone);
+
+  for (const attr of ['tabindex', 'focusable']) clone.removeAttribute(attr);
+  clone.setAttribute('xmlns', SVG_NS);
+  clone.setAttribute('width', String(width));
+  clone.setAttribute('height', String(height));
+  if (!clone.getAttribute('viewBox')) clone.setAttribute('viewBox', `0 0 ${width} ${height}`);
+
+  const backgrounds = Array.from(clone.querySelectorAll(`[${BACKGROUND_ATTR}="background"]`));
+  if (opts.transparent) backgrounds.forEach(el => el.remove());
+  else if (!backgrounds.length) {
+    const bg = document.createElementNS(SVG_NS, 'rect');
+    bg.setAttribute('width', String(width));
+    bg.setAttribute('height', String(height));
+    bg.setAttribute('fill', 'white');
+    clone.insertBefore(bg, clone.firstChild);
+  }
+
+  const fonts = await embeddedFonts(svg);
+  if (fonts) {
+    const style = document.createElementNS(SVG_NS, 'style');
+    style.textContent = fonts;
+    clone.insertBefore(style, clone.firstChild);
+  }
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${new XMLSerializer().serializeToString(clone)}`;
+}
+
+/** Rasterizes the standalone SVG; scale 2 or 4 gives sharp images on slides and high-DPI screens. */
+export async function svgToPng(svg: SVGSVGElement, opts: PngExportOptions = {}): Promise<string> {
+  return (await rasterize(svg, opts)).toDataURL('image/png');
+}
+
+/** The chart as JPEG bytes on white, for embedding in a PDF. */
+export async function svgToJpeg(svg: SVGSVGElement, scale = 2): Promise<{ data: Uint8Array; width: number; height: number }> {
+  const canvas = await rasterize(svg, { scale });
+  const base64 = canvas.toDataURL('image/jpeg', 0.92).split(',')[1];
+  const bin = atob(base64);
+  const data = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) data[i] = bin.charCodeAt(i);
+  return { data, width: canvas.width, height: canvas.height };
+}
+
+async function rasterize(svg: SVGSVGElement, opts: PngExportOptions): Promise<HTMLCanvasElement> {
+  const scale = opts.scale ?? 1;
+  const { width, height } = viewBoxSize(svg);
+  const url = URL.createObjectURL(new Blob([await standaloneSvg(svg, opts)], { type: 'image/svg+xml' }));
+  try {
+    const img = new Image();
+    await new Promise<void>((resolve, reject) => {
+      img.onload = () => resolve();
+      img.onerror = () => reject(new Error('Could not render the chart image.'));
+      img.src = url;
+    });
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(width * scale);
+    canvas.height = Math.round(height * scale);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not available.');
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    return canvas;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
@@ -0,0 +1,260 @@
+/**
+ * Draws an SVG element tree onto a PDF page as vector graphics: shapes, paths (arcs and
+ * quadratics become cubic curves), text and transforms, with fill, stroke, dashes and
+ * opacity inherited the way SVG does. Gradients are drawn in their first stop color;
+ * filters, masks and clip paths are ignored. This covers what the app's charts render.
+ */
+import { type PathSegment, type PdfPage, ellipsePath } from './pdf';
+
+/** The parts of a DOM element the converter reads; any SVGElement qualifies. */
+export interface SvgNode {
+  tagName: string;
+  textContent: string | null;
+  children: ArrayLike<SvgNode>;
+  getAttribute(name: string): string | null;
+}
+
+interface Inherited {
+  fill: string;
+  stroke: string;
+  strokeWidth: number;
+  dash?: number[];
+  fillOpacity: number;
+  strokeOpacity: number;
+  fontSize: number;
+  bold: boolean;
+  anchor: 'start' | 'middle' | 'end';
+}
+
+const SKIPPED = new Set(['defs', 'clippath', 'mask', 'filter', 'lineargradient', 'radialgradient', 'pattern', 'symbol', 'marker', 'title', 'desc', 'style', 'foreignobject', 'script']);
+
+const numberAttr = (v: string | null | undefined, fallback = 0) => {
+  const n = parseFloat(v ?? '');
+  return isFinite(n) ? n : fallback;
+};
+
+/** Numbers in an attribute such as points, viewBox or stroke-dasharray. */
+const numberList = (v: string | null | undefined) => (v ?? '').split(/[\s,]+/).filter(Boolean).map(Number).filter(isFinite);
+
+type Matrix = [number, number, number, number, number, number];
+
+const multiply = (m: Matrix, n: Matrix): Matrix => [
+  m[0] * n[0] + m[2] * n[1], m[1] * n[0] + m[3] * n[1],
+  m[0] * n[2] + m[2] * n[3], m[1] * n[2] + m[3] * n[3],
+  m[0] * n[4] + m[2] * n[5] + m[4], m[1] * n[4] + m[3] * n[5] + m[5],
+];
+
+/** A transform attribute as one matrix; unknown functions are skipped. */
+export function parseTransform(v: string | null | undefined): Matrix | undefined {
+  if (!v) return undefined;
+  let m: Matrix = [1, 0, 0, 1, 0, 0];
+  for (const [, fn, args] of v.matchAll(/(\w+)\s*\(([^)]*)\)/g)) {
+    const a = numberList(args);
+    const rad = ((a[0] ?? 0) * Math.PI) / 180;
+    let n: Matrix | undefined;
+    if (fn === 'matrix' && a.length === 6) n = a as Matrix;
+    else if (fn === 'translate') n = [1, 0, 0, 1, a[0] ?? 0, a[1] ?? 0];
+    else if (fn === 'scale') n = [a[0] ?? 1, 0, 0, a[1] ?? a[0] ?? 1, 0, 0];
+    else if (fn === 'rotate') {
+      const [cx, cy] = [a[1] ?? 0, a[2] ?? 0];
+      n = multiply(multiply([1, 0, 0, 1, cx, cy], [Math.cos(rad), Math.sin(rad), -Math.sin(rad), Math.cos(rad), 0, 0]), [1, 0, 0, 1, -cx, -cy]);
+    }
+    else if (fn === 'skewX') n = [1, 0, Math.tan(rad), 1, 0, 0];
+    else if (fn === 'skewY') n = [1, Math.tan(rad), 0, 1, 0, 0];
+    if (n) m = multiply(m, n);
+  }
+  return m;
+}
+
+/** Cubic segments for an SVG elliptical arc, following the endpoint-to-center conversion in the SVG spec. */
+function arcSegments(x1: number, y1: number, rx: number, ry: number, angle: number, large: boolean, sweep: boolean, x2: number, y2: number): PathSegment[] {
+  if (x1 === x2 && y1 === y2) return [];
+  rx = Math.abs(rx); ry = Math.abs(ry);
+  if (!rx || !ry) return [{ op: 'L', x: x2, y: y2 }];
+  const phi = (angle * Math.PI) / 180, cos = Math.cos(phi), sin = Math.sin(phi);
+  const dx = (x1 - x2) / 2, dy = (y1 - y2) / 2;
+  const x1p = cos * dx + sin * dy, y1p = -sin * dx + cos * dy;
+  const lambda = (x1p * x1p) / (rx * rx) + (y1p * y1p) / (ry * ry);
+  if (lambda > 1) { rx *= Math.sqrt(lambda); ry *= Math.sqrt(lambda); }
+  const num = rx * rx * ry * ry - rx * rx * y1p * y1p - ry * ry * x1p * x1p;
+  const den = rx * rx * y1p * y1p + ry * ry * x1p * x1p;
+  const coef = (large === sweep ? -1 : 1) * Math.sqrt(Math.max(0, num / den));
+  const cxp = (coef * rx * y1p) / ry, cyp = (-coef * ry * x1p) / rx;
+  const cx = cos * cxp - sin * cyp + (x1 + x2) / 2, cy = sin * cxp + cos * cyp + (y1 + y2) / 2;
+  const vecAngle = (ux: number, uy: number, vx: number, vy: number) => Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+  const theta = vecAngle(1, 0, (x1p - cxp) / rx, (y1p - cyp) / ry);
+  let delta = vecAngle((x1p - cxp) / rx, (y1p - cyp) / ry, (-x1p - cxp) / rx, (-y1p - cyp) / ry);
+  if (!sweep && delta > 0) delta -= 2 * Math.PI;
+  if (sweep && delta < 0) delta += 2 * Math.PI;
+
+  // At most a quarter turn per cubic keeps the approximation error invisible
+  const parts = Math.ceil(Math.abs(delta) / (Math.PI / 2) - 1e-9);
+  const step = delta / parts, k = (4 / 3) * Math.tan(step / 4);
+  const at = (ux: number, uy: number) => ({ x: cx + cos * rx * ux - sin * ry * uy, y: cy + sin * rx * ux + cos * ry * uy });
+  const out: PathSegment[] = [];
+  for (let i = 0; i < parts; i++) {
+    const a = theta + i * step, b = a + step;
+    const p1 = at(Math.cos(a) - k * Math.sin(a), Math.sin(a) + k * Math.cos(a));
+    const p2 = at(Math.cos(b) + k * Math.sin(b), Math.sin(b) - k * Math.cos(b));
+    const end = i === parts - 1 ? { x: x2, y: y2 } : at(Math.cos(b), Math.sin(b));
+    out.push({ op: 'C', x1: p1.x, y1: p1.y, x2: p2.x, y2: p2.y, x: end.x, y: end.y });
+  }
+  return out;
+}
+
+/** SVG path data as absolute moves, lines and cubics. */
+export function parsePathData(d: string): PathSegment[] {
+  const tokens = d.match(/[a-zA-Z]|[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/g) ?? [];
+  const out: PathSegment[] = [];
+  let i = 0, cmd = '', x = 0, y = 0, sx = 0, sy = 0;
+  let cx = 0, cy = 0;                                   // last control point, for S and T
+  let last = '';
+  const next = () => parseFloat(tokens[i++]);
+  const hasNumber = () => i < tokens.length && !/^[a-zA-Z]$/.test(tokens[i]);
+  while (i < tokens.length) {
+    if (/^[a-zA-Z]$/.test(tokens[i])) cmd = tokens[i++];
+    else if (!cmd) { i++; continue; }
+    const rel = cmd === cmd.toLowerCase(), C = cmd.toUpperCase();
+    const ox = rel ? x : 0, oy = rel ? y : 0;
+    if (C === 'Z') {
+      out.push({ op: 'Z' });
+      x = sx; y = sy; last = 'Z';
+      continue;
+    }
+    if (!hasNumber()) continue;
+    if (C === 'M') {
+      x = ox + next(); y = oy + next(); sx = x; sy = y;
+      out.push({ op: 'M', x, y });
+      cmd = rel ? 'l' : 'L';                            // extra pairs after a move are lines
+    } else if (C === 'L' || C === 'H' || C === 'V') {
+      if (C !== 'V') x = ox + next();
+      if (C !== 'H') y = oy + next();
+      out.push({ op: 'L', x, y });
+    } else if (C === 'C' || C === 'S') {
+      const reflect = last === 'C' || last === 'S';
+      const x1 = C === 'S' ? (reflect ? 2 * x - cx : x) : ox + next();
+      const y1 = C === 'S' ? (reflect ? 2 * y - cy : y) : oy + next();
+      cx = ox + next(); cy = oy + next();
+      x = ox + next(); y = oy + next();
+      out.push({ op: 'C', x1, y1, x2: cx, y2: cy, x, y });
+    } else if (C === 'Q' || C === 'T') {
+      const reflect = last === 'Q' || last === 'T';
+      const qx = C === 'T' ? (reflect ? 2 * x - cx : x) : ox + next();
+      const qy = C === 'T' ? (reflect ? 2 * y - cy : y) : oy + next();
+      const ex = ox + next(), ey = oy + next();
+      out.push({ op: 'C', x1: x + (2 / 3) * (qx - x), y1: y + (2 / 3) * (qy - y), x2: ex + (2 / 3) * (qx - ex), y2: ey + (2 / 3) * (qy - ey), x: ex, y: ey });
+      cx = qx; cy = qy; x = ex; y = ey;
+    } else if (C === 'A') {
+      const [rx, ry, rot, large, sweep] = [next(), next(), next(), next(), next()];
+      const ex = ox + next(), ey = oy + next();
+      out.push(...arcSegments(x, y, rx, ry, rot, !!large, !!sweep, ex, ey));
+      x = ex; y = ey;
+    } else { i++; continue; }
+    last = C;
+  }
+  // Truncated data leaves NaN coordinates; such a path draws nothing rather than garbage
+  return out.every(s => s.op === 'Z' || (isFinite(s.x) && isFinite(s.y))) ? out : [];
+}
+
+/** Inline style declarations, which take precedence over presentation attributes. */
+function styleOf(node: SvgNode): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const decl of (node.getAttribute('style') ?? '').split(';')) {
+    const [k, ...v] = decl.split(':');
+    if (k && v.length) out[k.trim().toLowerCase()] = v.join(':').trim();
+  }
+  return out;
+}
+
+/** Draws an SVG tree into the box (x, y, width, height), scaled to fit its viewBox and centred. */
+export function drawSvg(page: PdfPage, svg: SvgNode, box: { x: number; y: number; width: number; height: number }) {
+  const byId = new Map<string, SvgNode>();
+  const index = (n: SvgNode) => {
+    const id = n.getAttribute('id');
+    if (id) byId.set(id, n);
+    Array.from(n.children).forEach(index);
+  };
+  index(svg);
+
+  // url(#gradient) paints with the gradient's first stop
+  const paint = (v: string) => {
+    const ref = /^url\(#([^)]+)\)/.exec(v);
+    if (!ref) return v === 'currentColor' ? '#000000' : v;
+    const stop = byId.get(ref[1]) && Array.from(byId.get(ref[1])!.children).find(c => c.tagName.toLowerCase() === 'stop');
+    return stop ? styleOf(stop)['stop-color'] ?? stop.getAttribute('stop-color') ?? 'none' : 'none';
+  };
+
+  const vb = numberList(svg.getAttribute('viewBox'));
+  const [vx, vy, vw, vh] = vb.length === 4 ? vb : [0, 0, numberAttr(svg.getAttribute('width'), box.width), numberAttr(svg.getAttribute('height'), box.height)];
+  const scale = Math.min(box.width / vw, box.height / vh);
+  const tx = box.x + (box.width - vw * scale) / 2 - vx * scale, ty = box.y + (box.height - vh * scale) / 2 - vy * scale;
+
+  const root: Inherited = { fill: '#000000', stroke: 'none', strokeWidth: 1, fillOpacity: 1, strokeOpacity: 1, fontSize: 16, bold: false, anchor: 'start' };
+
+  function draw(node: SvgNode, parent: Inherited, parentOpacity: number) {
+    const tag = node.tagName.toLowerCase();
+    if (SKIPPED.has(tag)) return;
+    const css = styleOf(node);
+    const attr = (name: string) => css[name] ?? node.getAttribute(name) ?? undefined;
+    if (attr('display') === 'none' || attr('visibility') === 'hidden') return;
+
+    const weight = attr('font-weight');
+    const anchor = attr('text-anchor');
+    const dash = attr('stroke-dasharray');
+    const s: Inherited = {
+      fill: attr('fill') != null ? paint(attr('fill')!) : parent.fill,
+      stroke: attr('stroke') != null ? paint(attr('stroke')!) : parent.stroke,
+      strokeWidth: numberAttr(attr('stroke-width'), parent.strokeWidth),
+      dash: dash == null ? parent.dash : dash === 'none' ? undefined : numberList(dash),
+      fillOpacity: numberAttr(attr('fill-opacity'), parent.fillOpacity),
+      strokeOpacity: numberAttr(attr('stroke-opacity'), parent.strokeOpacity),
+      fontSize: numberAttr(attr('font-size'), parent.fontSize),
+      bold: weight == null ? parent.bold : weight === 'bold' || weight === 'bolder' || numberAttr(weight) >= 600,
+      anchor: anchor === 'middle' || anchor === 'end' || anchor === 'start' ? anchor : parent.anchor,
+    };
+    const opacity = parentOpacity * numberAttr(attr('opacity'), 1);
+    const n = (name: string) => numberAttr(node.getAttribute(name));
+
+    const render = () => {
+      // Fill and stroke opacities differ in general, so shapes with both paint in two passes
+      const shape = (segments: PathSegment[]) => {
+        if (s.fill !== 'none') page.path(segments, { fill: s.fill, opacity: opacity * s.fillOpacity });
+        if (s.stroke !== 'none' && s.strokeWidth > 0) {
+          page.path(segments, { stroke: s.stroke, lineWidth: s.strokeWidth, dash: s.dash, opacity: opacity * s.strokeOpacity });
+        }
+      };
+      if (tag === 'rect') {
+        const [x, y, w, h] = [n('x'), n('y'), n('width'), n('height')];
+        if (w <= 0 || h <= 0) return;
+        const r = numberAttr(node.getAttribute('rx') ?? node.getAttribute('ry'));
+        if (s.fill !== 'none') page.rect(x, y, w, h, { fill: s.fill, opacity: opacity * s.fillOpacity }, r);
+        if (s.stroke !== 'none' && s.strokeWidth > 0) page.rect(x, y, w, h, { stroke: s.stroke, lineWidth: s.strokeWidth, dash: s.dash, opacity: opacity * s.strokeOpacity }, r);
+      } else if (tag === 'circle') {
+        if (n('r') > 0) shape(ellipsePath(n('cx'), n('cy'), n('r'), n('r')));
+      } else if (tag === 'ellipse') {
+        if (n('rx') > 0 && n('ry') > 0) shape(ellipsePath(n('cx'), n('cy'), n('rx'), n('ry')));
+      } else if (tag === 'line') {
+        if (s.stroke !== 'none') page.line(n('x1'), n('y1'), n('x2'), n('y2'), { stroke: s.stroke, lineWidth: s.strokeWidth, dash: s.dash, opacity: opacity * s.strokeOpacity });
+      } else if (tag === 'polyline' || tag === 'polygon') {
+        const pts = numberList(node.getAttribute('points'));
+        const segs: PathSegment[] = [];
+        for (let i = 0; i + 1 < pts.length; i += 2) segs.push({ op: i ? 'L' : 'M', x: pts[i], y: pts[i + 1] });
+        if (tag === 'polygon' && segs.length) segs.push({ op: 'Z' });
+        shape(segs);
+      } else if (tag === 'path') {
+        shape(parsePathData(node.getAttribute('d') ?? ''));
+      } else if (tag === 'text') {
+        const text = (node.textContent ?? '').replace(/\s+/g, ' ').trim();
+        if (s.fill !== 'none') page.text(text, n('x'), n('y'), { size: s.fontSize, font: s.bold ? 'bold' : 'regular', color: s.fill, align: s.anchor, opacity: opacity * s.fillOpacity });
+      } else if (tag === 'g' || tag === 'svg' || tag === 'a') {
+        Array.from(node.children).forEach(c => draw(c, s, opacity));
+      }
+    };
+
+    const m = node === svg ? undefined : parseTransform(node.getAttribute('transform'));
+    if (m) page.transformed(m, render); else render();
+  }
+
+  page.clipped(box.x, box.y, box.width, box.height, () =>
+    page.transformed([scale, 0, 0, scale, tx, ty], () => draw(svg, root, 1)));
+}
@@ -0,0 +1,166 @@
+/**
+ * Time scale for period columns.
+ * Parses canonical period labels (see normalizePeriod) into real instants so charts can place
+ * points at their true distance, roll periods up to a coarser granularity, and pick tick marks.
+ */
+import { normalizePeriod } from './normalize';
+
+export type Granularity = 'day' | 'month' | 'quarter' | 'half' | 'year';
+
+export const GRANULARITIES: Granularity[] = ['day', 'month', 'quarter', 'half', 'year'];
+
+export interface TimePeriod {
+  start: number;        // UTC milliseconds of the first instant of the period
+  grain: Granularity;
+  fiscal: boolean;      // "FY2024": placed like calendar 2024 and labelled as fiscal
+}
+
+export interface RollupGroup<T> {
+  label: string;        // canonical label at the rolled-up granularity
+  start: number;
+  items: T[];           // in chronological order, so 'last' picks the latest
+}
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const MONTHS_IN: Record<Granularity, number> = { day: 0, month: 1, quarter: 3, half: 6, year: 12 };
+const pad = (n: number) => String(n).padStart(2, '0');
+
+export function grainRank(g: Granularity): number {
+  return GRANULARITIES.indexOf(g);
+}
+
+export function grainLabel(g: Granularity): string {
+  return g === 'day' ? 'Daily' : g === 'month' ? 'Monthly' : g === 'quarter' ? 'Quarterly' : g === 'half' ? 'Half-yearly' : 'Yearly';
+}
+
+function parseCanonical(s: string): TimePeriod | null {
+  let m: RegExpMatchArray | null;
+  if ((m = s.match(/^(FY)?(\d{4})$/))) return { start: Date.UTC(+m[2], 0, 1), grain: 'year', fiscal: !!m[1] };
+  if ((m = s.match(/^(\d{4})-Q([1-4])$/))) return { start: Date.UTC(+m[1], (+m[2] - 1) * 3, 1), grain: 'quarter', fiscal: false };
+  if ((m = s.match(/^(\d{4})-H([12])$/))) return { start: Date.UTC(+m[1], (+m[2] - 1) * 6, 1), grain: 'half', fiscal: false };
+  if ((m = s.match(/^(\d{4})-(\d{2})$/)) && +m[2] >= 1 && +m[2] <= 12) return { start: Date.UTC(+m[1], +m[2] - 1, 1), grain: 'month', fiscal: false };
+  if ((m = s.match(/^(\d{4})-(\d{2})-(\d{2})$/))) {
+    const start = Date.UTC(+m[1], +m[2] - 1, +m[3]);
+    return new Date(start).getUTCDate() === +m[3] ? { start, grain: 'day', fiscal: false } : null;
+  }
+  return null;
+}
+
+/** Reads a period label; anything normalizePeriod understands ("Mar 2024", "Q1 24") works too. */
+export function parsePeriod(label: string): TimePeriod | null {
+  const s = label.trim();
+  if (!s) return null;
+  const canonical = parseCanonical(s);
+  if (canonical) return canonical;
+  const normalized = normalizePeriod(s).value;
+  return normalized && normalized !== s ? parseCanonical(normalized) : null;
+}
+
+/** Start of the period `n` steps after the one starting at `start`. */
+export function addPeriods(start: number, grain: Granularity, n: number): number {
+  const d = new Date(start);
+  if (grain === 'day') return Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate() + n);
+  return Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + n * MONTHS_IN[grain], 1);
+}
+
+/** Start of the `grain` period containing `t`. */
+export function floorTo(t: number, grain: Granularity): number {
+  const d = new Date(t);
+  if (grain === 'day') return Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate());
+  const span = MONTHS_IN[grain];
+  return Date.UTC(d.getUTCFullYear(), Math.floor(d.getUTCMonth() / span) * span, 1);
+}
+
+/** Canonical label of the `grain` period starting at `start`. */
+export function periodLabel(start: number, grain: Granularity, fiscal = false): string {
+  const d = new Date(start);
+  const y = d.getUTCFullYear(), mo = d.getUTCMonth();
+  switch (grain) {
+    case 'year': return fiscal ? `FY${y}` : String(y);
+    case 'half': return `${y}-H${mo < 6 ? 1 : 2}`;
+    case 'quarter': return `${y}-Q${Math.floor(mo / 3) + 1}`;
+    case 'month': return `${y}-${pad(mo + 1)}`;
+    default: return `${y}-${pad(mo + 1)}-${pad(d.getUTCDate())}`;
+  }
+}
+
+/** Short human label for an axis tick or tooltip: "2024", "Q1 2024", "Mar 2024", "31 Mar 2024". */
+export function displayPeriod(start: number, grain: Granularity, fiscal = false): string {
+  const d = new Date(start);
+  const y = d.getUTCFullYear(), mo = d.getUTCMonth();
+  switch (grain) {
+    case 'year': return fiscal ? `FY${y}` : String(y);
+    case 'half': return `H${mo < 6 ? 1 : 2} ${y}`;
+    case 'quarter': return `Q${Math.floor(mo / 3) + 1} ${y}`;
+    case 'month': return `${MONTH_NAMES[mo]} ${y}`;
+    default: return `${d.getUTCDate()} ${MONTH_NAMES[mo]} ${y}`;
+  }
+}
+
+/**
+ * Parses every label of a period column. Returns null unless all non-empty labels are periods,
+ * so a category column keeps its evenly spaced axis. `grain` is the finest granularity present.
+ */
+export function parseTimeline(labels: string[]): { periods: (TimePeriod | null)[]; grain: Granularity } | null {
+  const periods = labels.map(parsePeriod);
+  if (!periods.some(Boolean) || labels.some((l, i) => l.trim() !== '' && !periods[i])) return null;
+  const grain = periods.reduce<Granularity>((g, p) => (p && grainRank(p.grain) < grainRank(g) ? p.grain : g), 'year');
+  return { periods, grain };
+}
+
+/**
+ * Groups items into `grain` periods (never finer than an item's own period), sorted by time.
+ * Fiscal years stay fiscal; everything else rolls up onto the calendar.
+ */
+export function rollup<T>(items: T[], periodOf: (item: T) => TimePeriod | null, grain: Granularity): RollupGroup<T>[] {
+  const groups = new Map<string, RollupGroup<T> & { at: number[] }>();
+  items.forEach(item => {
+    const p = periodOf(item);
+    if (!p) return;
+    const g = grainRank(p.grain) > grainRank(grain) ? p.grain : grain;
+    const start = floorTo(p.start, g);
+    const label = periodLabel(start, g, p.fiscal);
+    const group = groups.get(label) ?? { label, start, items: [], at: [] };
+    group.items.push(item);
+    group.at.push(p.start);
+    groups.set(label, group);
+  });
+  return Array.from(groups.values())
+    .sort((a, b) => a.start - b.start)
+    .map(({ label, start, items, at }) => {
+      const order = items.map((_, i) => i).sort((i, j) => at[i] - at[j]);
+      return { label, start, items: order.map(i => items[i]) };
+    });
+}
+
+export interface TimeTick {
+  value: number;
+  label: string;
+}
+
+const TICK_STEPS: [Granularity, number][] = [
+  ['day', 1], ['day', 2], ['day', 7], ['day', 14],
+  ['month', 1], ['month', 2], ['quarter', 1], ['half', 1],
+  ['year', 1], ['year', 2], ['year', 5], ['year', 10], ['year', 25], ['year', 50], ['year', 100],
+];
+
+/**
+ * Tick marks for the time range [from, to]: the finest step (no finer than the data's own
+ * granularity) that keeps the count within maxTicks, aligned to calendar boundaries.
+ */
+export function timeTicks(from: number, to: number, maxTicks: number, dataGrain: Granularity, fiscal = false): TimeTick[] {
+  const steps = TICK_STEPS.filter(([g]) => grainRank(g) >= grainRank(dataGrain));
+  for (const [grain, n] of steps) {
+    const first = floorTo(from, grain);
+    const aligned = grain === 'year' ? Date.UTC(Math.ceil(new Date(first).getUTCFullYear() / n) * n, 0, 1) : first;
+    // Quarter/half steps over monthly or daily data read better as month names ("Jan 2024", "Jul 2024")
+    const labelGrain: Granularity = (grain === 'quarter' || grain === 'half') && grainRank(dataGrain) < grainRank('quarter') ? 'month' : grain;
+    const ticks: TimeTick[] = [];
+    for (let t = aligned < from ? addPeriods(aligned, grain, n) : aligned; t <= to; t = addPeriods(t, grain, n)) {
+      ticks.push({ value: t, label: displayPeriod(t, labelGrain, fiscal) });
+      if (ticks.length > maxTicks) break;
+    }
+    if (ticks.length <= maxTicks) return ticks.length ? ticks : [{ value: from, label: displayPeriod(from, dataGrain, fiscal) }];
+  }
+  return [];
+}
@@ -0,0 +1,164 @@
+/**
+ * Data validation. Columns can carry rules (required, a numeric range, allowed categories,
+ * unique values such as one row per period); checking a dataset yields one issue per bad cell,
+ * each with the value its one-click fix would write, plus the missing, unreadable and outlying
+ * values every table is checked for.
+ */
+import { type CellValue, type Column, type Dataset, type Row, cellText, isNumeric } from './dataset';
+import { columnFormatter } from './format';
+import type { Coercion } from './normalize';
+import { parsePeriod } from './time';
+
+export interface ColumnRules {
+  required?: boolean;
+  min?: number;
+  max?: number;
+  allowed?: string[];   // category values accepted (compared case-insensitively)
+  unique?: boolean;     // no two rows share a value, e.g. one row per period
+}
+
+export type IssueKind = 'missing' | 'invalid' | 'range' | 'category' | 'duplicate' | 'outlier';
+
+export interface CellIssue {
+  row: Row;             // row object in the dataset, as with coercions
+  column: string;
+  kind: IssueKind;
+  message: string;
+  fix?: CellValue;      // what the one-click fix writes; undefined = nothing to write
+  drop?: boolean;       // the fix removes the row instead
+}
+
+export const ISSUE_KINDS: IssueKind[] = ['missing', 'invalid', 'range', 'category', 'duplicate', 'outlier'];
+
+/** Rule violations are errors; missing numbers and outliers may be legitimate, so they only warn. */
+export const ISSUE_SEVERITY: Record<IssueKind, 'error' | 'warning'> = {
+  missing: 'warning', invalid: 'error', range: 'error', category: 'error', duplicate: 'error', outlier: 'warning',
+};
+
+export const ISSUE_LABELS: Record<IssueKind, { name: string; fix: string }> = {
+  missing: { name: 'Missing', fix: 'Fill in' },
+  invalid: { name: 'Unreadable', fix: 'Clear' },
+  range: { name: 'Out of range', fix: 'Clamp to range' },
+  category: { name: 'Unknown category', fix: 'Clear' },
+  duplicate: { name: 'Duplicate', fix: 'Remove rows' },
+  outlier: { name: 'Outlier', fix: 'Clamp' },
+};
+
+const empty = (v: CellValue) => v == null || v === '';
+
+function quantile(sorted: number[], q: number): number {
+  const at = (sorted.length - 1) * q, lo = Math.floor(at);
+  return sorted[lo] + (sorted[Math.min(lo + 1, sorted.length - 1)] - sorted[lo]) * (at - lo);
+}
+
+/** Far-out fences (3 × IQR beyond the quartiles); too few values or no spread means no outliers. */
+export function outlierFences(values: number[]): [number, number] | null {
+  if (values.length < 8) return null;
+  const sorted = values.slice().sort((a, b) => a - b);
+  const q1 = quantile(sorted, 0.25), q3 = quantile(sorted, 0.75), iqr = q3 - q1;
+  return iqr > 0 ? [q1 - 3 * iqr, q3 + 3 * iqr] : null;
+}
+
+function checkColumn(rows: Row[], col: Column): CellIssue[] {
+  const rules = col.rules ?? {};
+  const numeric = isNumeric(col);
+  const fmt = columnFormatter(col);
+  const numbers = numeric ? rows.map(r => r[col.key]).filter((v): v is number => typeof v === 'number' && isFinite(v)) : [];
+  const median = numbers.length ? quantile(numbers.slice().sort((a, b) => a - b), 0.5) : undefined;
+  const fences = numeric ? outlierFences(numbers) : null;
+  const allowed = rules.allowed?.length ? new Set(rules.allowed.map(a => a.trim().toLowerCase())) : null;
+  const seen = new Map<string, number>();
+  const issues: CellIssue[] = [];
+  let previous: CellValue = null;
+
+  rows.forEach((row, i) => {
+    const v = row[col.key];
+    const issue = (kind: IssueKind, message: string, fix?: CellValue, drop?: boolean) =>
+      issues.push({ row, column: col.key, kind, message, fix, drop });
+    if (empty(v)) {
+      // Numbers are what charts read, so a blank one matters even without a rule. Numbers are
+      // filled with the median, other values from the row above (unless they must be unique).
+      const fill = numeric ? median : rules.unique ? undefined : previous ?? undefined;
+      if (rules.required || numeric) issue('missing', rules.required ? 'Required' : 'No value', fill);
+      return;
+    }
+    if (numeric && typeof v !== 'number') { issue('invalid', `"${v}" is not a number`, null); return; }
+    if (col.type === 'date' && !parsePeriod(String(v))) { issue('invalid', `"${v}" is not a recognised period`, null); return; }
+    previous = v;
+
+    if (typeof v === 'number') {
+      if (rules.min != null && v < rules.min) issue('range', `Below the minimum of ${fmt(rules.min)}`, rules.min);
+      else if (rules.max != null && v > rules.max) issue('range', `Above the maximum of ${fmt(rules.max)}`, rules.max);
+      else if (fences && (v < fences[0] || v > fences[1])) {
+        const [lo, hi] = fences;
+        issue('outlier', `Unusually ${v > hi ? 'high' : 'low'} (most values are between ${fmt(lo)} and ${fmt(hi)})`, parseFloat((v > hi ? hi : lo).toPrecision(12)));
+      }
+    }
+    if (allowed && !allowed.has(String(v).trim().toLowerCase())) issue('category', `"${v}" is not one of ${rules.allowed!.join(', ')}`, null);
+
+    if (rules.unique) {
+      const key = cellText(row, col.key).trim().toLowerCase();
+      const first = seen.get(key);
+      if (first == null) seen.set(key, i);
+      else issue('duplicate', `Same as row ${first + 1}`, undefined, true);
+    }
+  });
+  return issues;
+}
+
+/** Every issue in the dataset, column by column. Formula columns are derived, so their inputs are checked instead. */
+export function validateDataset(ds: Dataset): CellIssue[] {
+  return ds.columns.filter(c => c.formula == null).flatMap(c => checkColumn(ds.rows, c));
+}
+
+/** Issues by row, then by column, for marking cells. */
+export function issuesByCell(issues: CellIssue[]): Map<Row, Map<string, CellIssue[]>> {
+  const m = new Map<Row, Map<string, CellIssue[]>>();
+  for (const issue of issues) {
+    const byCol = m.get(issue.row) ?? new Map<string, CellIssue[]>();
+    byCol.set(issue.column, [...(byCol.get(issue.column) ?? []), issue]);
+    m.set(issue.row, byCol);
+  }
+  return m;
+}
+
+/** Counts for the data-quality panel: each issue kind plus values normalized on import. */
+export function qualitySummary(issues: CellIssue[], coercions: Coercion[]): Record<IssueKind | 'coerced', number> {
+  const counts = { coerced: coercions.length } as Record<IssueKind | 'coerced', number>;
+  ISSUE_KINDS.forEach(k => { counts[k] = 0; });
+  issues.forEach(i => { counts[i.kind]++; });
+  return counts;
+}
+
+/** Applies the fixes of the given issues; rows without a fix keep their identity. */
+export function applyFixes(ds: Dataset, issues: CellIssue[]): Dataset {
+  const drop = new Set(issues.filter(i => i.drop).map(i => i.row));
+  const writes = new Map<Row, Row>();
+  for (const i of issues) {
+    if (i.drop || i.fix === undefined || drop.has(i.row)) continue;
+    writes.set(i.row, { ...(writes.get(i.row) ?? i.row), [i.column]: i.fix });
+  }
+  if (!drop.size && !writes.size) return ds;
+  return { columns: ds.columns, rows: ds.rows.filter(r => !drop.has(r)).map(r => writes.get(r) ?? r) };
+}
+
+/** Drops empty settings; no rules at all is undefined, so the column stays as it was. */
+export function cleanRules(rules: ColumnRules): ColumnRules | undefined {
+  const out: ColumnRules = {};
+  if (rules.required) out.required = true;
+  if (rules.unique) out.unique = true;
+  if (rules.min != null && isFinite(rules.min)) out.min = rules.min;
+  if (rules.max != null && isFinite(rules.max)) out.max = rules.max;
+  const allowed = rules.allowed?.map(a => a.trim()).filter(Boolean);
+  if (allowed?.length) out.allowed = Array.from(new Set(allowed));
+  return Object.keys(out).length ? out : undefined;
+}
+
+/** Rules a freshly imported table gets: a period column whose values are all present and distinct stays that way. */
+export function suggestRules(ds: Dataset): Dataset {
+  const pc = ds.columns.find(c => c.type === 'date');
+  if (!pc || pc.rules || !ds.rows.length) return ds;
+  const values = ds.rows.map(r => cellText(r, pc.key).trim().toLowerCase());
+  if (values.some(v => !v) || new Set(values).size !== values.length) return ds;
+  return { ...ds, columns: ds.columns.map(c => (c === pc ? { ...c, rules: { required: true, unique: true } } : c)) };
+}
@@ -0,0 +1,90 @@
+/**
+ * Named workspaces kept in IndexedDB. Each workspace is a project (see project.ts) stored
+ * under an id, with a small summary record for listing and the id of the one open last, so
+ * the page comes back as it was left. Stored projects are read through the same migrations
+ * as files.
+ */
+import { type Project, type ProjectFile, projectFile, readProject } from './project';
+
+export interface WorkspaceInfo {
+  id: string;
+  name: string;
+  savedAt: string;
+  rows: number;
+}
+
+const DB_NAME = 'chartura';
+const DB_VERSION = 1;
+const PROJECTS = 'projects', INFO = 'info', SETTINGS = 'settings';
+const LAST_OPEN = 'lastWorkspace';
+
+let db: Promise<IDBDatabase> | undefined;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!db) {
+    db = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') { reject(new Error('This browser can\'t store workspaces.')); return; }
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        for (const name of [PROJECTS, INFO, SETTINGS]) if (!req.result.objectStoreNames.contains(name)) req.result.createObjectStore(name);
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error ?? new Error('Could not open workspace storage.'));
+    });
+    db.catch(() => { db = undefined; });
+  }
+  return db;
+}
+
+/** Runs `work` in one transaction and resolves with its last request's result once the transaction commits. */
+async function transact<T>(stores: string[], mode: IDBTransactionMode, work: (tx: IDBTransaction) => IDBRequest<T> | void): Promise<T> {
+  const tx = (await openDb()).transaction(stores, mode);
+  const req = work(tx);
+  return new Promise<T>((resolve, reject) => {
+    tx.oncomplete = () => resolve(req ? req.result : (undefined as T));
+    tx.onerror = () => reject(tx.error ?? new Error('Workspace storage failed.'));
+    tx.onabort = () => reject(tx.error ?? new Error('Workspace storage failed.'));
+  });
+}
+
+export function newWorkspaceId(): string {
+  return `ws-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/** Most recently saved first. */
+export async function listWorkspaces(): Promise<WorkspaceInfo[]> {
+  const all = await transact<WorkspaceInfo[]>([INFO], 'readonly', tx => tx.objectStore(INFO).getAll());
+  return all.sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+}
+
+export async function loadWorkspace(id: string): Promise<ProjectFile | undefined> {
+  const raw = await transact<unknown>([PROJECTS], 'readonly', tx => tx.objectStore(PROJECTS).get(id));
+  return raw == null ? undefined : readProject(raw);
+}
+
+/** Saves the project and marks it as the one to reopen. */
+export async function saveWorkspace(id: string, project: Project): Promise<WorkspaceInfo> {
+  const file = projectFile(project);
+  const info: WorkspaceInfo = { id, name: file.name, savedAt: file.savedAt, rows: file.dataset.rows.length };
+  await transact([PROJECTS, INFO, SETTINGS], 'readwrite', tx => {
+    tx.objectStore(PROJECTS).put(file, id);
+    tx.objectStore(INFO).put(info, id);
+    tx.objectStore(SETTINGS).put(id, LAST_OPEN);
+  });
+  return info;
+}
+
+export async function deleteWorkspace(id: string): Promise<void> {
+  await transact([PROJECTS, INFO], 'readwrite', tx => {
+    tx.objectStore(PROJECTS).delete(id);
+    tx.objectStore(INFO).delete(id);
+  });
+}
+
+/** The workspace open when the page was last used, if it still exists. */
+export async function lastWorkspace(): Promise<ProjectFile & { id: string } | undefined> {
+  const id = await transact<unknown>([SETTINGS], 'readonly', tx => tx.objectStore(SETTINGS).get(LAST_OPEN));
+  if (typeof id !== 'string') return undefined;
+  const file = await loadWorkspace(id);
+  return file && { ...file, id };
+}
@@ -0,0 +1,195 @@
+/**
+ * In-browser .xlsx reader.
+ * Unzips the OOXML package, resolves shared strings and cell styles, and returns
+ * every worksheet as formatted text cells so it can feed the same import pipeline as CSV.
+ */
+import type { RawTable } from './importer';
+import { openZip } from './zip';
+
+export interface XlsxSheet {
+  name: string;
+  hidden: boolean;
+  rows: string[][];        // dense grid of formatted cell text, trailing empties trimmed
+  rowNumbers: number[];    // 1-based sheet row for each entry in rows
+}
+
+type CellFormat = { kind: 'general' } | { kind: 'date'; time: boolean } | { kind: 'percent' } | { kind: 'currency'; symbol: string };
+
+function parseXml(text: string): Document {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length) throw new Error('The workbook contains malformed XML.');
+  return doc;
+}
+
+/** Elements by local name, whatever namespace prefix the producer used. */
+function byTag(root: Document | Element, tag: string): Element[] {
+  return Array.from(root.getElementsByTagNameNS('*', tag));
+}
+
+function attr(el: Element, name: string): string | null {
+  return el.getAttribute(name) ?? el.getAttributeNS('http://schemas.openxmlformats.org/officeDocument/2006/relationships', name.replace(/^r:/, ''));
+}
+
+/** Text of <t> runs under a string item, skipping phonetic (<rPh>) hints. */
+function richText(el: Element): string {
+  return byTag(el, 't').filter(t => t.parentElement?.localName !== 'rPh').map(t => t.textContent ?? '').join('');
+}
+
+function resolvePath(base: string, target: string): string {
+  if (target.startsWith('/')) return target.slice(1);
+  const parts = base.split('/').slice(0, -1);
+  for (const seg of target.split('/')) {
+    if (seg === '..') parts.pop(); else if (seg !== '.') parts.push(seg);
+  }
+  return parts.join('/');
+}
+
+function relsPathFor(part: string): string {
+  const i = part.lastIndexOf('/');
+  return `${part.slice(0, i + 1)}_rels/${part.slice(i + 1)}.rels`;
+}
+
+const BUILTIN_DATE_IDS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 27, 30, 36, 45, 46, 47, 50, 57]);
+const BUILTIN_TIME_IDS = new Set([18, 19, 20, 21, 22, 45, 46, 47]);
+
+function classifyFormat(id: number, code: string | undefined): CellFormat {
+  if (code == null) {
+    if (BUILTIN_DATE_IDS.has(id)) return { kind: 'date', time: BUILTIN_TIME_IDS.has(id) };
+    if (id === 9 || id === 10) return { kind: 'percent' };
+    if ((id >= 5 && id <= 8) || id === 42 || id === 44) return { kind: 'currency', symbol: '$' };
+    return { kind: 'general' };
+  }
+  const section = code.split(';')[0];
+  const symbol = section.match(/\[\$([^\]-]+)/)?.[1] || section.replace(/\[[^\]]*\]/g, '').match(/[$€£¥]/)?.[0];
+  const bare = section.replace(/"[^"]*"|\\.|[_*].|\[[^\]]*\]/g, '');
+  if (/%/.test(bare)) return { kind: 'percent' };
+  if (/[yd]/i.test(bare) || (/m/i.test(bare) && !/[hs]/i.test(bare))) return { kind: 'date', time: /[hs]/i.test(bare) };
+  if (/[hs]/i.test(bare) && !/[0#]/.test(bare)) return { kind: 'date', time: true };
+  if (symbol) return { kind: 'currency', symbol };
+  return { kind: 'general' };
+}
+
+function columnIndex(ref: string): number {
+  let n = 0;
+  for (const ch of ref.toUpperCase()) {
+    if (ch < 'A' || ch > 'Z') break;
+    n = n * 26 + (ch.charCodeAt(0) - 64);
+  }
+  return n - 1;
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+function serialToDate(serial: number, date1904: boolean, time: boolean): string {
+  const epoch = date1904 ? Date.UTC(1904, 0, 1) : Date.UTC(1899, 11, 30);
+  const d = new Date(epoch + Math.round(serial * 86400000));
+  const day = `${d.getUTCFullYear()}-${pad(d.getUTCMonth() + 1)}-${pad(d.getUTCDate())}`;
+  return time ? `${day} ${pad(d.getUTCHours())}:${pad(d.getUTCMinutes())}` : day;
+}
+
+function formatNumber(raw: string, fmt: CellFormat, date1904: boolean): string {
+  const v = parseFloat(raw);
+  if (!isFinite(v)) return raw;
+  const clean = String(parseFloat(v.toPrecision(15)));
+  switch (fmt.kind) {
+    case 'date': return serialToDate(v, date1904, fmt.time);
+    case 'percent': return `${parseFloat((v * 100).toPrecision(15))}%`;
+    case 'currency': return v < 0 ? `-${fmt.symbol}${clean.slice(1)}` : `${fmt.symbol}${clean}`;
+    default: return clean;
+  }
+}
+
+export async function readXlsx(buf: ArrayBuffer): Promise<XlsxSheet[]> {
+  const zip = openZip(buf);
+
+  const rootRels = await zip.text('_rels/.rels');
+  const officeDoc = rootRels
+    ? byTag(parseXml(rootRels), 'Relationship').find(r => /officeDocument$/.test(r.getAttribute('Type') ?? ''))?.getAttribute('Target')
+    : undefined;
+  const workbookPath = officeDoc ? resolvePath('', officeDoc) : 'xl/workbook.xml';
+  const workbookXml = await zip.text(workbookPath);
+  if (!workbookXml) throw new Error('Not an Excel workbook (xl/workbook.xml is missing).');
+  const workbook = parseXml(workbookXml);
+  const date1904 = byTag(workbook, 'workbookPr').some(el => /^(1|true)$/.test(el.getAttribute('date1904') ?? ''));
+
+  const rels = new Map<string, { type: string; target: string }>();
+  const relsXml = await zip.text(relsPathFor(workbookPath));
+  if (relsXml) {
+    for (const r of byTag(parseXml(relsXml), 'Relationship')) {
+      rels.set(r.getAttribute('Id') ?? '', { type: r.getAttribute('Type') ?? '', target: resolvePath(workbookPath, r.getAttribute('Target') ?? '') });
+    }
+  }
+  const relOfType = (suffix: string) => Array.from(rels.values()).find(r => r.type.endsWith(suffix))?.target;
+
+  const shared: string[] = [];
+  const sstXml = await zip.text(relOfType('/sharedStrings') ?? 'xl/sharedStrings.xml');
+  if (sstXml) for (const si of byTag(parseXml(sstXml), 'si')) shared.push(richText(si));
+
+  const formats: CellFormat[] = [];
+  const stylesXml = await zip.text(relOfType('/styles') ?? 'xl/styles.xml');
+  if (stylesXml) {
+    const styles = parseXml(stylesXml);
+    const custom = new Map(byTag(styles, 'numFmt').map(f => [Number(f.getAttribute('numFmtId')), f.getAttribute('formatCode') ?? '']));
+    const cellXfs = byTag(styles, 'cellXfs')[0];
+    if (cellXfs) {
+      for (const xf of Array.from(cellXfs.children).filter(el => el.localName === 'xf')) {
+        const id = Number(xf.getAttribute('numFmtId') ?? 0);
+        formats.push(classifyFormat(id, custom.get(id)));
+      }
+    }
+  }
+
+  const sheets: XlsxSheet[] = [];
+  for (const s of byTag(workbook, 'sheet')) {
+    const rel = rels.get(attr(s, 'r:id') ?? '');
+    const xml = rel && await zip.text(rel.target);
+    if (!xml) continue;
+
+    const grid: string[][] = [];
+    const rowNumbers: number[] = [];
+    let nextRow = 1;
+    for (const rowEl of byTag(parseXml(xml), 'row')) {
+      const r = Number(rowEl.getAttribute('r')) || nextRow;
+      nextRow = r + 1;
+      const cells: string[] = [];
+      let nextCol = 0;
+      for (const c of Array.from(rowEl.children).filter(el => el.localName === 'c')) {
+        const ref = c.getAttribute('r');
+        const col = ref ? columnIndex(ref) : nextCol;
+        nextCol = col + 1;
+        const t = c.getAttribute('t');
+        const v = Array.from(c.children).find(el => el.localName === 'v')?.textContent ?? '';
+        let text: string;
+        if (t === 's') text = shared[Number(v)] ?? '';
+        else if (t === 'inlineStr') text = richText(c);
+        else if (t === 'b') text = v === '1' ? 'TRUE' : 'FALSE';
+        else if (t === 'str' || t === 'e') text = v;
+        else text = v === '' ? '' : formatNumber(v, formats[Number(c.getAttribute('s') ?? 0)] ?? { kind: 'general' }, date1904);
+        while (cells.length < col) cells.push('');
+        cells[col] = text.trim();
+      }
+      while (cells.length && cells[cells.length - 1] === '') cells.pop();
+      if (!cells.length) continue;
+      grid.push(cells);
+      rowNumbers.push(r);
+    }
+    sheets.push({ name: s.getAttribute('name') ?? `Sheet${sheets.length + 1}`, hidden: !!s.getAttribute('state') && s.getAttribute('state') !== 'visible', rows: grid, rowNumbers });
+  }
+  return sheets;
+}
+
+/** First non-empty row becomes the header; the rest feed the import pipeline like CSV rows. */
+export function tableFromSheet(fileName: string, sheet: XlsxSheet): RawTable {
+  const [headers = [], ...body] = sheet.rows;
+  // reduce, not a spread: engines cap argument counts well below large sheets' row counts
+  const width = body.reduce((w, r) => Math.max(w, r.length), headers.length);
+  while (headers.length < width) headers.push('');
+  return {
+    name: `${fileName} — ${sheet.name}`,
+    headers,
+    rows: body.map(r => r.concat(Array(width - r.length).fill(''))),
+    rowNumbers: sheet.rowNumbers.slice(1),
+    issues: [],
+    meta: 'Excel worksheet',
+  };
+}
@@ -0,0 +1,164 @@
+/**
+ * Minimal ZIP archive reader and writer for OOXML packages (.xlsx in, .pptx out).
+ * Reading supports stored and deflated entries; inflation uses the browser's DecompressionStream.
+ * Writing stores entries uncompressed, which every OOXML consumer accepts.
+ */
+
+export interface ZipEntry {
+  name: string;
+  method: number;          // 0 = stored, 8 = deflate
+  compressedSize: number;
+  size: number;
+  localOffset: number;
+}
+
+export interface ZipArchive {
+  entries: ZipEntry[];
+  has(name: string): boolean;
+  read(name: string): Promise<Uint8Array | undefined>;
+  text(name: string): Promise<string | undefined>;
+}
+
+const EOCD_SIG = 0x06054b50;
+const CENTRAL_SIG = 0x02014b50;
+const LOCAL_SIG = 0x04034b50;
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+export function openZip(buf: ArrayBuffer): ZipArchive {
+  const view = new DataView(buf);
+  const bytes = new Uint8Array(buf);
+
+  // The end-of-central-directory record sits in the last 64 KiB (it may be followed by a comment).
+  let eocd = -1;
+  for (let i = buf.byteLength - 22; i >= Math.max(0, buf.byteLength - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === EOCD_SIG) { eocd = i; break; }
+  }
+  if (eocd < 0) throw new Error('Not a ZIP archive (end of central directory not found).');
+
+  const count = view.getUint16(eocd + 10, true);
+  let p = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder('utf-8');
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(p, true) !== CENTRAL_SIG) throw new Error('Corrupt ZIP central directory.');
+    const nameLen = view.getUint16(p + 28, true);
+    const extraLen = view.getUint16(p + 30, true);
+    const commentLen = view.getUint16(p + 32, true);
+    entries.push({
+      name: decoder.decode(bytes.subarray(p + 46, p + 46 + nameLen)),
+      method: view.getUint16(p + 10, true),
+      compressedSize: view.getUint32(p + 20, true),
+      size: view.getUint32(p + 24, true),
+      localOffset: view.getUint32(p + 42, true),
+    });
+    p += 46 + nameLen + extraLen + commentLen;
+  }
+
+  const byName = new Map(entries.map(e => [e.name, e]));
+
+  async function read(name: string): Promise<Uint8Array | undefined> {
+    const e = byName.get(name);
+    if (!e) return undefined;
+    if (view.getUint32(e.localOffset, true) !== LOCAL_SIG) throw new Error(`Corrupt ZIP entry: ${name}`);
+    const start = e.localOffset + 30 + view.getUint16(e.localOffset + 26, true) + view.getUint16(e.localOffset + 28, true);
+    const data = bytes.subarray(start, start + e.compressedSize);
+    if (e.method === 0) return data;
+    if (e.method === 8) return inflateRaw(data);
+    throw new Error(`Unsupported ZIP compression method ${e.method} for ${name}.`);
+  }
+
+  return {
+    entries,
+    has: name => byName.has(name),
+    read,
+    text: async name => {
+      const data = await read(name);
+      return data && decoder.decode(data);
+    },
+  };
+}
+
+export interface ZipFile {
+  name: string;
+  data: Uint8Array | string;   // strings are written as UTF-8
+}
+
+const CRC_TABLE = (() => {
+  const t = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    t[n] = c >>> 0;
+  }
+  return t;
+})();
+
+function crc32(data: Uint8Array): number {
+  let c = 0xffffffff;
+  for (let i = 0; i < data.length; i++) c = CRC_TABLE[(c ^ data[i]) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+/** Packs files into a ZIP archive (stored, no compression) in the given order. */
+export function writeZip(files: ZipFile[], date = new Date()): Uint8Array {
+  const encoder = new TextEncoder();
+  const time = (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1);
+  const day = ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+  const parts: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const f of files) {
+    const name = encoder.encode(f.name);
+    const data = typeof f.data === 'string' ? encoder.encode(f.data) : f.data;
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, LOCAL_SIG, true);
+    local.setUint16(4, 20, true);            // version needed
+    local.setUint16(6, 0x0800, true);        // UTF-8 names
+    local.setUint16(8, 0, true);             // stored
+    local.setUint16(10, time, true);
+    local.setUint16(12, day, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+    parts.push(new Uint8Array(local.buffer), name, data);
+
+    const entry = new DataView(new ArrayBuffer(46));
+    entry.setUint32(0, CENTRAL_SIG, true);
+    entry.setUint16(4, 20, true);            // version made by
+    entry.setUint16(6, 20, true);
+    entry.setUint16(8, 0x0800, true);
+    entry.setUint16(10, 0, true);
+    entry.setUint16(12, time, true);
+    entry.setUint16(14, day, true);
+    entry.setUint32(16, crc, true);
+    entry.setUint32(20, data.length, true);
+    entry.setUint32(24, data.length, true);
+    entry.setUint16(28, name.length, true);
+    entry.setUint32(42, offset, true);
+    central.push(new Uint8Array(entry.buffer), name);
+
+    offset += 30 + name.length + data.length;
+  }
+
+  const centralSize = central.reduce((s, b) => s + b.length, 0);
+  const eocd = new DataView(new ArrayBuffer(22));
+  eocd.setUint32(0, EOCD_SIG, true);
+  eocd.setUint16(8, files.length, true);
+  eocd.setUint16(10, files.length, true);
+  eocd.setUint32(12, centralSize, true);
+  eocd.setUint32(16, offset, true);
+
+  const all = [...parts, ...central, new Uint8Array(eocd.buffer)];
+  const out = new Uint8Array(all.reduce((s, b) => s + b.length, 0));
+  let p = 0;
+  for (const b of all) { out.set(b, p); p += b.length; }
+  return out;
+}
@@ -1,22 +1,18 @@
 import PremiumLineChart from '../components/premium/LineChart';
 import PremiumDonutChart from '../components/premium/DonutChart';
 import PremiumKpiCards from '../components/premium/KpiCards';
+import { columnFormat } from '../lib/format';
+import { type Dataset, categoryColumns, numericColumns, periodColumn } from '../lib/dataset';
+import { pivot } from '../lib/pivot';
 
-export interface Row {
-  period: string;
-  revenue: number;
-  units: number;
-  supplier: string;
-  costPrice: number;
-  staffExp: number;
-}
+export default function PremiumShowcase({ dataset }: { dataset: Dataset }) {
+  const metric = numericColumns(dataset)[0];
+  const category = categoryColumns(dataset)[0];
+  const period = periodColumn(dataset);
 
-export default function PremiumShowcase({ rows }: { rows: Row[] }) {
-  const supplierMap: Record<string, number> = {};
-  for (const r of rows) {
-    supplierMap[r.supplier] = (supplierMap[r.supplier] ?? 0) + (r.revenue ?? 0);
-  }
-  const donutData = Object.entries(supplierMap).map(([label, value]) => ({ label, value }));
+  // Shares are always of the total, whatever the metric's own roll-up
+  const shares = metric && category ? pivot(dataset.rows, category.key, { key: metric.key, agg: 'sum' }, { limit: 8 }) : undefined;
+  const donutData = shares ? shares.members.map((label, i) => ({ label, value: shares.totals[i] })) : [];
 
   return (
     <section className="mx-auto max-w-6xl px-4 py-10">
@@ -26,15 +22,19 @@ export default function PremiumShowcase({ rows }: { rows: Row[] }) {
       </div>
 
       <div className="mb-6">
-        <PremiumKpiCards rows={rows.map(r => ({ period: r.period, revenue: r.revenue, units: r.units }))} />
+        <PremiumKpiCards dataset={dataset} metric={metric?.key} />
       </div>
 
       <div className="grid md:grid-cols-5 gap-4">
         <div className="md:col-span-3">
-          <PremiumLineChart data={rows as any[]} xKey="period" yKey="revenue" title="Revenue over time" />
+          {metric && period && (
+            <PremiumLineChart data={dataset.rows} xKey={period.key} yKey={metric.key} yLabel={metric.label} title={`${metric.label} over time`} format={columnFormat(metric)} />
+          )}
         </div>
         <div className="md:col-span-2">
-          <PremiumDonutChart data={donutData} title="Supplier share (revenue)" />
+          {category && metric && (
+            <PremiumDonutChart data={donutData} format={columnFormat(metric)} title={`${category.label} share (${metric.label.toLowerCase()})`} />
+          )}
         </div>
       </div>
     </section>